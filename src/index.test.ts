@@ -1,24 +1,1264 @@
 // Basic tests for Ground Truth MCP server
-import { describe, it, expect } from 'vitest';
+import { env, fetchMock, runInDurableObject, SELF } from 'cloudflare:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { afterAll, afterEach, beforeAll, describe, it, expect } from 'vitest';
+import type { GroundTruthMCP } from './index';
+import {
+  assertPublicDestination,
+  auditSetCookie,
+  buildEndpointRequest,
+  canonicalJson,
+  classifyCorsPolicy,
+  classifyIpAddress,
+  crawlCompliancePages,
+  createEvidenceArchiver,
+  deriveClaimKeywords,
+  extractBillingOptions,
+  extractComplianceSignals,
+  extractPricingSignals,
+  extractStructuredData,
+  findClaimPassages,
+  findInsecureFormActions,
+  findMixedContent,
+  findNumericFact,
+  FREE_TOOLS,
+  getHypothesisRegexProblem,
+  getPricingHistoryKey,
+  getReceiptOutputDigest,
+  getSafePostBodyKind,
+  getSecurityHeaderSummary,
+  htmlToTextBlocks,
+  importReceiptSigningKey,
+  inspectWellKnownFiles,
+  isCorsRequestAllowed,
+  MONITOR_TOOLS,
+  parseJsonPath,
+  parseNumericQuantity,
+  parseSecurityTxt,
+  readCorsResponseHeaders,
+  readEvidence,
+  recordPricingSnapshot,
+  resolveJsonPath,
+  scoreClaimSentence,
+  signReceipt,
+  summarizeRedirectChain,
+  verifyReceiptSignature,
+  withUsdAmount,
+} from './index';
+
+declare module 'cloudflare:test' {
+  interface ProvidedEnv extends Env {}
+}
+
+type ServerSql = GroundTruthMCP['sql'];
+
+/** Runs fn inside a fresh server Durable Object with its tables created. */
+async function withServer<T>(name: string, fn: (sql: ServerSql, server: GroundTruthMCP) => T | Promise<T>): Promise<T> {
+  const stub = env.MCP_OBJECT.get(env.MCP_OBJECT.idFromName(name));
+  return runInDurableObject(stub, async (server: GroundTruthMCP) => {
+    await server.init();
+    return fn(server.sql.bind(server) as ServerSql, server);
+  });
+}
 
 describe('Ground Truth MCP Server', () => {
-  it('should have valid server configuration', () => {
-    // Test that basic constants are defined
-    expect(typeof "ground-truth").toBe('string');
-    expect(typeof "0.4.9").toBe('string');
+  type CardTool = { name: string; annotations?: Record<string, boolean> };
+  const fetchServerCard = async () => {
+    const response = await SELF.fetch('https://ground-truth.example/.well-known/mcp/server-card.json');
+    return await response.json() as { serverInfo: { name: string; version: string }; tools: CardTool[] };
+  };
+
+  it('binds the Durable Object and the API key store', () => {
+    expect(env.MCP_OBJECT.idFromName('config')).toBeDefined();
+    expect(typeof env.API_KEYS.get).toBe('function');
+  });
+
+  it('serves a server card with the server version and the free tools', async () => {
+    const card = await fetchServerCard();
+    expect(card.serverInfo).toMatchObject({ name: 'ground-truth', version: expect.stringMatching(/^\d+\.\d+\.\d+$/) });
+    expect(card.tools.map((tool) => tool.name)).toEqual(expect.arrayContaining(FREE_TOOLS));
+  });
+
+  it('lists every registered tool except the team monitor tools in the server card, with the same annotations', async () => {
+    const card = await fetchServerCard();
+    const registered = await withServer('server-card-tools', async (_sql, server) => {
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'server-card-test', version: '1.0.0' });
+      await server.server.connect(serverTransport);
+      await client.connect(clientTransport);
+      const { tools } = await client.listTools();
+      await client.close();
+      return tools.filter((tool) => !(MONITOR_TOOLS as readonly string[]).includes(tool.name));
+    });
+    const annotationsByName = (tools: CardTool[]) =>
+      Object.fromEntries(tools.map((tool) => [tool.name, { readOnlyHint: tool.annotations?.readOnlyHint, destructiveHint: tool.annotations?.destructiveHint }]));
+    expect(card.tools.map((tool) => tool.name).sort()).toEqual(registered.map((tool) => tool.name).sort());
+    expect(annotationsByName(card.tools)).toEqual(annotationsByName(registered as CardTool[]));
+  });
+});
+describe('outbound request guard', () => {
+  it('classifies private, loopback, and metadata IP literals', () => {
+    expect(classifyIpAddress('127.0.0.1')).toBe('loopback');
+    expect(classifyIpAddress('10.1.2.3')).toBe('private');
+    expect(classifyIpAddress('172.31.255.255')).toBe('private');
+    expect(classifyIpAddress('169.254.169.254')).toBe('link-local');
+    expect(classifyIpAddress('100.100.0.1')).toBe('carrier-grade NAT');
+    expect(classifyIpAddress('0.0.0.0')).toBe('unspecified');
+  });
+
+  it('classifies IPv6 literals, including embedded IPv4 addresses', () => {
+    expect(classifyIpAddress('::1')).toBe('loopback');
+    expect(classifyIpAddress('[::1]')).toBe('loopback');
+    expect(classifyIpAddress('::ffff:127.0.0.1')).toBe('loopback');
+    expect(classifyIpAddress('::ffff:a9fe:a9fe')).toBe('link-local');
+    expect(classifyIpAddress('64:ff9b::10.0.0.1')).toBe('private');
+    expect(classifyIpAddress('fd00::1')).toBe('unique local');
+    expect(classifyIpAddress('fe80::1%eth0')).toBe('link-local');
+  });
+
+  it('treats public addresses as allowed and hostnames as not IPs', () => {
+    expect(classifyIpAddress('1.1.1.1')).toBeNull();
+    expect(classifyIpAddress('2606:4700:4700::1111')).toBeNull();
+    expect(classifyIpAddress('example.com')).toBeUndefined();
+    expect(classifyIpAddress('256.1.1.1')).toBeUndefined();
+  });
+
+  it('rejects internal hostnames, non-http schemes, and encoded private addresses', async () => {
+    for (const url of [
+      'http://localhost:8080/',
+      'http://metadata.google.internal/computeMetadata/v1/',
+      'http://printer.local/',
+      'file:///etc/passwd',
+      'http://0177.0.0.1/',
+      'http://0x7f000001/',
+      'http://2130706433/',
+      'http://[::ffff:10.0.0.1]/',
+    ]) {
+      await expect(assertPublicDestination(new URL(url)), url).rejects.toMatchObject({ code: 'blocked_destination' });
+    }
+  });
+
+  it('allows public IP literals without a DNS lookup', async () => {
+    await expect(assertPublicDestination(new URL('https://1.1.1.1/'))).resolves.toBeUndefined();
+  });
+});
+
+describe('redirect chain summary', () => {
+  it('flags protocol downgrades and cross-site hops', () => {
+    const summary = summarizeRedirectChain([
+      { url: 'https://example.com/a', status: 301, location: 'http://example.com/b', responseTimeMs: 5 },
+      { url: 'http://example.com/b', status: 302, location: 'https://other.org/c', responseTimeMs: 5 },
+      { url: 'https://other.org/c', status: 200, location: null, responseTimeMs: 5 },
+    ], false);
+    expect(summary).toMatchObject({ count: 2, protocolDowngrade: true, crossDomain: true, loopDetected: false });
+  });
+
+  it('skips a hop with a malformed Location header instead of throwing', () => {
+    const summary = summarizeRedirectChain([
+      { url: 'https://example.com/a', status: 302, location: 'http://[::1', responseTimeMs: 5 },
+    ], false);
+    expect(summary).toMatchObject({ count: 0, protocolDowngrade: false, crossDomain: false });
+    expect(summary.hops).toHaveLength(1);
+  });
+});
+
+describe('check_endpoint request building', () => {
+  it('accepts GraphQL queries and read-only JSON-RPC calls as POST bodies', () => {
+    expect(getSafePostBodyKind({ query: '{ viewer { login } }' })).toBe('graphql_query');
+    expect(getSafePostBodyKind({ query: '# list repos\nquery Repos($n: Int) { repos(first: $n) { name } }' })).toBe('graphql_query');
+    expect(getSafePostBodyKind({ query: 'query { search(text: "mutation") { id } }' })).toBe('graphql_query');
+    expect(getSafePostBodyKind({ jsonrpc: '2.0', id: 1, method: 'tools/list' })).toBe('json_rpc_read');
+    expect(getSafePostBodyKind({ jsonrpc: '2.0', id: 1, method: 'eth_blockNumber', params: [] })).toBe('json_rpc_read');
+  });
+
+  it('refuses write requests and arbitrary JSON', () => {
+    expect(getSafePostBodyKind({ query: 'mutation { deleteRepo(id: 1) { id } }' })).toBeNull();
+    expect(getSafePostBodyKind({ query: 'query { a } mutation M { b }' })).toBeNull();
+    expect(getSafePostBodyKind({ query: 'subscription { events { id } }' })).toBeNull();
+    expect(getSafePostBodyKind({ jsonrpc: '2.0', id: 1, method: 'tools/call' })).toBeNull();
+    expect(getSafePostBodyKind({ jsonrpc: '2.0', id: 1, method: 'eth_sendRawTransaction' })).toBeNull();
+    expect(getSafePostBodyKind([{ jsonrpc: '2.0', method: 'ping' }])).toBeNull();
+    expect(getSafePostBodyKind({ amount: 100, to: 'acct_1' })).toBeNull();
+  });
+
+  it('only sends POST with a safe-listed body and reports its kind', () => {
+    expect(buildEndpointRequest('POST', undefined, { name: 'x' })).toHaveProperty('error');
+    expect(buildEndpointRequest('POST', undefined, undefined)).toEqual({ error: 'POST requires a JSON body.' });
+    const built = buildEndpointRequest('POST', undefined, { query: '{ ok }' });
+    expect('summary' in built && built.summary).toMatchObject({ method: 'POST', bodyKind: 'graphql_query' });
+  });
+
+  it('redacts credential-like headers and rejects forwarding headers', () => {
+    const built = buildEndpointRequest('GET', { Authorization: 'Bearer abc', Accept: 'application/json' }, undefined);
+    expect('summary' in built && built.summary.headers).toMatchObject({ authorization: 'Bearer [REDACTED]', accept: 'application/json' });
+    expect(buildEndpointRequest('GET', { 'X-Forwarded-For': '10.0.0.1' }, undefined)).toHaveProperty('error');
+  });
+
+  it('rejects method-override headers that would turn a safe-listed POST into a write', () => {
+    for (const name of ['X-HTTP-Method-Override', 'X-HTTP-Method', 'x-method-override']) {
+      expect(buildEndpointRequest('POST', { [name]: 'DELETE' }, { query: '{ ok }' }), name).toHaveProperty('error');
+    }
+  });
+});
+
+describe('mixed content detection', () => {
+  it('counts only links the browser loads', () => {
+    const result = findMixedContent(`
+      <link rel="canonical" href="http://example.com/">
+      <link rel="alternate" hreflang="de" href="http://example.com/de">
+      <link rel="stylesheet" href="http://cdn.example.com/site.css">
+      <link rel="modulepreload" href="http://cdn.example.com/app.js">
+      <link rel="shortcut icon" href="http://example.com/favicon.ico">
+      <script src="http://cdn.example.com/lib.js"></script>
+      <img src="http://img.example.com/a.png" alt="">
+      <img src="https://img.example.com/b.png" alt="">`);
+    expect(result.active).toEqual(['http://cdn.example.com/site.css', 'http://cdn.example.com/app.js', 'http://cdn.example.com/lib.js']);
+    expect(result.passive).toEqual(['http://example.com/favicon.ico', 'http://img.example.com/a.png']);
+  });
+
+  it('reports insecure form actions separately from mixed content', () => {
+    const body = '<form method="post" action="http://example.com/login"><input name="u"></form><form action="/search"></form>';
+    expect(findMixedContent(body)).toMatchObject({ activeCount: 0, passiveCount: 0 });
+    expect(findInsecureFormActions(body)).toEqual({ count: 1, actions: ['http://example.com/login'] });
+  });
+});
+
+describe('HTML text blocks', () => {
+  it('keeps words in adjacent inline tags apart', () => {
+    const blocks = htmlToTextBlocks('<div><span>Monthly</span><span>Annual</span><em>Save 20%</em></div>');
+    expect(blocks.map((block) => block.text)).toEqual(['Monthly Annual Save 20%']);
+  });
+
+  it('keeps superscript cents attached to the price', () => {
+    const blocks = htmlToTextBlocks('<p>$29<sup>.99</sup><small>/mo</small></p>');
+    expect(blocks[0].text).toBe('$29.99 /mo');
+  });
+
+  it('splits block tags and tracks footer landmarks', () => {
+    const blocks = htmlToTextBlocks('<main><h2>Pro</h2><p>For teams</p></main><footer><a href="/">Pricing</a></footer>');
+    expect(blocks).toEqual([
+      { tag: 'h2', text: 'Pro', landmark: 'main' },
+      { tag: 'p', text: 'For teams', landmark: 'main' },
+      { tag: 'a', text: 'Pricing', landmark: 'footer' },
+    ]);
+  });
+});
+
+describe('price parsing', () => {
+  it('reads currency symbols, ISO codes, and locale separators', () => {
+    const { prices } = extractPricingSignals('<p>1.234,56 €</p><p>£12</p><p>USD 1,234.50</p><p>¥1,200</p><p>12,99 EUR</p>');
+    expect(prices.map(({ amount, currency }) => ({ amount, currency }))).toEqual([
+      { amount: 1234.56, currency: 'EUR' },
+      { amount: 12, currency: 'GBP' },
+      { amount: 1234.5, currency: 'USD' },
+      { amount: 1200, currency: 'JPY' },
+      { amount: 12.99, currency: 'EUR' },
+    ]);
+  });
+
+  it('normalizes metered prices to one unit', () => {
+    const { usagePricing } = extractPricingSignals('<p>$0.50 per 1K requests</p><p>€20 per TB</p>');
+    expect(usagePricing).toEqual([
+      expect.objectContaining({ amount: 0.5, currency: 'USD', unit: 'request', unitQuantity: 1000, amountPerUnit: 0.0005 }),
+      expect.objectContaining({ amount: 20, currency: 'EUR', unit: 'gb', unitQuantity: 1000, amountPerUnit: 0.02 }),
+    ]);
+  });
+
+  it('keeps sub-cent amounts when converting to USD', () => {
+    const { usagePricing } = extractPricingSignals('<p>€0.0004 per token</p>', { EUR: 1.08 });
+    expect(usagePricing[0]).toMatchObject({ amountUsd: 0.000432, amountPerUnit: 0.0004, amountPerUnitUsd: 0.000432 });
+    expect(withUsdAmount({ amount: 0.5, currency: 'EUR', amountPerUnit: 0.0005 }, { EUR: 1.1 })).toEqual({
+      amount: 0.5,
+      currency: 'EUR',
+      amountPerUnit: 0.0005,
+      amountUsd: 0.55,
+      amountPerUnitUsd: 0.00055,
+    });
+  });
+
+  it('leaves prices unconverted when the currency has no rate', () => {
+    expect(withUsdAmount({ amount: 10, currency: 'CHF' }, { EUR: 1.08 })).toEqual({ amount: 10, currency: 'CHF' });
+  });
+});
+
+describe('pricing card plans', () => {
+  const planNames = (html: string) => extractPricingSignals(html).plans.map((plan) => plan.name);
+
+  it('reads cards backed by a plan name, CTA, or feature list', () => {
+    const html = `
+      <div><h3>Pro</h3><p>$20/month</p></div>
+      <div><h3>Launch</h3><p>$49/month</p><a href="/signup">Get started</a></div>
+      <div><h3>Scale-up</h3><p>$99/month</p><ul><li>SSO</li><li>Audit logs</li></ul></div>`;
+    expect(extractPricingSignals(html).plans).toEqual([
+      expect.objectContaining({ name: 'Pro', price: expect.objectContaining({ amount: 20, period: 'month' }) }),
+      expect.objectContaining({ name: 'Launch', cta: 'Get started' }),
+      expect.objectContaining({ name: 'Scale-up', features: ['SSO', 'Audit logs'] }),
+    ]);
+  });
+
+  it('does not turn a FAQ heading over a price into a plan', () => {
+    expect(planNames('<h2>Frequently asked questions</h2><p>Plans start at $20/month</p><p>Cancel any time.</p>')).toEqual([]);
+  });
+
+  it('does not turn a testimonial heading over a price into a plan', () => {
+    expect(planNames('<h3>Loved by 4,000 teams</h3><blockquote><p>Saved us $500/month</p></blockquote><p>Dana, CTO at Initech</p>'))
+      .toEqual([]);
+  });
+});
+
+describe('billing periods and toggles', () => {
+  const billing = (html: string) => extractBillingOptions(html, htmlToTextBlocks(html));
+  const cardPeriod = (priceHtml: string) =>
+    extractPricingSignals(`<div><h3>Pro</h3>${priceHtml}<a href="/signup">Get started</a></div>`).plans[0]?.price?.period;
+
+  it('reads the period next to the price', () => {
+    expect(cardPeriod('<p>$1,200/year ($100/month)</p>')).toBe('year');
+    expect(cardPeriod('<p>$100/month ($1,200/year)</p>')).toBe('month');
+    expect(cardPeriod('<p>$100</p><p>per month, billed annually</p>')).toBe('month');
+    expect(cardPeriod('<p>$1,200</p><p>a year</p>')).toBe('year');
   });
 
-  it('should have required environment bindings', () => {
-    // Basic validation that the server structure is sound
-    const requiredBindings = ['MCP_OBJECT', 'API_KEYS'];
-    requiredBindings.forEach(binding => {
-      expect(typeof binding).toBe('string');
+  it('pairs monthly and annual prices from __NEXT_DATA__', () => {
+    const html = `<script id="__NEXT_DATA__" type="application/json">${JSON.stringify({
+      props: { pageProps: { plans: [{ name: 'Pro', currency: 'USD', monthlyPrice: 20, annualPrice: 192 }] } },
+    })}</script><p>Annual</p><p>Save 20%</p>`;
+    expect(billing(html)).toEqual({
+      toggleDetected: true,
+      options: [
+        { plan: 'Pro', billing: 'monthly', amount: 20, currency: 'USD', perMonth: 20, perYear: 240, source: 'next_data' },
+        { plan: 'Pro', billing: 'annual', amount: 192, currency: 'USD', perMonth: 16, perYear: 192, source: 'next_data' },
+      ],
+      discounts: [{ plan: 'Pro', monthlyPerMonth: 20, annualPerMonth: 16, discountPercent: 20 }],
+      annualDiscountPercent: 20,
+      advertisedAnnualDiscountPercent: 20,
     });
   });
 
-  it('should define free tools correctly', () => {
-    const freeTools = ["check_endpoint", "inspect_security_headers", "verify_claim", "list_resources"];
-    expect(Array.isArray(freeTools)).toBe(true);
-    expect(freeTools.length).toBeGreaterThan(0);
+  it('pairs one JSON-LD offer per period for the same plan', () => {
+    const offer = (price: string, unitCode: string) => ({
+      '@type': 'Offer',
+      name: 'Team',
+      price,
+      priceCurrency: 'EUR',
+      priceSpecification: { '@type': 'UnitPriceSpecification', price, priceCurrency: 'EUR', referenceQuantity: { unitCode } },
+    });
+    const html = `<script type="application/ld+json">${JSON.stringify({
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      offers: [offer('10', 'MON'), offer('96', 'ANN')],
+    })}</script>`;
+    expect(billing(html)).toMatchObject({
+      toggleDetected: true,
+      discounts: [{ plan: 'Team', monthlyPerMonth: 10, annualPerMonth: 8, discountPercent: 20 }],
+    });
+  });
+
+  it('reads per-month annual rates from data attributes', () => {
+    const html = '<span data-plan="Starter" data-price-monthly="$12" data-price-annual="$10">$10</span>';
+    expect(billing(html)).toMatchObject({
+      toggleDetected: true,
+      options: [
+        { plan: 'Starter', billing: 'monthly', amount: 12, perMonth: 12, source: 'data_attribute' },
+        { plan: 'Starter', billing: 'annual', amount: 10, perMonth: 10, perYear: 120, source: 'data_attribute' },
+      ],
+      annualDiscountPercent: 16.7,
+    });
+  });
+
+  it('reports no toggle when only one period is shipped', () => {
+    expect(billing('<span data-price-monthly="20">$20</span>')).toMatchObject({ toggleDetected: false, discounts: [], annualDiscountPercent: null });
+  });
+});
+
+describe('structured data extraction', () => {
+  const jsonLd = (data: unknown) => `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+
+  it('flattens an @graph into typed summaries', () => {
+    const data = extractStructuredData(jsonLd({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'Organization', name: 'Acme', url: 'https://acme.example', sameAs: ['https://github.com/acme'] },
+        {
+          '@type': 'SoftwareApplication',
+          name: 'Acme Cloud',
+          applicationCategory: 'DeveloperApplication',
+          offers: { '@type': 'Offer', name: 'Pro', price: '29', priceCurrency: 'USD' },
+        },
+      ],
+    }));
+    expect(data.types).toEqual(['Organization', 'SoftwareApplication', 'Offer']);
+    expect(data.organizations).toEqual([
+      { name: 'Acme', url: 'https://acme.example', logo: null, sameAs: ['https://github.com/acme'], email: null, telephone: null, source: 'json_ld' },
+    ]);
+    expect(data.softwareApplications).toMatchObject([{ name: 'Acme Cloud', applicationCategory: 'DeveloperApplication' }]);
+    expect(data.offers).toMatchObject([{ itemName: 'Acme Cloud', name: 'Pro', amount: 29, currency: 'USD' }]);
+  });
+
+  it('counts invalid JSON-LD blocks and keeps the valid ones', () => {
+    const data = extractStructuredData(`<script type="application/ld+json">{"@type": "Product", "name": </script>${jsonLd({ '@type': 'Product', name: 'Widget' })}`);
+    expect(data).toMatchObject({ jsonLdBlocks: 2, invalidJsonLdBlocks: 1, products: [{ name: 'Widget', source: 'json_ld' }] });
+  });
+
+  it('rebuilds nested microdata items', () => {
+    const data = extractStructuredData(`
+      <div itemscope itemtype="https://schema.org/Product">
+        <h1 itemprop="name">Widget <b>Pro</b></h1>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <meta itemprop="priceCurrency" content="EUR"><span itemprop="price" content="19.99">€19.99</span>
+        </div>
+      </div>`);
+    expect(data.microdataItems).toBe(1);
+    expect(data.products).toMatchObject([{ name: 'Widget Pro', source: 'microdata' }]);
+    expect(data.offers).toMatchObject([{ itemName: 'Widget Pro', amount: 19.99, currency: 'EUR', source: 'microdata' }]);
+  });
+
+  it('reads OpenGraph and Twitter meta tags', () => {
+    const data = extractStructuredData(`
+      <meta property="og:title" content="Acme Pricing"><meta property="og:title" content="Duplicate">
+      <meta property="product:price:amount" content="29"><meta name="twitter:card" content="summary">
+      <meta name="description" content="Not social">`);
+    expect(data.openGraph).toEqual({ 'og:title': 'Acme Pricing', 'product:price:amount': '29' });
+    expect(data.twitter).toEqual({ 'twitter:card': 'summary' });
+  });
+
+  it('skips deeply nested JSON instead of failing', () => {
+    let nested: Record<string, unknown> = { '@type': 'Product', name: 'Too deep' };
+    for (let depth = 0; depth < 5000; depth++) nested = { child: nested };
+    const data = extractStructuredData(jsonLd({ '@graph': [{ '@type': 'Product', name: 'Widget' }, nested] }));
+    expect(data.products).toMatchObject([{ name: 'Widget' }]);
+    expect(data.invalidJsonLdBlocks).toBe(0);
+  });
+
+  it('does not follow deeply nested names', () => {
+    let name: unknown = 'Too deep';
+    for (let depth = 0; depth < 5000; depth++) name = { name };
+    expect(extractStructuredData(jsonLd({ '@type': 'Product', name })).products).toMatchObject([{ name: null }]);
+  });
+});
+
+describe('pricing history key', () => {
+  it('ignores host case, fragments, and trailing slashes', () => {
+    const key = getPricingHistoryKey('https://example.com/pricing');
+    expect(getPricingHistoryKey('https://EXAMPLE.com/pricing/')).toBe(key);
+    expect(getPricingHistoryKey('https://example.com/pricing#enterprise')).toBe(key);
+    expect(getPricingHistoryKey('https://example.com/pricing?plan=pro')).not.toBe(key);
+    expect(getPricingHistoryKey('https://example.com')).toBe('https://example.com/');
+  });
+});
+
+describe('pricing snapshots', () => {
+  const plan = (name: string, amount: number) => ({
+    name,
+    price: { amount, currency: 'USD', raw: `$${amount}`, period: 'month' as const, qualifier: null, billing: null },
+    contactSales: false,
+    priceLabel: null,
+    features: [],
+    cta: null,
+    source: 'card' as const,
+    confidence: 0.9,
+  });
+
+  it('stores each key\'s scans separately and skips repeats per key', async () => {
+    await withServer('pricing-snapshots', (sql) => {
+      const url = 'https://example.com/pricing';
+      expect(recordPricingSnapshot(sql, 'key-a', url, [plan('Pro', 20)], 1)).toBe(true);
+      // Another key scanning the same page, as a cache hit would, still gets its own history.
+      expect(recordPricingSnapshot(sql, 'key-b', url, [plan('Pro', 20)], 2)).toBe(true);
+      expect(recordPricingSnapshot(sql, 'key-a', 'https://EXAMPLE.com/pricing/#plans', [plan('Pro', 20)], 3)).toBe(false);
+      expect(recordPricingSnapshot(sql, 'key-a', url, [plan('Pro', 25)], 4)).toBe(true);
+
+      const rows = sql<{ owner_key_hash: string; url: string; captured_at: number }>`SELECT owner_key_hash, url, captured_at FROM pricing_snapshots ORDER BY captured_at`;
+      expect(rows).toEqual([
+        { owner_key_hash: 'key-a', url, captured_at: 1 },
+        { owner_key_hash: 'key-b', url, captured_at: 2 },
+        { owner_key_hash: 'key-a', url, captured_at: 4 },
+      ]);
+    });
+  });
+});
+
+describe('claim keyword derivation', () => {
+  it('weights numbers with their currency, percent, and unit above words', () => {
+    expect(deriveClaimKeywords('Acme Cloud offers 99.99% uptime on the Enterprise plan')).toEqual([
+      { term: '99.99%', kind: 'number', weight: 2 },
+      { term: 'Acme Cloud', kind: 'entity', weight: 1 },
+      { term: 'uptime', kind: 'term', weight: 1 },
+      { term: 'Enterprise plan', kind: 'phrase', weight: 1 },
+    ]);
+    expect(deriveClaimKeywords("Vercel's Hobby plan includes 100 GB of bandwidth")).toEqual([
+      { term: '100', kind: 'number', weight: 2, unit: 'gb' },
+      { term: 'Vercel', kind: 'entity', weight: 1 },
+      { term: 'Hobby plan', kind: 'phrase', weight: 1 },
+      { term: 'bandwidth', kind: 'term', weight: 1 },
+    ]);
+  });
+
+  it('reads a whole billing period after a price', () => {
+    expect(deriveClaimKeywords('The Pro plan costs $20/month')).toEqual([
+      { term: '$20', kind: 'number', weight: 2, unit: '/month' },
+      { term: 'Pro plan', kind: 'phrase', weight: 1 },
+    ]);
+    expect(deriveClaimKeywords('Team costs $8 per user')[0]).toEqual({ term: '$8', kind: 'number', weight: 2, unit: 'per user' });
+  });
+
+  it('keeps capitalized runs as entities and reads sentence case as ordinary words', () => {
+    expect(deriveClaimKeywords('Notion supports SAML SSO')).toEqual([
+      { term: 'Notion', kind: 'entity', weight: 1 },
+      { term: 'SAML SSO', kind: 'entity', weight: 1 },
+    ]);
+    expect(deriveClaimKeywords('Business support is available 24/7')).toEqual([
+      { term: '24/7', kind: 'number', weight: 2 },
+      { term: 'Business support', kind: 'phrase', weight: 1 },
+      { term: 'available', kind: 'term', weight: 1 },
+    ]);
+  });
+
+  it('drops negations and falls back to the claim when only stopwords remain', () => {
+    expect(deriveClaimKeywords('The free plan does not include SSO').map((keyword) => keyword.term)).toEqual(['free plan', 'SSO']);
+    expect(deriveClaimKeywords('It is all there is')).toEqual([{ term: 'It is all there is', kind: 'phrase', weight: 1 }]);
+  });
+});
+
+describe('evidence archive', () => {
+  const day = 24 * 60 * 60 * 1000;
+  const page = {
+    body: '<main><h1>Pricing</h1><p>Pro costs $20/month.</p></main>',
+    fromCache: false,
+    ok: true,
+    fetchedAt: Date.parse('2026-10-01T12:00:00Z'),
+    status: 200,
+    headers: new Headers({ 'content-type': 'text/html', etag: '"v1"', 'set-cookie': 'sid=secret' }),
+  };
+
+  it('returns archived evidence to its key until it expires', async () => {
+    await withServer('evidence-round-trip', async (sql) => {
+      const evidenceId = await createEvidenceArchiver(sql, 'key-a', 30, 'check_pricing')('https://example.com/pricing', page);
+      expect(evidenceId).toMatch(/^ev_[0-9a-z]{20}$/);
+
+      const evidence = await readEvidence(sql, 'key-a', evidenceId!, true);
+      expect(evidence).toMatchObject({
+        evidenceId,
+        found: true,
+        tool: 'check_pricing',
+        url: 'https://example.com/pricing',
+        fetchedAt: '2026-10-01T12:00:00.000Z',
+        fromCache: false,
+        status: 200,
+        headers: { 'content-type': 'text/html', etag: '"v1"' },
+        hashVerified: true,
+        textTruncated: false,
+        text: 'Pricing\nPro costs $20/month.',
+      });
+      expect(Date.parse(evidence!.expiresAt) - Date.parse(evidence!.archivedAt)).toBe(30 * day);
+      expect(await readEvidence(sql, 'key-a', evidenceId!, false)).not.toHaveProperty('text');
+
+      expect(await readEvidence(sql, 'key-b', evidenceId!, true)).toBeNull();
+      expect(await readEvidence(sql, 'key-a', evidenceId!, true, Date.parse(evidence!.expiresAt))).toBeNull();
+    });
+  });
+
+  it('flags stored text that no longer matches its hash', async () => {
+    await withServer('evidence-tampered', async (sql) => {
+      const evidenceId = await createEvidenceArchiver(sql, 'key-a', 30, 'verify_claim')('https://example.com/', page);
+      sql`UPDATE evidence SET text = ${'Pro costs $10/month.'} WHERE id = ${evidenceId}`;
+      expect(await readEvidence(sql, 'key-a', evidenceId!, false)).toMatchObject({ hashVerified: false });
+    });
+  });
+
+  it('prunes the key\'s expired evidence when it archives more', async () => {
+    await withServer('evidence-prune', async (sql) => {
+      const archivedAt = Date.now() - 31 * day;
+      for (const [id, owner] of [['ev_expiredkeya0000000', 'key-a'], ['ev_expiredkeyb0000000', 'key-b']]) {
+        sql`INSERT INTO evidence (id, owner_key_hash, tool, url, fetched_at, from_cache, content_hash, text, archived_at, expires_at) VALUES (${id}, ${owner}, ${'check_pricing'}, ${'https://example.com/old'}, ${archivedAt}, ${0}, ${'hash'}, ${'old'}, ${archivedAt}, ${archivedAt + 30 * day})`;
+      }
+      const fresh = await createEvidenceArchiver(sql, 'key-a', 30, 'check_pricing')('https://example.com/new', page);
+      expect(sql<{ id: string }>`SELECT id FROM evidence ORDER BY archived_at`.map((row) => row.id)).toEqual(['ev_expiredkeyb0000000', fresh]);
+    });
+  });
+});
+
+describe('claim sentence scoring', () => {
+  const score = (sentence: string, claim: string) => scoreClaimSentence(sentence, deriveClaimKeywords(claim));
+
+  it('ignores negations that do not apply to a matched keyword', () => {
+    expect(score('Acme supports SAML SSO with no extra setup fees.', 'Acme supports SAML SSO')).toMatchObject({ negated: false, hedged: false });
+    expect(score('Start your Acme 14-day free trial today, no credit card required.', 'Acme offers a 14-day free trial'))
+      .toMatchObject({ negated: false, hedged: false });
+  });
+
+  it('marks negations before or after a matched keyword', () => {
+    expect(score('Acme no longer supports SAML SSO.', 'Acme supports SAML SSO')?.negated).toBe(true);
+    expect(score('SAML SSO is not available on the Team plan.', 'Acme supports SAML SSO')?.negated).toBe(true);
+  });
+
+  it('scopes hedges the same way', () => {
+    expect(score('Acme supports SAML SSO, and you may also invite guests.', 'Acme supports SAML SSO')?.hedged).toBe(false);
+    expect(score('SAML SSO is in beta for Enterprise workspaces.', 'Acme supports SAML SSO')?.hedged).toBe(true);
+    expect(score('Acme may add SAML SSO later.', 'Acme supports SAML SSO')?.hedged).toBe(true);
+  });
+
+  it('scores keyword coverage and returns null without a match', () => {
+    const passage = score('Acme supports SAML SSO on every plan.', 'Acme supports SAML SSO');
+    expect(passage?.score).toBe(1);
+    expect(score('Nothing relevant here.', 'Acme supports SAML SSO')).toBeNull();
+  });
+});
+
+describe('claim passages', () => {
+  const check = (html: string, claim: string) => findClaimPassages(html, deriveClaimKeywords(claim), claim);
+
+  it('supports a claim when an unrelated negation shares the sentence', () => {
+    expect(check('<p>Acme supports SAML SSO with no extra setup fees.</p>', 'Acme supports SAML SSO'))
+      .toMatchObject({ stance: 'supporting', contradiction: null });
+    expect(check('<p>Start your Acme 14-day free trial today, no credit card required.</p>', 'Acme offers a 14-day free trial'))
+      .toMatchObject({ stance: 'supporting', contradiction: null });
+  });
+
+  it('reports an opposing passage when the negation applies to the claim', () => {
+    const result = check('<p>Acme no longer supports SAML SSO.</p>', 'Acme supports SAML SSO');
+    expect(result.stance).toBe('contradicting');
+    expect(result.contradiction).toMatchObject({ kind: 'opposing_passage', passage: 'Acme no longer supports SAML SSO.' });
+  });
+
+  it('reads the claim polarity the same way', () => {
+    expect(check('<p>Acme does not support SAML SSO.</p>', 'Acme does not support SAML SSO').stance).toBe('supporting');
+    expect(check('<p>Acme supports SAML SSO.</p>', 'Acme does not support SAML SSO')).toMatchObject({
+      stance: 'contradicting',
+      contradiction: { kind: 'opposing_passage' },
+    });
+  });
+
+  it('reports conflicting numbers next to the claim wording', () => {
+    const result = check('<p>The Acme Pro plan costs $59 per month.</p>', 'The Acme Pro plan costs $49 per month');
+    expect(result.stance).toBe('contradicting');
+    expect(result.contradiction).toMatchObject({ kind: 'conflicting_number', claimNumbers: ['49'], pageNumbers: ['59'] });
+  });
+});
+
+describe('numeric fact normalization', () => {
+  const quantity = (value: number, prefix: string, suffix: string) => {
+    const { scale: _scale, ...parsed } = parseNumericQuantity(value, prefix, suffix);
+    return parsed;
+  };
+
+  it('applies magnitudes, currencies, percent, and periods', () => {
+    expect(quantity(10, '', 'k requests per month')).toMatchObject({ value: 10000, unit: 'request', period: 'month' });
+    expect(quantity(30, '', '¢ per transaction')).toMatchObject({ value: 0.3, unit: 'USD' });
+    expect(quantity(2.9, '', '% of each charge')).toMatchObject({ value: 2.9, unit: '%', period: null });
+    expect(quantity(588, '$', ' billed annually')).toMatchObject({ value: 588, unit: 'USD', period: 'year' });
+    expect(quantity(2, '', ' TB of storage')).toMatchObject({ value: 2000, unit: 'GB' });
+  });
+
+  it('compares yearly prices against a monthly expectation', () => {
+    const expected = quantity(49, '$', '/mo');
+    const result = findNumericFact('<h2>Pro</h2><p>Pro costs $588 per year.</p>', 'Pro', 'costs', expected, 0);
+    expect(result.status).toBe('match');
+    expect(result.values[0]).toMatchObject({ value: 588, unit: 'USD/year', comparedValue: 49, difference: 0 });
+  });
+
+  it('reads the section heading as subject context', () => {
+    const html = '<h3>Free</h3><p>Up to 10,000 requests per month.</p><h3>Pro</h3><p>Up to 1M requests per month.</p>';
+    const result = findNumericFact(html, 'free tier', 'requests', quantity(10, '', 'k requests per month'), 0);
+    expect(result.status).toBe('match');
+    expect(result.values.map(({ value, heading, withinTolerance }) => ({ value, heading, withinTolerance }))).toEqual([
+      { value: 10000, heading: 'Free', withinTolerance: true },
+      { value: 1000000, heading: 'Pro', withinTolerance: false },
+    ]);
+  });
+
+  it('reports a mismatch outside the tolerance', () => {
+    const html = '<p>Stripe charges 2.9% + 30¢ per successful card charge.</p>';
+    expect(findNumericFact(html, 'Stripe', 'charges', quantity(3.4, '', '%'), 0.1).status).toBe('mismatch');
+    expect(findNumericFact(html, 'Stripe', 'charges', quantity(3, '', '%'), 0.1).status).toBe('match');
+  });
+});
+
+describe('verification receipts', () => {
+  const generateJwk = async () => {
+    const pair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    return JSON.stringify(await crypto.subtle.exportKey('jwk', pair.privateKey));
+  };
+  const payload = {
+    version: 1,
+    tool: 'check_pricing',
+    inputs: { url: 'https://example.com/pricing' },
+    outputDigest: 'a'.repeat(64),
+    evidence: [],
+    issuedAt: '2026-01-01T00:00:00.000Z',
+    serverVersion: '0.4.5',
+    keyId: 'test',
+  };
+
+  it('serializes objects with sorted keys and without undefined properties', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, undefined], c: undefined }, e: null })).toBe('{"a":{"d":[1,null]},"b":1,"e":null}');
+  });
+
+  it('digests results independently of key order and receipt fields', async () => {
+    const digest = await getReceiptOutputDigest({ b: 2, a: 1 });
+    expect(digest).toMatch(/^[0-9a-f]{64}$/);
+    expect(await getReceiptOutputDigest({ a: 1, b: 2, receipt: { signature: 'x' }, receiptError: 'y' })).toBe(digest);
+    expect(await getReceiptOutputDigest({ a: 1, b: 3 })).not.toBe(digest);
+  });
+
+  it('signs receipts that verify only with the signing key and the exact payload', async () => {
+    const key = await importReceiptSigningKey(await generateJwk());
+    const otherKey = await importReceiptSigningKey(await generateJwk());
+    expect(key.keyId).toMatch(/^[0-9a-f]{16}$/);
+    expect(key.publicJwk).not.toHaveProperty('d');
+
+    const receipt = await signReceipt(key, payload);
+    expect(receipt.algorithm).toBe('Ed25519');
+    expect(receipt.signature).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await verifyReceiptSignature(key, { ...payload }, receipt.signature)).toBe(true);
+    expect(await verifyReceiptSignature(key, { ...payload, tool: 'verify_claim' }, receipt.signature)).toBe(false);
+    expect(await verifyReceiptSignature(otherKey, payload, receipt.signature)).toBe(false);
+    expect(await verifyReceiptSignature(key, payload, 'not base64!')).toBe(false);
+  });
+
+  it('rejects signing keys that are not Ed25519 private JWKs', async () => {
+    await expect(importReceiptSigningKey('not json')).rejects.toThrow('not valid JSON');
+    await expect(importReceiptSigningKey(JSON.stringify({ kty: 'OKP', crv: 'Ed25519', x: 'abc' }))).rejects.toThrow('Ed25519 private key');
+  });
+});
+
+describe('hypothesis regex subset', () => {
+  it('refuses quantified groups, including the ones a nested-quantifier check misses', () => {
+    for (const pattern of ['(a+)+$', '((a+))+$', '(a|a)+$', '(a|aa)+$', '(?:ab)*', '(a){2,}']) {
+      expect(getHypothesisRegexProblem(pattern), pattern).toMatch(/Quantified groups/);
+    }
+  });
+
+  it('refuses backreferences and lookarounds', () => {
+    expect(getHypothesisRegexProblem('(a)\\1')).toMatch(/Backreferences/);
+    expect(getHypothesisRegexProblem('(?<q>a)\\k<q>')).toMatch(/Backreferences/);
+    expect(getHypothesisRegexProblem('foo(?=bar)')).toMatch(/Lookahead/);
+    expect(getHypothesisRegexProblem('(?<!x)foo')).toMatch(/Lookahead/);
+  });
+
+  it('refuses chained unbounded quantifiers', () => {
+    for (const pattern of ['.*.*.*.*x', '.*x.*', 'a+b*', '\\d{2,}\\s+']) {
+      expect(getHypothesisRegexProblem(pattern), pattern).toMatch(/at most one unbounded quantifier/);
+    }
+  });
+
+  it('refuses patterns whose optional repeats and alternatives multiply past the limit', () => {
+    expect(getHypothesisRegexProblem('a?a?a?a?a?x')).toMatch(/32 combinations/);
+    expect(getHypothesisRegexProblem('.*a{0,20}x')).toMatch(/21 combinations/);
+    expect(getHypothesisRegexProblem('(?:a|b|c)(?:d|e|f)x')).toBeNull();
+    expect(getHypothesisRegexProblem('(?:a|b|c)(?:d|e|f)y?')).toMatch(/18 combinations/);
+  });
+
+  it('accepts quantified atoms, classes, and unquantified groups', () => {
+    for (const pattern of ['"version":\\s?"\\d+\\.\\d{1,3}"', '^(?:GET|POST) /api', '[()+*]+', '\\(a+\\)', '(?<major>\\d+)\\.\\d', '.*?x']) {
+      expect(getHypothesisRegexProblem(pattern), pattern).toBeNull();
+    }
+  });
+
+  it('reports patterns that do not compile', () => {
+    expect(getHypothesisRegexProblem('(unclosed')).not.toBeNull();
+  });
+});
+
+describe('JSON path subset', () => {
+  it('parses dot, bracket, quoted, and negative index segments', () => {
+    expect(parseJsonPath('$')).toEqual([]);
+    expect(parseJsonPath("$.data.items[0]['first name'][\"a.b\"][-1]")).toEqual(['data', 'items', 0, 'first name', 'a.b', -1]);
+    expect(parseJsonPath("$['it\\'s']")).toEqual(["it's"]);
+  });
+
+  it('rejects wildcards, slices, filters, and paths without a root', () => {
+    for (const path of ['$.items[*]', '$.items[0:2]', '$..name', '$.items[?(@.id)]', 'data.items']) {
+      expect(parseJsonPath(path), path).toBeNull();
+    }
+  });
+
+  it('resolves values, counting negative indexes from the end', () => {
+    const data = { items: [{ id: 1 }, { id: 2, tags: null }] };
+    expect(resolveJsonPath(data, parseJsonPath('$.items[-1].id')!)).toEqual({ found: true, value: 2 });
+    expect(resolveJsonPath(data, parseJsonPath('$.items[1].tags')!)).toEqual({ found: true, value: null });
+    expect(resolveJsonPath(data, parseJsonPath('$.items[5]')!).found).toBe(false);
+    expect(resolveJsonPath(data, parseJsonPath('$.items.id')!).found).toBe(false);
+  });
+});
+
+describe('CORS preflight evaluation', () => {
+  const cors = (headers: Record<string, string>) => readCorsResponseHeaders(new Headers(headers));
+  const origin = 'https://app.example.com';
+
+  it('classifies closed, allow-list, reflecting, and wildcard policies', () => {
+    expect(classifyCorsPolicy(cors({}), null)).toBe('closed');
+    expect(classifyCorsPolicy(cors({ 'access-control-allow-origin': origin }), null)).toBe('allow_list');
+    expect(classifyCorsPolicy(cors({ 'access-control-allow-origin': origin }), 'https://cors-probe.ground-truth.invalid'))
+      .toBe('reflects_any_origin');
+    expect(classifyCorsPolicy(cors({ 'access-control-allow-origin': '*' }), '*')).toBe('wildcard');
+    expect(classifyCorsPolicy(cors({ 'access-control-allow-origin': '*', 'access-control-allow-credentials': 'true' }), '*'))
+      .toBe('wildcard_with_credentials');
+  });
+
+  it('reads the Allow-* headers', () => {
+    expect(cors({
+      'access-control-allow-methods': 'GET, PUT',
+      'access-control-allow-headers': 'Authorization,X-Trace',
+      'access-control-max-age': '600',
+      vary: 'Accept-Encoding, Origin',
+    })).toEqual({
+      allowOrigin: null,
+      allowMethods: ['GET', 'PUT'],
+      allowHeaders: ['Authorization', 'X-Trace'],
+      allowCredentials: false,
+      maxAge: 600,
+      varyOrigin: true,
+    });
+  });
+
+  it('requires content-type in Allow-Headers unless the media type is safelisted', () => {
+    const policy = cors({ 'access-control-allow-origin': origin, 'access-control-allow-headers': 'authorization' });
+    const headers = ['authorization', 'content-type'];
+    expect(isCorsRequestAllowed(policy, origin, 'POST', headers, false)).toBe(false);
+    expect(isCorsRequestAllowed(policy, origin, 'POST', headers, false, 'application/json')).toBe(false);
+    expect(isCorsRequestAllowed(policy, origin, 'POST', headers, false, 'text/plain; charset=utf-8')).toBe(true);
+    expect(isCorsRequestAllowed(policy, origin, 'POST', ['accept', 'accept-language'], false)).toBe(true);
+    const withContentType = cors({ 'access-control-allow-origin': origin, 'access-control-allow-headers': 'authorization, content-type' });
+    expect(isCorsRequestAllowed(withContentType, origin, 'POST', headers, false, 'application/json')).toBe(true);
+  });
+
+  it('checks methods and treats wildcards as uncredentialed only', () => {
+    const wildcard = cors({ 'access-control-allow-origin': '*', 'access-control-allow-methods': '*', 'access-control-allow-headers': '*' });
+    expect(isCorsRequestAllowed(wildcard, origin, 'DELETE', ['x-trace'], false)).toBe(true);
+    expect(isCorsRequestAllowed(wildcard, origin, 'DELETE', ['authorization'], false)).toBe(false);
+    expect(isCorsRequestAllowed(wildcard, origin, 'GET', [], true)).toBe(false);
+
+    const listed = cors({
+      'access-control-allow-origin': origin,
+      'access-control-allow-credentials': 'true',
+      'access-control-allow-methods': 'PUT',
+    });
+    expect(isCorsRequestAllowed(listed, origin, 'PUT', [], true)).toBe(true);
+    expect(isCorsRequestAllowed(listed, origin, 'DELETE', [], true)).toBe(false);
+    expect(isCorsRequestAllowed(listed, 'https://other.example.com', 'GET', [], false)).toBe(false);
+  });
+});
+
+describe('compliance mentions', () => {
+  const url = 'https://vendor.example.com/security';
+  const mention = (html: string, signal: string) => {
+    const result = extractComplianceSignals(html, url);
+    return { detected: result.signals[signal], negated: result.evidence.find((item) => item.signal === signal)?.negated };
+  };
+
+  it('affirms mentions when a negation only opens the sentence', () => {
+    expect(mention('<main><p>No matter the plan, we are SOC 2 Type II certified.</p></main>', 'soc2')).toEqual({ detected: true, negated: false });
+    expect(mention('<main><p>We are SOC 2 Type II certified, and we never sell customer data.</p></main>', 'soc2'))
+      .toEqual({ detected: true, negated: false });
+  });
+
+  it('negates mentions governed by a negation', () => {
+    expect(mention('<main><p>We are not HIPAA compliant.</p></main>', 'hipaa')).toEqual({ detected: false, negated: true });
+    expect(mention('<main><p>SOC 2 certification is not something we offer today.</p></main>', 'soc2')).toEqual({ detected: false, negated: true });
+  });
+
+  it('treats planned certifications as negated', () => {
+    expect(mention('<main><p>We are working towards ISO 27001 certification.</p></main>', 'iso27001')).toMatchObject({ negated: true });
+    expect(mention('<main><p>We are in the process of obtaining SOC 2 Type II.</p></main>', 'soc2')).toMatchObject({ negated: true });
+  });
+
+  it('reads the SOC 2 type from the clause', () => {
+    const result = extractComplianceSignals('<main><p>Acme holds a SOC 2 Type II report.</p></main>', url);
+    expect(result.frameworks.find((framework) => framework.id === 'soc2')).toMatchObject({ detected: true, level: 'Type II' });
+  });
+});
+
+describe('security header grading', () => {
+  const strongHeaders: Record<string, string> = {
+    'strict-transport-security': 'max-age=31536000; includeSubDomains',
+    'content-security-policy': "default-src 'self'; object-src 'none'; frame-ancestors 'none'",
+    'x-frame-options': 'DENY',
+    'referrer-policy': 'strict-origin-when-cross-origin',
+    'permissions-policy': 'camera=()',
+    'x-content-type-options': 'nosniff',
+    'cross-origin-opener-policy': 'same-origin',
+    'cross-origin-resource-policy': 'same-origin',
+  };
+  const grade = (overrides: Record<string, string | null>) => {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries({ ...strongHeaders, ...overrides })) {
+      if (value !== null) headers.set(name, value);
+    }
+    return getSecurityHeaderSummary(headers);
+  };
+  const severitiesFor = (header: string, overrides: Record<string, string | null>) =>
+    grade(overrides).findings.filter((finding) => finding.header === header).map((finding) => finding.severity);
+
+  it('grades a complete header set as strong with no findings', () => {
+    expect(grade({})).toMatchObject({ findings: [], riskPoints: 0, score: 'strong', presentCount: 8, missingRecommended: [] });
+  });
+
+  it.each([
+    ['max-age=0; includeSubDomains', ['high']],
+    ['max-age=15767999; includeSubDomains', ['medium']],
+    ['max-age=15768000; includeSubDomains', ['low']],
+    ['max-age=31535999; includeSubDomains', ['low']],
+    ['max-age=31536000; includeSubDomains', []],
+    ['max-age=31536000', ['info']],
+    ['max-age=31536000; max-age=0', ['medium']],
+    ['includeSubDomains', ['medium']],
+  ])('grades Strict-Transport-Security %s', (value, severities) => {
+    expect(severitiesFor('strictTransportSecurity', { 'strict-transport-security': value })).toEqual(severities);
+  });
+
+  it.each([
+    ["default-src 'self'; script-src 'self' 'unsafe-inline'; object-src 'none'; frame-ancestors 'none'", ['high']],
+    ["default-src 'self'; script-src 'self' 'unsafe-inline' 'nonce-abc123'; object-src 'none'; frame-ancestors 'none'", []],
+    ["default-src 'self' 'unsafe-inline'; object-src 'none'; frame-ancestors 'none'", ['high']],
+    ["default-src 'self'; style-src 'self' 'unsafe-inline'; object-src 'none'; frame-ancestors 'none'", []],
+    ["default-src 'self'; script-src 'self' 'unsafe-eval'; object-src 'none'; frame-ancestors 'none'", ['medium']],
+    ["default-src 'self'; script-src https:; object-src 'none'; frame-ancestors 'none'", ['high']],
+    ["default-src 'self'; object-src 'none'", ['low']],
+  ])('grades Content-Security-Policy %s', (value, severities) => {
+    expect(severitiesFor('contentSecurityPolicy', { 'content-security-policy': value })).toEqual(severities);
+  });
+
+  it('reports a report-only policy as missing', () => {
+    const summary = grade({ 'content-security-policy': null, 'content-security-policy-report-only': "default-src 'self'" });
+    expect(summary.findings.find((finding) => finding.header === 'contentSecurityPolicy')).toMatchObject({
+      severity: 'medium',
+      issue: expect.stringContaining('Report-Only'),
+    });
+  });
+
+  it.each([
+    ['X-Frame-Options alone', { 'content-security-policy': "default-src 'self'; object-src 'none'" }, [], ['low']],
+    ['frame-ancestors alone', { 'x-frame-options': null }, [], []],
+    ['neither', { 'x-frame-options': null, 'content-security-policy': "default-src 'self'; object-src 'none'" }, ['medium'], ['low']],
+    ['ALLOW-FROM', { 'x-frame-options': 'ALLOW-FROM https://partner.example.com' }, ['medium'], []],
+    ['SAMEORIGIN', { 'x-frame-options': 'sameorigin' }, [], []],
+  ])('grades framing protection with %s', (_, overrides, frameOptions, csp) => {
+    expect(severitiesFor('xFrameOptions', overrides)).toEqual(frameOptions);
+    expect(severitiesFor('contentSecurityPolicy', overrides)).toEqual(csp);
+  });
+
+  it.each([
+    ['three low findings', { 'permissions-policy': null, 'referrer-policy': null, 'x-powered-by': 'Express' }, 3, 'strong'],
+    ['four low findings', { 'permissions-policy': null, 'referrer-policy': null, 'x-powered-by': 'Express', server: 'nginx/1.25.3' }, 4, 'moderate'],
+    ['one high finding', { 'strict-transport-security': 'max-age=0; includeSubDomains' }, 3, 'moderate'],
+    ['eight risk points', {
+      'permissions-policy': null,
+      'referrer-policy': null,
+      'x-powered-by': 'Express',
+      server: 'nginx/1.25.3',
+      'x-aspnet-version': '4.0.30319',
+      'x-aspnetmvc-version': '5.2',
+      'x-xss-protection': '1; mode=block',
+      'x-content-type-options': null,
+    }, 8, 'moderate'],
+    ['nine risk points', {
+      'permissions-policy': null,
+      'referrer-policy': null,
+      'x-powered-by': 'Express',
+      server: 'nginx/1.25.3',
+      'x-aspnet-version': '4.0.30319',
+      'x-aspnetmvc-version': '5.2',
+      'x-xss-protection': '1; mode=block',
+      'strict-transport-security': null,
+    }, 9, 'weak'],
+  ])('scores %s', (_, overrides, riskPoints, score) => {
+    expect(grade(overrides)).toMatchObject({ riskPoints, score });
+  });
+
+  it('applies the last recognized Referrer-Policy value', () => {
+    expect(severitiesFor('referrerPolicy', { 'referrer-policy': 'no-referrer, unsafe-url' })).toEqual(['medium']);
+    expect(severitiesFor('referrerPolicy', { 'referrer-policy': 'unsafe-url, strict-origin-when-cross-origin' })).toEqual([]);
+    expect(severitiesFor('referrerPolicy', { 'referrer-policy': 'no-referrer-when-downgrade' })).toEqual(['low']);
+  });
+});
+
+describe('cookie audit', () => {
+  const severities = (setCookie: string) => auditSetCookie(setCookie).findings.map((finding) => finding.severity);
+
+  it('keeps commas in Expires inside one cookie', () => {
+    const headers = new Headers();
+    headers.append('set-cookie', 'sessionid=abc123; Expires=Wed, 21 Oct 2026 07:28:00 GMT; Path=/; Secure; HttpOnly; SameSite=Lax');
+    headers.append('set-cookie', 'theme=dark; Max-Age=3600');
+    const { cookies } = getSecurityHeaderSummary(headers);
+    expect(cookies).toHaveLength(2);
+    expect(cookies[0]).toMatchObject({
+      name: 'sessionid',
+      value: '[REDACTED]',
+      expires: '2026-10-21T07:28:00.000Z',
+      path: '/',
+      secure: true,
+      httpOnly: true,
+      sameSite: 'Lax',
+      persistent: true,
+      looksLikeSession: true,
+      findings: [],
+    });
+    expect(cookies[1]).toMatchObject({ name: 'theme', maxAge: 3600, persistent: true, looksLikeSession: false });
+  });
+
+  it('never returns cookie values', () => {
+    expect(auditSetCookie('auth_token=eyJhbGciOi; Secure; HttpOnly; SameSite=Strict').value).toBe('[REDACTED]');
+    expect(auditSetCookie('flag=; Secure').value).toBe('');
+  });
+
+  it('flags session-like cookies without Secure or HttpOnly', () => {
+    expect(severities('sessionid=abc; HttpOnly; SameSite=Lax')).toEqual(['high']);
+    expect(severities('sessionid=abc; Secure; SameSite=Lax')).toEqual(['medium']);
+    expect(severities('sessionid=abc')).toEqual(['high', 'medium', 'low']);
+    expect(severities('remember_me=abc; SameSite=Lax')).toEqual(['high', 'medium']);
+    expect(severities('theme=dark')).toEqual([]);
+  });
+
+  it('flags SameSite=None without Secure', () => {
+    expect(auditSetCookie('tracker=1; SameSite=None')).toMatchObject({ sameSite: 'None', findings: [{ severity: 'medium' }] });
+    expect(severities('tracker=1; SameSite=None; Secure')).toEqual([]);
+  });
+
+  it.each([
+    ['__Secure-id=1; Secure', []],
+    ['__Secure-id=1', ['medium']],
+    ['__Host-id=1; Secure; Path=/', []],
+    ['__Host-id=1; Path=/', ['medium']],
+    ['__Host-id=1; Secure; Path=/app', ['medium']],
+    ['__Host-id=1; Secure', ['medium']],
+    ['__Host-id=1; Secure; Path=/; Domain=example.com', ['medium']],
+  ])('applies cookie prefix rules to %s', (setCookie, expected) => {
+    expect(severities(setCookie)).toEqual(expected);
+  });
+});
+
+describe('compliance catalog', () => {
+  const url = 'https://vendor.example.com/security';
+  const framework = (html: string, id: string) => {
+    const result = extractComplianceSignals(`<main>${html}</main>`, url);
+    const { detected, level, category, jurisdiction } = result.frameworks.find((item) => item.id === id) ?? {};
+    return { detected, level, category, jurisdiction, classification: result.evidence.find((item) => item.signal === id)?.classification };
+  };
+
+  it.each([
+    ['<p>We are PCI DSS Level 1 certified.</p>', 'pciDss', { level: 'Level 1', category: 'certification', jurisdiction: 'global', classification: 'certification_claim' }],
+    ['<p>Acme Gov holds a FedRAMP Moderate authorization.</p>', 'fedramp', { level: 'Moderate', category: 'government_authorization', jurisdiction: 'US', classification: 'certification_claim' }],
+    ['<p>Our FedRAMP LI-SaaS package is authorized.</p>', 'fedramp', { level: 'LI-SaaS' }],
+    ['<p>We publish a SOC 1 Type II report and a SOC 3 report.</p>', 'soc1', { category: 'attestation', classification: 'certification_claim' }],
+    ['<p>We publish a SOC 1 Type II report and a SOC 3 report.</p>', 'soc3', { category: 'attestation' }],
+    ['<p>Acme is certified to ISO/IEC 27017, ISO 27018, ISO 27701, and ISO 42001.</p>', 'iso42001', { category: 'certification', jurisdiction: 'global' }],
+    ['<p>We comply with the CCPA as amended by the CPRA.</p>', 'ccpa', { category: 'regulation', jurisdiction: 'US-CA' }],
+    ['<p>Acme is HITRUST CSF certified.</p>', 'hitrust', { jurisdiction: 'US', classification: 'certification_claim' }],
+    ['<p>Acme is listed in the CSA STAR Level 2 registry.</p>', 'csaStar', { level: 'Level 2', category: 'attestation', classification: 'certification_claim' }],
+    ['<p>Our TISAX AL3 assessment label is current.</p>', 'tisax', { level: 'AL3', jurisdiction: 'DE' }],
+    ['<p>Acme is Cyber Essentials Plus certified.</p>', 'cyberEssentials', { level: 'Plus', jurisdiction: 'GB' }],
+    ['<p>Acme participates in the EU-U.S. Data Privacy Framework.</p>', 'dataPrivacyFramework', { category: 'data_governance', jurisdiction: 'EU-US' }],
+    ['<p>Report issues through our bug bounty program on HackerOne.</p>', 'bugBounty', { category: 'security_program' }],
+    ['<p>Read our vulnerability disclosure policy.</p>', 'vulnerabilityDisclosure', { category: 'security_program' }],
+  ])('classifies %s as %s', (html, id, expected) => {
+    expect(framework(html, id)).toMatchObject({ detected: true, ...expected });
+  });
+
+  it('requires context for ambiguous acronyms', () => {
+    expect(framework('<p>Download the DPF release notes.</p>', 'dataPrivacyFramework').detected).toBeFalsy();
+  });
+
+  it('counts bug bounty and security.txt links in the footer', () => {
+    const html = '<footer><a href="https://hackerone.com/acme">Report a bug</a> <a href="/.well-known/security.txt">Security contact</a></footer>';
+    const result = extractComplianceSignals(`<main><p>Welcome</p></main>${html}`, url);
+    expect(result.signals).toMatchObject({ bugBounty: true, securityTxt: true });
+  });
+});
+
+describe('compliance crawl', () => {
+  const origin = 'https://vendor.example';
+  const homepage = `<header>
+    <a href="/terms">Terms</a>
+    <a href="/security">Security</a>
+    <a href="https://trust.vendor.example/">Trust portal</a>
+    <a href="https://trust.otherco.example/vendor">Trust</a>
+    <a href="/security/whitepaper.pdf">Security whitepaper</a>
+    <a href="/blog">Blog</a>
+    <a href="/legal">Legal</a>
+  </header><main><p>Welcome to Vendor.</p></main>`;
+  const sitemap = `<urlset><url><loc>${origin}/subprocessors</loc></url><url><loc>${origin}/security</loc></url><url><loc>${origin}/privacy</loc></url></urlset>`;
+  const seed = (sql: ServerSql, pages: Record<string, string>) => {
+    for (const [url, body] of Object.entries(pages)) sql`INSERT OR REPLACE INTO cache (key, data, ts) VALUES (${url}, ${body}, ${Date.now()})`;
+  };
+
+  it('follows same-site compliance links from the homepage and sitemap by score', async () => {
+    await withServer('compliance-crawl-links', async (sql) => {
+      seed(sql, {
+        [`${origin}/`]: homepage,
+        [`${origin}/sitemap.xml`]: sitemap,
+        [`${origin}/security`]: '<main><p>We are SOC 2 Type II certified.</p></main>',
+        'https://trust.vendor.example/': '<main><p>Acme is ISO 27001 certified.</p></main>',
+        [`${origin}/subprocessors`]: '<main><h1>Subprocessors</h1><p>We use the following subprocessors.</p></main>',
+        [`${origin}/privacy`]: '<main><p>We are not HIPAA compliant.</p></main>',
+        [`${origin}/legal`]: '<main><p>Legal notices.</p></main>',
+        [`${origin}/terms`]: '<main><p>Terms of service.</p></main>',
+      });
+      const result = await crawlCompliancePages(sql, `${origin}/`, 10);
+      expect(result.crawl.pages.map((page) => [page.url, page.discoveredFrom])).toEqual([
+        [`${origin}/`, 'homepage'],
+        [`${origin}/security`, 'link'],
+        ['https://trust.vendor.example/', 'link'],
+        [`${origin}/subprocessors`, 'sitemap'],
+        [`${origin}/privacy`, 'sitemap'],
+        [`${origin}/legal`, 'link'],
+        [`${origin}/terms`, 'link'],
+      ]);
+      expect(result.crawl).toMatchObject({ pageBudget: 10, pagesScanned: 7, candidatesFound: 7, sitemapChecked: true });
+      expect(result.signalSources).toMatchObject({
+        soc2: [`${origin}/security`],
+        iso27001: ['https://trust.vendor.example/'],
+        subprocessorList: [`${origin}/subprocessors`],
+        hipaa: [],
+      });
+      expect(result.negatedSignals).toEqual(['hipaa']);
+    });
+  });
+
+  it('stops at the page budget and scans the input URL first', async () => {
+    await withServer('compliance-crawl-budget', async (sql) => {
+      // Only the pages inside the budget are cached; fetching any other page would need the network.
+      seed(sql, {
+        [`${origin}/`]: homepage,
+        [`${origin}/sitemap.xml`]: sitemap,
+        [`${origin}/security`]: '<main><p>We are SOC 2 Type II certified.</p></main>',
+        'https://trust.vendor.example/': '<main><p>Acme is ISO 27001 certified.</p></main>',
+      });
+      const result = await crawlCompliancePages(sql, `${origin}/security`, 3);
+      expect(result.crawl.pages.map((page) => [page.url, page.discoveredFrom])).toEqual([
+        [`${origin}/security`, 'input'],
+        [`${origin}/`, 'homepage'],
+        ['https://trust.vendor.example/', 'link'],
+      ]);
+      expect(result.crawl).toMatchObject({ pageBudget: 3, pagesScanned: 3 });
+      expect(result.matchedSignals).toEqual(['soc2', 'iso27001']);
+      expect(result.cached).toBe(true);
+    });
+  });
+});
+
+describe('security.txt parsing', () => {
+  const fileUrl = 'https://vendor.example/.well-known/security.txt';
+  const now = Date.parse('2026-06-01T00:00:00Z');
+  const parse = (lines: string[]) => parseSecurityTxt(lines.join('\n'), fileUrl, now);
+
+  it('reads the RFC 9116 fields', () => {
+    expect(parse([
+      '# Vendor security contacts',
+      'Contact: mailto:security@vendor.example',
+      'Contact: https://vendor.example/security/report',
+      'Expires: 2026-12-31T23:59:59Z',
+      'Encryption: https://vendor.example/pgp-key.txt',
+      'Policy: https://vendor.example/security/policy',
+      'Preferred-Languages: en, de',
+      `Canonical: ${fileUrl}`,
+    ])).toMatchObject({
+      valid: true,
+      expired: false,
+      signed: false,
+      contact: ['mailto:security@vendor.example', 'https://vendor.example/security/report'],
+      expires: '2026-12-31T23:59:59Z',
+      encryption: ['https://vendor.example/pgp-key.txt'],
+      policy: ['https://vendor.example/security/policy'],
+      preferredLanguages: ['en', 'de'],
+      errors: [],
+      warnings: ['The file is not signed with an OpenPGP cleartext signature.'],
+    });
+  });
+
+  it('flags an Expires date in the past', () => {
+    expect(parse(['Contact: mailto:security@vendor.example', 'Expires: 2026-01-01T00:00:00Z'])).toMatchObject({
+      valid: false,
+      expired: true,
+      errors: ['The file expired on 2026-01-01T00:00:00.000Z.'],
+    });
+  });
+
+  it.each([
+    [['Expires: 2026-12-31T23:59:59Z'], 'Missing required Contact field.'],
+    [['Contact: security@vendor.example', 'Expires: 2026-12-31T23:59:59Z'], 'Contact "security@vendor.example" must be a mailto:, tel:, or https:// URI.'],
+    [['Contact: mailto:security@vendor.example'], 'Missing required Expires field.'],
+    [['Contact: mailto:security@vendor.example', 'Expires: 31 Dec 2026'], 'Expires "31 Dec 2026" is not an RFC 3339 date-time such as 2026-12-31T23:59:59Z.'],
+    [['Contact: mailto:security@vendor.example', 'Expires: 2026-12-31T23:59:59Z', 'Policy: http://vendor.example/policy'], 'Policy "http://vendor.example/policy" must use https://.'],
+    [['Contact: mailto:security@vendor.example', 'Expires: 2026-12-31T23:59:59Z', 'not a field'], 'Line 3 is not a "Field: value" line or a comment.'],
+  ])('rejects %j', (lines, error) => {
+    expect(parse(lines)).toMatchObject({ valid: false, errors: [error] });
+  });
+
+  it('warns about a lifetime over a year', () => {
+    expect(parse(['Contact: mailto:security@vendor.example', 'Expires: 2028-01-01T00:00:00Z']).warnings)
+      .toContain('Expires is more than a year away; RFC 9116 recommends less than a year.');
+  });
+
+  it('unwraps an OpenPGP cleartext signature', () => {
+    const result = parse([
+      '-----BEGIN PGP SIGNED MESSAGE-----',
+      'Hash: SHA512',
+      '',
+      'Contact: mailto:security@vendor.example',
+      'Expires: 2026-12-31T23:59:59Z',
+      '- # dash-escaped comment',
+      '-----BEGIN PGP SIGNATURE-----',
+      '',
+      'iHUEARYKAB0WIQ...',
+      '-----END PGP SIGNATURE-----',
+    ]);
+    expect(result).toMatchObject({ valid: true, signed: true, contact: ['mailto:security@vendor.example'], errors: [], warnings: [] });
+  });
+});
+
+describe('well-known file discovery', () => {
+  // An IP literal skips the DNS-over-HTTPS lookup, so only the probes themselves are mocked.
+  const origin = 'https://1.1.1.1';
+  const text = { headers: { 'content-type': 'text/plain; charset=utf-8' } };
+  const reply = (path: string, status: number, body = '', init = text) =>
+    fetchMock.get(origin).intercept({ path }).reply(status, body, init);
+
+  beforeAll(() => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+  });
+  afterEach(() => fetchMock.assertNoPendingInterceptors());
+  afterAll(() => fetchMock.deactivate());
+
+  it('reports missing files and soft 404 pages as absent', async () => {
+    reply('/.well-known/security.txt', 404, 'Not found');
+    reply('/security.txt', 404, 'Not found');
+    reply('/.well-known/mcp/server-card.json', 404, 'Not found');
+    reply('/.well-known/openid-configuration', 200, '<!doctype html><title>Home</title>', { headers: { 'content-type': 'text/html' } });
+    reply('/robots.txt', 200, 'User-agent: *\nAllow: /');
+    reply('/llms.txt', 200, '<!doctype html><title>Home</title>', { headers: { 'content-type': 'text/html' } });
+    reply('/sitemap.xml', 200, '<urlset><url><loc>https://1.1.1.1/</loc></url></urlset>', { headers: { 'content-type': 'application/xml' } });
+
+    const { securityTxt, files } = await inspectWellKnownFiles(origin);
+    expect(securityTxt).toEqual({ found: false, url: `${origin}/.well-known/security.txt`, status: 404 });
+    expect(files).toMatchObject({
+      mcpServerCard: { present: false, status: 404 },
+      openidConfiguration: { present: false, status: 200 },
+      robotsTxt: { present: true, status: 200, contentType: 'text/plain; charset=utf-8' },
+      llmsTxt: { present: false, status: 200 },
+      sitemapXml: { present: true, status: 200 },
+    });
+  });
+
+  it('falls back to the legacy /security.txt location with a warning', async () => {
+    const expires = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
+    reply('/.well-known/security.txt', 404, 'Not found');
+    reply('/security.txt', 200, `Contact: mailto:security@1.1.1.1\nExpires: ${expires}\n`);
+    for (const path of ['/.well-known/mcp/server-card.json', '/.well-known/openid-configuration', '/robots.txt', '/llms.txt', '/sitemap.xml']) {
+      reply(path, 404, 'Not found');
+    }
+
+    const { securityTxt } = await inspectWellKnownFiles(origin);
+    expect(securityTxt).toMatchObject({
+      found: true,
+      url: `${origin}/security.txt`,
+      valid: true,
+      contact: ['mailto:security@1.1.1.1'],
+      warnings: [
+        'Served only at /security.txt; RFC 9116 requires /.well-known/security.txt.',
+        'The file is not signed with an OpenPGP cleartext signature.',
+      ],
+    });
   });
-});
\ No newline at end of file
+});
@@ -1,5 +1,6 @@
 import { McpAgent } from "agents/mcp";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, type ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
 import { HTTPFacilitatorClient, x402ResourceServer as X402ResourceServer } from "@x402/core/server";
 import { registerExactEvmScheme } from "@x402/evm/exact/server";
 // Import types from the types module
@@ -25,6 +26,8 @@ interface Env extends Cloudflare.Env {
   X402_NETWORK: string;
   X402_RECIPIENT: string;
   X402_FACILITATOR_URL: string;
+  // Ed25519 private key as a JWK; receipts are unavailable when unset
+  RECEIPT_SIGNING_KEY?: string;
 }
 
 // --- Cache types ---
@@ -36,7 +39,7 @@ const TELEMETRY_ENABLED = workerProcess?.env?.GROUND_TRUTH_TELEMETRY !== "false"
 const SERVER_VERSION = "0.5.3";
 
 // --- Free tier tools ---
-const FREE_TOOLS = ["check_endpoint", "inspect_security_headers", "verify_claim", "list_resources"];
+export const FREE_TOOLS = ["check_endpoint", "check_cors", "inspect_security_headers", "inspect_tls", "inspect_well_known", "extract_structured_data", "verify_claim", "list_resources", "verify_receipt"];
 const FREE_MONTHLY_LIMIT = 100;
 const FREE_VERIFY_CLAIM_LIMIT = 5;
 
@@ -46,7 +49,7 @@ const PAID_PLAN_PRICE_USD = 9;
 const MONTHLY_PRICE_STR = "$9/mo";
 const CHECKOUT_URL = "https://ground-truth-mcp.anishdasmail.workers.dev/api/checkout?plan=paid";
 
-// 7 paid tools unlocked by a single $9/mo subscription
+// 8 paid tools unlocked by a single $9/mo subscription
 const PAID_TOOLS = [
   "check_pricing",
   "estimate_market", 
@@ -55,9 +58,10 @@ const PAID_TOOLS = [
   "test_hypothesis",
   "assess_compliance_posture",
   "verify_claim",
+  "verify_numeric_fact",
 ] as const;
 
-const MONITOR_TOOLS = ["create_monitor", "list_monitors", "run_monitor_now", "get_monitor_result", "delete_monitor", "generate_change_report"] as const;
+export const MONITOR_TOOLS = ["create_monitor", "list_monitors", "run_monitor_now", "get_monitor_result", "delete_monitor", "generate_change_report", "get_pricing_history", "get_evidence"] as const;
 const PUBLIC_APP_ORIGIN = "https://ground-truth-mcp.anishdasmail.workers.dev";
 const SERVER_CARD_ICON_PATH = "/icon.svg";
 const SERVER_CARD_DESCRIPTION =
@@ -92,6 +96,7 @@ function normalizeX402Network(network: string): `${string}:${string}` {
 const X402_TOOL_PRICES_USD = {
   check_pricing: 0.01,
   verify_claim: 0.01,
+  verify_numeric_fact: 0.01,
   estimate_market: 0.01,
   compare_competitors: 0.025,
   compare_pricing_pages: 0.035,
@@ -128,6 +133,292 @@ const REPUTABLE_CRAWLER_USER_AGENTS = [
   "CCBot",
 ] as const;
 
+// Error codes shared by every tool that fetches a caller-supplied URL.
+const OUTBOUND_REQUEST_ERROR_CODES = ["blocked_destination", "unresolvable_host", "redirect_loop", "too_many_redirects", "timeout"] as const;
+type OutboundRequestErrorCode = typeof OUTBOUND_REQUEST_ERROR_CODES[number];
+
+const SERVER_CARD_ERROR_CODE_SCHEMA = {
+  type: "string",
+  enum: OUTBOUND_REQUEST_ERROR_CODES,
+  description:
+    "Machine-readable reason the URL was not fetched, for example blocked_destination " +
+    "for loopback, private, link-local, or reserved addresses, redirect_loop when a redirect revisits a URL, " +
+    "or timeout when the response did not finish within timeout_ms.",
+} as const;
+
+const SERVER_CARD_WELL_KNOWN_FILE_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    url: { type: "string" },
+    present: {
+      type: "boolean",
+      description: "True when the URL returned 200 with content in the expected format, not an HTML soft 404.",
+    },
+    status: { type: "integer" },
+    contentType: { type: ["string", "null"] },
+    bytes: { type: "integer" },
+    error: { type: "string" },
+    errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
+  },
+  required: ["url", "present"],
+} as const;
+
+const SERVER_CARD_TIMING_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  description: "Timing breakdown for the live fetch. Omitted when the body came from cache.",
+  properties: {
+    timeToHeadersMs: {
+      type: "integer",
+      description: "Milliseconds until the final response headers arrived, including DNS checks and redirects.",
+    },
+    timeToBodyMs: {
+      type: "integer",
+      description: "Milliseconds until the full response body was read.",
+    },
+    bodyBytes: { type: "integer", description: "Size of the response body in bytes." },
+  },
+  required: ["timeToHeadersMs", "timeToBodyMs", "bodyBytes"],
+} as const;
+
+const SERVER_CARD_TIMEOUT_INPUT_SCHEMA = {
+  type: "integer",
+  minimum: 1000,
+  maximum: 30000,
+  default: 10000,
+  description: "Per-request timeout in milliseconds, covering redirects and the full body. Capped at 30,000.",
+} as const;
+
+const SERVER_CARD_ARCHIVE_EVIDENCE_INPUT_SCHEMA = {
+  type: "boolean",
+  default: false,
+  description: "Store the normalized text, SHA-256 hash, and response headers of each page read for retrieval with get_evidence. Requires a team API key.",
+} as const;
+
+const SERVER_CARD_RECEIPT_INPUT_SCHEMA = {
+  type: "boolean",
+  default: false,
+  description: "Attach a receipt signed with the server's Ed25519 key, covering the tool name, normalized inputs, result digest, archived evidence hashes, time, and server version. Check it with verify_receipt or the key at /.well-known/ground-truth/receipt-keys.json.",
+} as const;
+
+const SERVER_CARD_RECEIPT_PAYLOAD_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    version: { type: "integer" },
+    tool: { type: "string" },
+    inputs: { type: "object", description: "Tool arguments after defaults were applied, without receipt." },
+    outputDigest: { type: "string", description: "Hex SHA-256 of the result as canonical JSON, leaving out receipt and receiptError." },
+    evidence: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: { evidenceId: { type: "string" }, contentHash: { type: "string" } },
+        required: ["evidenceId", "contentHash"],
+      },
+    },
+    issuedAt: { type: "string" },
+    serverVersion: { type: "string" },
+    keyId: { type: "string" },
+  },
+  required: ["version", "tool", "inputs", "outputDigest", "evidence", "issuedAt", "serverVersion", "keyId"],
+} as const;
+
+const SERVER_CARD_RECEIPT_OUTPUT_PROPERTIES = {
+  receipt: {
+    type: "object",
+    additionalProperties: false,
+    description: "Signed receipt, present when receipt was set and signing succeeded.",
+    properties: {
+      algorithm: { type: "string", enum: ["Ed25519"] },
+      payload: SERVER_CARD_RECEIPT_PAYLOAD_SCHEMA,
+      signature: { type: "string", description: "Base64url Ed25519 signature over the canonical JSON of payload." },
+    },
+    required: ["algorithm", "payload", "signature"],
+  },
+  receiptError: { type: "string", description: "Why a requested receipt could not be signed." },
+} as const;
+
+const SERVER_CARD_PRICING_PLANS_SCHEMA = {
+  type: "array",
+  description: "Plans extracted from pricing cards, comparison tables, and schema.org offers, each linked to its own price.",
+  items: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      name: { type: "string" },
+      price: {
+        type: ["object", "null"],
+        additionalProperties: false,
+        properties: {
+          amount: { type: "number" },
+          currency: { type: ["string", "null"] },
+          raw: { type: "string" },
+          amountUsd: { type: "number" },
+          period: { type: ["string", "null"], enum: ["month", "year", null] },
+          qualifier: { type: ["string", "null"], enum: ["per_seat", "usage", null] },
+          billing: { type: ["string", "null"], enum: ["monthly", "annual", null] },
+        },
+        required: ["amount", "currency", "raw", "period", "qualifier", "billing"],
+      },
+      contactSales: { type: "boolean" },
+      priceLabel: { type: ["string", "null"] },
+      features: { type: "array", items: { type: "string" } },
+      cta: { type: ["string", "null"] },
+      source: { type: "string", enum: ["card", "table", "structured_data"] },
+      confidence: { type: "number" },
+    },
+    required: ["name", "price", "contactSales", "priceLabel", "features", "cta", "source", "confidence"],
+  },
+} as const;
+
+const SERVER_CARD_PRICES_SCHEMA = {
+  type: "array",
+  description: "Distinct prices found on the page, parsed to numbers with their ISO currency.",
+  items: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      amount: { type: "number" },
+      currency: { type: ["string", "null"] },
+      raw: { type: "string" },
+      amountUsd: { type: "number" },
+    },
+    required: ["amount", "currency", "raw"],
+  },
+} as const;
+
+const SERVER_CARD_BILLING_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  description: "Monthly and annual price sets shipped in page data, with the annual discount they imply.",
+  properties: {
+    toggleDetected: { type: "boolean" },
+    options: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          plan: { type: ["string", "null"] },
+          billing: { type: "string", enum: ["monthly", "annual"] },
+          amount: { type: "number" },
+          currency: { type: ["string", "null"] },
+          amountUsd: { type: "number" },
+          perMonth: { type: ["number", "null"] },
+          perYear: { type: ["number", "null"] },
+          source: { type: "string", enum: ["next_data", "json_ld", "data_attribute"] },
+        },
+        required: ["plan", "billing", "amount", "currency", "perMonth", "perYear", "source"],
+      },
+    },
+    discounts: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          plan: { type: ["string", "null"] },
+          monthlyPerMonth: { type: "number" },
+          annualPerMonth: { type: "number" },
+          discountPercent: { type: "number" },
+        },
+        required: ["plan", "monthlyPerMonth", "annualPerMonth", "discountPercent"],
+      },
+    },
+    annualDiscountPercent: { type: ["number", "null"] },
+    advertisedAnnualDiscountPercent: { type: ["number", "null"] },
+  },
+  required: ["toggleDetected", "options", "discounts", "annualDiscountPercent", "advertisedAnnualDiscountPercent"],
+} as const;
+
+const SERVER_CARD_STRUCTURED_OFFERS_SCHEMA = {
+  type: "array",
+  description: "schema.org Offer objects from JSON-LD or microdata, with the product or app they belong to.",
+  items: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      itemName: { type: ["string", "null"] },
+      name: { type: ["string", "null"] },
+      amount: { type: ["number", "null"] },
+      currency: { type: ["string", "null"] },
+      amountUsd: { type: "number" },
+      period: { type: ["string", "null"], enum: ["month", "year", null] },
+      availability: { type: ["string", "null"] },
+      url: { type: ["string", "null"] },
+      source: { type: "string", enum: ["json_ld", "microdata"] },
+    },
+    required: ["itemName", "name", "amount", "currency", "period", "availability", "url", "source"],
+  },
+} as const;
+
+const SERVER_CARD_STRUCTURED_RATING_SCHEMA = {
+  type: ["object", "null"],
+  additionalProperties: false,
+  properties: {
+    value: { type: "number" },
+    count: { type: ["number", "null"] },
+  },
+  required: ["value", "count"],
+} as const;
+
+const SERVER_CARD_USAGE_PRICING_SCHEMA = {
+  type: "array",
+  description: "Metered prices such as \"$0.50 per 1K requests\", normalized to one canonical unit.",
+  items: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      amount: { type: "number" },
+      currency: { type: ["string", "null"] },
+      raw: { type: "string" },
+      amountUsd: { type: "number" },
+      unit: { type: "string" },
+      unitQuantity: { type: "number" },
+      amountPerUnit: { type: "number" },
+      amountPerUnitUsd: { type: "number" },
+    },
+    required: ["amount", "currency", "raw", "unit", "unitQuantity", "amountPerUnit"],
+  },
+} as const;
+
+const SERVER_CARD_VOLUME_TIERS_SCHEMA = {
+  type: "array",
+  description: "Tiered volume tables, one entry per table.",
+  items: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      unit: { type: ["string", "null"] },
+      tiers: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            from: { type: "number" },
+            to: { type: ["number", "null"] },
+            amount: { type: "number" },
+            currency: { type: ["string", "null"] },
+            raw: { type: "string" },
+          },
+          required: ["from", "to", "amount", "currency", "raw"],
+        },
+      },
+    },
+    required: ["unit", "tiers"],
+  },
+} as const;
+
+const SERVER_CARD_EXCHANGE_RATES_INPUT_SCHEMA = {
+  type: "object",
+  additionalProperties: { type: "number", exclusiveMinimum: 0 },
+  description: "Optional USD per one unit of each ISO currency, for example {\"EUR\": 1.08}. Adds amountUsd to prices.",
+} as const;
+
 const SERVER_CARD_READ_ONLY_ANNOTATIONS = {
   readOnlyHint: true,
   destructiveHint: false,
@@ -152,6 +443,33 @@ const SERVER_CARD_TOOLS = [
             "Public http(s) URL or bare domain to probe. Bare domains like " +
             "google.com are normalized to https:// automatically.",
         },
+        follow_redirects: {
+          type: "boolean",
+          default: false,
+          description:
+            "When true, return every redirect hop with status, Location header, and timing, " +
+            "plus protocol-downgrade, cross-domain, and loop flags.",
+        },
+        method: {
+          type: "string",
+          enum: ["GET", "HEAD", "OPTIONS", "POST"],
+          default: "GET",
+          description: "HTTP method to send. POST requires a JSON body that is a GraphQL query or a JSON-RPC call to a read-only method.",
+        },
+        headers: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description:
+            "Up to 20 extra request headers. Credential-like values are redacted in the output.",
+        },
+        body: {
+          type: ["object", "array"],
+          description:
+            "JSON body for POST requests, at most 8 KB once serialized. Only GraphQL queries and JSON-RPC calls to " +
+            "initialize, ping, tools/list, resources/list, resources/templates/list, prompts/list, eth_chainId, " +
+            "eth_blockNumber, eth_getBalance, net_version, or web3_clientVersion are accepted.",
+        },
+        timeout_ms: SERVER_CARD_TIMEOUT_INPUT_SCHEMA,
       },
       required: ["url"],
     },
@@ -184,8 +502,11 @@ const SERVER_CARD_TOOLS = [
         },
         responseTimeMs: {
           type: "integer",
-          description: "Elapsed request time in milliseconds.",
+          description:
+            "Milliseconds until the final response headers arrived, including redirects; " +
+            "same as timing.timeToHeadersMs. On failure, the time until the request gave up.",
         },
+        timing: SERVER_CARD_TIMING_SCHEMA,
         authRequired: {
           type: "boolean",
           description:
@@ -205,11 +526,243 @@ const SERVER_CARD_TOOLS = [
           type: "string",
           description: "Validation or network error when the request could not be completed.",
         },
+        errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
+        finalUrl: {
+          type: "string",
+          description: "URL of the response that ended the redirect chain, when follow_redirects is true.",
+        },
+        request: {
+          type: "object",
+          additionalProperties: false,
+          description: "The request that was actually sent, with credential-like header values redacted.",
+          properties: {
+            method: { type: "string" },
+            headers: { type: "object", additionalProperties: { type: "string" } },
+            bodyBytes: { type: "integer" },
+            bodyKind: { type: "string", enum: ["graphql_query", "json_rpc_read"] },
+          },
+          required: ["method", "headers", "bodyBytes"],
+        },
+        redirects: {
+          type: "object",
+          additionalProperties: false,
+          description: "Redirect chain details, when follow_redirects is true.",
+          properties: {
+            hops: {
+              type: "array",
+              items: {
+                type: "object",
+                additionalProperties: false,
+                properties: {
+                  url: { type: "string" },
+                  status: { type: "integer" },
+                  location: { type: ["string", "null"] },
+                  responseTimeMs: { type: "integer" },
+                },
+                required: ["url", "status", "location", "responseTimeMs"],
+              },
+            },
+            count: { type: "integer" },
+            protocolDowngrade: { type: "boolean" },
+            crossDomain: { type: "boolean" },
+            loopDetected: { type: "boolean" },
+          },
+          required: ["hops", "count", "protocolDowngrade", "crossDomain", "loopDetected"],
+        },
       },
       required: ["url", "accessible"],
     },
     annotations: SERVER_CARD_READ_ONLY_ANNOTATIONS,
   },
+  {
+    name: "check_cors",
+    title: "CORS Preflight Probe",
+    description:
+      "Call this to find out whether a browser app on a given origin can call a public API directly. " +
+      "Sends a CORS preflight and classifies the policy.",
+    inputSchema: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        url: {
+          type: "string",
+          description: "Public http(s) URL or bare domain to probe.",
+        },
+        origin: {
+          type: "string",
+          default: "https://example.com",
+          description: "Origin the browser app would run on.",
+        },
+        method: {
+          type: "string",
+          enum: ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE"],
+          default: "GET",
+          description: "Method sent as Access-Control-Request-Method.",
+        },
+        request_headers: {
+          type: "array",
+          maxItems: 20,
+          items: { type: "string" },
+          description: "Header names sent as Access-Control-Request-Headers.",
+        },
+        credentials: {
+          type: "boolean",
+          default: false,
+          description: "Whether the browser app would send cookies or HTTP auth.",
+        },
+        content_type: {
+          type: "string",
+          description: "Content-Type the browser app would send. Only form and text/plain types skip Access-Control-Allow-Headers.",
+        },
+        timeout_ms: SERVER_CARD_TIMEOUT_INPUT_SCHEMA,
+      },
+      required: ["url"],
+    },
+    outputSchema: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        inputUrl: { type: "string", description: "Original user input when normalization changed it." },
+        url: { type: "string", description: "Normalized URL that was probed." },
+        origin: { type: "string" },
+        method: { type: "string" },
+        requestHeaders: { type: "array", items: { type: "string" } },
+        status: { type: "integer", description: "HTTP status of the preflight response." },
+        preflightOk: {
+          type: "boolean",
+          description: "True when the preflight returned a 2xx status without redirecting.",
+        },
+        redirected: { type: "boolean" },
+        allowOrigin: { type: ["string", "null"] },
+        allowMethods: { type: "array", items: { type: "string" } },
+        allowHeaders: { type: "array", items: { type: "string" } },
+        allowCredentials: { type: "boolean" },
+        maxAge: { type: ["integer", "null"] },
+        varyOrigin: { type: "boolean" },
+        policy: {
+          type: "string",
+          enum: ["closed", "allow_list", "reflects_any_origin", "wildcard", "wildcard_with_credentials"],
+          description: "Classification of the server's CORS policy.",
+        },
+        browserAllowed: {
+          type: "boolean",
+          description: "True when a browser on origin would be allowed to make this request.",
+        },
+        timing: SERVER_CARD_TIMING_SCHEMA,
+        error: {
+          type: "string",
+          description: "Validation or network error when the preflight could not be completed.",
+        },
+        errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
+      },
+      required: ["url", "origin", "method", "requestHeaders"],
+    },
+    annotations: SERVER_CARD_READ_ONLY_ANNOTATIONS,
+  },
+  {
+    name: "extract_structured_data",
+    title: "Structured Data Extraction",
+    description:
+      "Call this to read the schema.org JSON-LD, microdata, and OpenGraph/Twitter meta a page publishes. " +
+      "Returns typed Product, Offer, Organization, SoftwareApplication, and FAQ summaries.",
+    inputSchema: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        url: {
+          type: "string",
+          description: "Public http(s) URL or bare domain to read.",
+        },
+        timeout_ms: SERVER_CARD_TIMEOUT_INPUT_SCHEMA,
+      },
+      required: ["url"],
+    },
+    outputSchema: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        inputUrl: { type: "string", description: "Original user input when normalization changed it." },
+        url: { type: "string", description: "Normalized URL that was read." },
+        cached: { type: "boolean", description: "True when the page body came from the 5-minute cache." },
+        types: { type: "array", items: { type: "string" } },
+        jsonLdBlocks: { type: "integer" },
+        invalidJsonLdBlocks: { type: "integer" },
+        microdataItems: { type: "integer" },
+        products: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              name: { type: ["string", "null"] },
+              brand: { type: ["string", "null"] },
+              description: { type: ["string", "null"] },
+              sku: { type: ["string", "null"] },
+              rating: SERVER_CARD_STRUCTURED_RATING_SCHEMA,
+              source: { type: "string", enum: ["json_ld", "microdata"] },
+            },
+            required: ["name", "brand", "description", "sku", "rating", "source"],
+          },
+        },
+        offers: SERVER_CARD_STRUCTURED_OFFERS_SCHEMA,
+        organizations: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              name: { type: ["string", "null"] },
+              url: { type: ["string", "null"] },
+              logo: { type: ["string", "null"] },
+              sameAs: { type: "array", items: { type: "string" } },
+              email: { type: ["string", "null"] },
+              telephone: { type: ["string", "null"] },
+              source: { type: "string", enum: ["json_ld", "microdata"] },
+            },
+            required: ["name", "url", "logo", "sameAs", "email", "telephone", "source"],
+          },
+        },
+        softwareApplications: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              name: { type: ["string", "null"] },
+              applicationCategory: { type: ["string", "null"] },
+              operatingSystem: { type: ["string", "null"] },
+              rating: SERVER_CARD_STRUCTURED_RATING_SCHEMA,
+              source: { type: "string", enum: ["json_ld", "microdata"] },
+            },
+            required: ["name", "applicationCategory", "operatingSystem", "rating", "source"],
+          },
+        },
+        faqs: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              question: { type: "string" },
+              answer: { type: ["string", "null"] },
+              source: { type: "string", enum: ["json_ld", "microdata"] },
+            },
+            required: ["question", "answer", "source"],
+          },
+        },
+        openGraph: { type: "object", additionalProperties: { type: "string" } },
+        twitter: { type: "object", additionalProperties: { type: "string" } },
+        timing: SERVER_CARD_TIMING_SCHEMA,
+        error: {
+          type: "string",
+          description: "Validation or fetch error when the page could not be read.",
+        },
+        errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
+      },
+      required: ["url"],
+    },
+    annotations: SERVER_CARD_READ_ONLY_ANNOTATIONS,
+  },
   {
     name: "estimate_market",
     title: "Package Market Search",
@@ -231,6 +784,7 @@ const SERVER_CARD_TOOLS = [
           description:
             "Registry to search. Use 'npm' for JavaScript ecosystems and 'pypi' for Python ecosystems.",
         },
+        receipt: SERVER_CARD_RECEIPT_INPUT_SCHEMA,
       },
       required: ["query"],
     },
@@ -273,6 +827,7 @@ const SERVER_CARD_TOOLS = [
             required: ["name", "description", "version"],
           },
         },
+        ...SERVER_CARD_RECEIPT_OUTPUT_PROPERTIES,
       },
       required: ["query", "registry", "totalResults", "topResults"],
     },
@@ -293,6 +848,10 @@ const SERVER_CARD_TOOLS = [
           description:
             "Public pricing or plans URL to analyze. Prefer the specific pricing page rather than a generic homepage.",
         },
+        exchange_rates: SERVER_CARD_EXCHANGE_RATES_INPUT_SCHEMA,
+        timeout_ms: SERVER_CARD_TIMEOUT_INPUT_SCHEMA,
+        archive_evidence: SERVER_CARD_ARCHIVE_EVIDENCE_INPUT_SCHEMA,
+        receipt: SERVER_CARD_RECEIPT_INPUT_SCHEMA,
       },
       required: ["url"],
     },
@@ -317,6 +876,17 @@ const SERVER_CARD_TOOLS = [
             "Lowercased heuristic plan labels detected from the page text.",
           items: { type: "string" },
         },
+        prices: SERVER_CARD_PRICES_SCHEMA,
+        plans: SERVER_CARD_PRICING_PLANS_SCHEMA,
+        billing: SERVER_CARD_BILLING_SCHEMA,
+        structuredOffers: SERVER_CARD_STRUCTURED_OFFERS_SCHEMA,
+        contactSalesPlans: {
+          type: "array",
+          description: "Names of plans whose price is \"Contact sales\", \"Custom\", or similar.",
+          items: { type: "string" },
+        },
+        usagePricing: SERVER_CARD_USAGE_PRICING_SCHEMA,
+        volumeTiers: SERVER_CARD_VOLUME_TIERS_SCHEMA,
         hasFreeOption: {
           type: "boolean",
           description: "True when the page contains signals that a free plan or $0 option exists.",
@@ -329,10 +899,25 @@ const SERVER_CARD_TOOLS = [
           type: "integer",
           description: "Size of the fetched page body in characters.",
         },
+        timing: SERVER_CARD_TIMING_SCHEMA,
+        historyRecorded: {
+          type: "boolean",
+          description: "True when this scan was stored for get_pricing_history. Plans unchanged since the key's last stored scan are not stored.",
+        },
+        evidenceId: {
+          type: "string",
+          description: "Archive ID for the fetched pricing page when archive_evidence was set.",
+        },
+        evidenceError: {
+          type: "string",
+          description: "Why archive_evidence was not honored, for example a missing or inactive team API key.",
+        },
         error: {
           type: "string",
           description: "Fetch or parsing error when the pricing page could not be analyzed.",
         },
+        errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
+        ...SERVER_CARD_RECEIPT_OUTPUT_PROPERTIES,
       },
       required: ["url"],
     },
@@ -353,6 +938,7 @@ const SERVER_CARD_TOOLS = [
           description:
             "Public http(s) URL or bare domain to inspect. Bare domains are normalized to https:// automatically.",
         },
+        timeout_ms: SERVER_CARD_TIMEOUT_INPUT_SCHEMA,
       },
       required: ["url"],
     },
@@ -375,7 +961,8 @@ const SERVER_CARD_TOOLS = [
         },
         https: {
           type: "boolean",
-          description: "True when the normalized URL used https.",
+          description:
+            "True when the normalized URL used https. Scheme only; use inspect_tls for redirect, HSTS, and mixed-content checks.",
         },
         presentCount: {
           type: "integer",
@@ -385,7 +972,8 @@ const SERVER_CARD_TOOLS = [
           type: "string",
           enum: ["strong", "moderate", "weak"],
           description:
-            "Heuristic security-header score based on how many tracked headers were present.",
+            "Heuristic grade from the weighted findings: strong means no high-severity finding and at most 3 risk points, " +
+            "moderate means at most 8 risk points, weak otherwise.",
         },
         headers: {
           type: "object",
@@ -407,48 +995,314 @@ const SERVER_CARD_TOOLS = [
           items: { type: "string" },
           description: "Tracked headers that were not present on the response.",
         },
+        findings: {
+          type: "array",
+          description:
+            "Graded problems found in header values, missing headers, and deprecated or version-leaking headers.",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              header: { type: "string" },
+              severity: { type: "string", enum: ["high", "medium", "low", "info"] },
+              issue: { type: "string" },
+              remediation: { type: "string" },
+            },
+            required: ["header", "severity", "issue", "remediation"],
+          },
+        },
+        riskPoints: {
+          type: "integer",
+          description: "Sum of finding weights (high 3, medium 2, low 1, info 0) used to derive score.",
+        },
+        cookies: {
+          type: "array",
+          description:
+            "Every cookie the final response set, with values redacted and unsafe attribute combinations flagged.",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              name: { type: "string" },
+              value: { type: "string", description: "Always [REDACTED] for non-empty values." },
+              secure: { type: "boolean" },
+              httpOnly: { type: "boolean" },
+              sameSite: { type: ["string", "null"] },
+              domain: { type: ["string", "null"] },
+              path: { type: ["string", "null"] },
+              expires: { type: ["string", "null"] },
+              maxAge: { type: ["integer", "null"] },
+              persistent: { type: "boolean" },
+              looksLikeSession: { type: "boolean" },
+              findings: {
+                type: "array",
+                items: {
+                  type: "object",
+                  additionalProperties: false,
+                  properties: {
+                    severity: { type: "string", enum: ["high", "medium", "low", "info"] },
+                    issue: { type: "string" },
+                    remediation: { type: "string" },
+                  },
+                  required: ["severity", "issue", "remediation"],
+                },
+              },
+            },
+            required: [
+              "name",
+              "value",
+              "secure",
+              "httpOnly",
+              "sameSite",
+              "domain",
+              "path",
+              "expires",
+              "maxAge",
+              "persistent",
+              "looksLikeSession",
+              "findings",
+            ],
+          },
+        },
+        timing: SERVER_CARD_TIMING_SCHEMA,
         error: {
           type: "string",
           description: "Validation or network error when the request could not be completed.",
         },
+        errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
       },
       required: ["url", "accessible", "https"],
     },
     annotations: SERVER_CARD_READ_ONLY_ANNOTATIONS,
   },
   {
-    name: "compare_pricing_pages",
-    title: "Pricing Page Comparison",
+    name: "inspect_tls",
+    title: "HTTPS Posture Inspection",
     description:
-      "Call this when you need to compare two to five public pricing pages " +
-      "before making a competitive pricing or packaging claim.",
+      "Call this to check HTTP-to-HTTPS redirects, HSTS preload eligibility, and mixed content " +
+      "on a public site before making an HTTPS posture claim.",
     inputSchema: {
       type: "object",
       additionalProperties: false,
       properties: {
-        pages: {
-          type: "array",
-          minItems: 2,
-          maxItems: 5,
-          description: "Two to five named pricing pages to compare side by side.",
-          items: {
-            type: "object",
-            additionalProperties: false,
-            properties: {
-              name: {
-                type: "string",
-                description: "Short vendor or product label to use in the comparison output.",
-              },
-              url: {
-                type: "string",
-                description: "Public pricing page URL for that vendor or product.",
-              },
-            },
-            required: ["name", "url"],
-          },
+        url: {
+          type: "string",
+          description:
+            "Public URL or bare domain to inspect. Both the http:// and https:// variants are requested.",
         },
+        timeout_ms: SERVER_CARD_TIMEOUT_INPUT_SCHEMA,
       },
-      required: ["pages"],
+      required: ["url"],
+    },
+    outputSchema: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        inputUrl: {
+          type: "string",
+          description: "Original user input when normalization changed it.",
+        },
+        url: { type: "string", description: "https:// URL that was inspected." },
+        httpsAvailable: {
+          type: "boolean",
+          description: "True when the https:// URL returned an HTTP response.",
+        },
+        status: { type: "integer", description: "HTTP status code of the https:// response." },
+        httpRedirect: {
+          type: "object",
+          additionalProperties: false,
+          description: "How the plain-HTTP variant of the URL behaves.",
+          properties: {
+            url: { type: "string" },
+            status: { type: "integer" },
+            redirectsToHttps: { type: "boolean" },
+            sameHostFirstHop: { type: "boolean" },
+            finalUrl: { type: "string" },
+            error: { type: "string" },
+            errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
+          },
+          required: ["url", "redirectsToHttps", "sameHostFirstHop"],
+        },
+        hsts: {
+          type: "object",
+          additionalProperties: false,
+          description: "Parsed HSTS policy and hstspreload.org eligibility.",
+          properties: {
+            present: { type: "boolean" },
+            raw: { type: ["string", "null"] },
+            valid: { type: "boolean" },
+            maxAge: { type: ["integer", "null"] },
+            includeSubDomains: { type: "boolean" },
+            preload: { type: "boolean" },
+            preloadEligible: { type: "boolean" },
+            preloadIssues: { type: "array", items: { type: "string" } },
+          },
+          required: [
+            "present",
+            "raw",
+            "valid",
+            "maxAge",
+            "includeSubDomains",
+            "preload",
+            "preloadEligible",
+            "preloadIssues",
+          ],
+        },
+        mixedContent: {
+          type: "object",
+          additionalProperties: false,
+          description: "http:// subresources referenced from the https:// HTML body.",
+          properties: {
+            activeCount: { type: "integer" },
+            passiveCount: { type: "integer" },
+            active: { type: "array", items: { type: "string" } },
+            passive: { type: "array", items: { type: "string" } },
+          },
+          required: ["activeCount", "passiveCount", "active", "passive"],
+        },
+        insecureForms: {
+          type: "object",
+          additionalProperties: false,
+          description: "Forms on the https:// page that submit to http://.",
+          properties: {
+            count: { type: "integer" },
+            actions: { type: "array", items: { type: "string" } },
+          },
+          required: ["count", "actions"],
+        },
+        certificate: {
+          type: "object",
+          additionalProperties: false,
+          description:
+            "Whether the runtime accepted the certificate. Issuer, subject, and expiry are not exposed by the runtime.",
+          properties: {
+            validatedByRuntime: { type: "boolean" },
+            detailsAvailable: { type: "boolean" },
+          },
+          required: ["validatedByRuntime", "detailsAvailable"],
+        },
+        timing: SERVER_CARD_TIMING_SCHEMA,
+        error: {
+          type: "string",
+          description: "Validation or network error when the https:// variant could not be fetched.",
+        },
+        errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
+      },
+      required: ["url", "httpsAvailable", "httpRedirect", "certificate"],
+    },
+    annotations: SERVER_CARD_READ_ONLY_ANNOTATIONS,
+  },
+  {
+    name: "inspect_well_known",
+    title: "Well-Known File Discovery",
+    description:
+      "Call this to parse a domain's security.txt per RFC 9116 and check for an MCP server card, " +
+      "OpenID configuration, robots.txt, llms.txt, and sitemap.xml.",
+    inputSchema: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        url: {
+          type: "string",
+          description: "Domain or any URL on the site. Only the origin is used.",
+        },
+        timeout_ms: SERVER_CARD_TIMEOUT_INPUT_SCHEMA,
+      },
+      required: ["url"],
+    },
+    outputSchema: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        inputUrl: {
+          type: "string",
+          description: "Original user input when normalization changed it.",
+        },
+        origin: { type: "string", description: "Origin the files were requested from." },
+        securityTxt: {
+          type: "object",
+          additionalProperties: false,
+          description: "Parsed security.txt.",
+          properties: {
+            found: { type: "boolean" },
+            url: { type: "string" },
+            status: { type: "integer" },
+            valid: { type: "boolean", description: "True when no RFC 9116 requirement checked here is violated." },
+            expired: { type: ["boolean", "null"] },
+            signed: { type: "boolean", description: "OpenPGP cleartext signature present. Not verified." },
+            contact: { type: "array", items: { type: "string" } },
+            expires: { type: ["string", "null"] },
+            encryption: { type: "array", items: { type: "string" } },
+            policy: { type: "array", items: { type: "string" } },
+            preferredLanguages: { type: "array", items: { type: "string" } },
+            acknowledgments: { type: "array", items: { type: "string" } },
+            canonical: { type: "array", items: { type: "string" } },
+            hiring: { type: "array", items: { type: "string" } },
+            errors: { type: "array", items: { type: "string" } },
+            warnings: { type: "array", items: { type: "string" } },
+            error: { type: "string" },
+            errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
+          },
+          required: ["found", "url"],
+        },
+        files: {
+          type: "object",
+          additionalProperties: false,
+          description: "Presence of other well-known files.",
+          properties: {
+            mcpServerCard: SERVER_CARD_WELL_KNOWN_FILE_SCHEMA,
+            openidConfiguration: SERVER_CARD_WELL_KNOWN_FILE_SCHEMA,
+            robotsTxt: SERVER_CARD_WELL_KNOWN_FILE_SCHEMA,
+            llmsTxt: SERVER_CARD_WELL_KNOWN_FILE_SCHEMA,
+            sitemapXml: SERVER_CARD_WELL_KNOWN_FILE_SCHEMA,
+          },
+          required: ["mcpServerCard", "openidConfiguration", "robotsTxt", "llmsTxt", "sitemapXml"],
+        },
+        error: {
+          type: "string",
+          description: "Validation error when the input is not a usable URL or domain.",
+        },
+      },
+      required: ["origin"],
+    },
+    annotations: SERVER_CARD_READ_ONLY_ANNOTATIONS,
+  },
+  {
+    name: "compare_pricing_pages",
+    title: "Pricing Page Comparison",
+    description:
+      "Call this when you need to compare two to five public pricing pages " +
+      "before making a competitive pricing or packaging claim.",
+    inputSchema: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        pages: {
+          type: "array",
+          minItems: 2,
+          maxItems: 5,
+          description: "Two to five named pricing pages to compare side by side.",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              name: {
+                type: "string",
+                description: "Short vendor or product label to use in the comparison output.",
+              },
+              url: {
+                type: "string",
+                description: "Public pricing page URL for that vendor or product.",
+              },
+            },
+            required: ["name", "url"],
+          },
+        },
+        exchange_rates: SERVER_CARD_EXCHANGE_RATES_INPUT_SCHEMA,
+        timeout_ms: SERVER_CARD_TIMEOUT_INPUT_SCHEMA,
+        receipt: SERVER_CARD_RECEIPT_INPUT_SCHEMA,
+      },
+      required: ["pages"],
     },
     outputSchema: {
       type: "object",
@@ -473,7 +1327,7 @@ const SERVER_CARD_TOOLS = [
               pricesFound: {
                 type: "array",
                 description:
-                  "Distinct price-like strings extracted from this page. These are page-level hints and are not mapped to specific plans.",
+                  "Distinct price-like strings extracted from this page. Kept for backward compatibility; use plans for prices linked to a plan.",
                 items: { type: "string" },
               },
               plansDetected: {
@@ -482,6 +1336,13 @@ const SERVER_CARD_TOOLS = [
                   "Lowercased heuristic plan labels detected on this page, such as free, pro, team, or enterprise.",
                 items: { type: "string" },
               },
+              prices: SERVER_CARD_PRICES_SCHEMA,
+              plans: SERVER_CARD_PRICING_PLANS_SCHEMA,
+              billing: SERVER_CARD_BILLING_SCHEMA,
+              structuredOffers: SERVER_CARD_STRUCTURED_OFFERS_SCHEMA,
+              contactSalesPlans: { type: "array", items: { type: "string" } },
+              usagePricing: SERVER_CARD_USAGE_PRICING_SCHEMA,
+              volumeTiers: SERVER_CARD_VOLUME_TIERS_SCHEMA,
               hasFreeOption: {
                 type: "boolean",
                 description:
@@ -496,11 +1357,13 @@ const SERVER_CARD_TOOLS = [
                 type: "integer",
                 description: "Size of this fetched page body in characters.",
               },
+              timing: SERVER_CARD_TIMING_SCHEMA,
               error: {
                 type: "string",
                 description:
                   "Fetch or parsing error for this specific pricing page when it could not be analyzed.",
               },
+              errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
             },
             required: ["name", "url"],
           },
@@ -529,14 +1392,20 @@ const SERVER_CARD_TOOLS = [
               description:
                 "Number of pages with page-level text suggesting a free trial.",
             },
+            pagesWithStructuredPlans: {
+              type: "integer",
+              description: "Number of pages where at least one plan could be linked to its price.",
+            },
           },
           required: [
             "pagesCompared",
             "pagesWithVisiblePrices",
             "pagesWithFreeOption",
             "pagesWithFreeTrial",
+            "pagesWithStructuredPlans",
           ],
         },
+        ...SERVER_CARD_RECEIPT_OUTPUT_PROPERTIES,
       },
       required: ["pages", "summary"],
     },
@@ -566,6 +1435,7 @@ const SERVER_CARD_TOOLS = [
           description:
             "Registry that all package names belong to. Returned metadata fields differ slightly between npm and PyPI.",
         },
+        receipt: SERVER_CARD_RECEIPT_INPUT_SCHEMA,
       },
       required: ["packages"],
     },
@@ -606,6 +1476,7 @@ const SERVER_CARD_TOOLS = [
             required: ["name", "found"],
           },
         },
+        ...SERVER_CARD_RECEIPT_OUTPUT_PROPERTIES,
       },
       required: ["packages", "registry", "comparisons"],
     },
@@ -639,17 +1510,36 @@ const SERVER_CARD_TOOLS = [
           minItems: 1,
           maxItems: 20,
           description:
-            "Keywords or short phrases that should appear on supporting pages.",
+            "Keywords or short phrases that should appear on supporting pages. Omit to derive them from the claim.",
           items: { type: "string" },
         },
+        timeout_ms: SERVER_CARD_TIMEOUT_INPUT_SCHEMA,
+        archive_evidence: SERVER_CARD_ARCHIVE_EVIDENCE_INPUT_SCHEMA,
+        receipt: SERVER_CARD_RECEIPT_INPUT_SCHEMA,
       },
-      required: ["claim", "evidence_urls", "keywords"],
+      required: ["claim", "evidence_urls"],
     },
     outputSchema: {
       type: "object",
       additionalProperties: false,
       properties: {
         claim: { type: "string", description: "Claim that was evaluated." },
+        keywordSource: { type: "string", enum: ["supplied", "derived"] },
+        keywordsUsed: {
+          type: "array",
+          description: "Keywords the sources were checked against, with numeric facts weighted double.",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              term: { type: "string" },
+              kind: { type: "string", enum: ["number", "entity", "phrase", "term"] },
+              weight: { type: "number" },
+              unit: { type: "string" },
+            },
+            required: ["term", "kind", "weight"],
+          },
+        },
         sources: {
           type: "array",
           description: "Per-source evidence results.",
@@ -661,12 +1551,59 @@ const SERVER_CARD_TOOLS = [
               accessible: { type: "boolean" },
               cached: { type: "boolean" },
               keywordsMatched: { type: "array", items: { type: "string" } },
+              structuredKeywordsMatched: { type: "array", items: { type: "string" } },
+              structuredFacts: {
+                type: "array",
+                items: {
+                  type: "object",
+                  additionalProperties: false,
+                  properties: {
+                    type: { type: "string" },
+                    property: { type: "string" },
+                    value: { type: "string" },
+                  },
+                  required: ["type", "property", "value"],
+                },
+              },
               keywordsTotal: { type: "integer" },
               matchRatio: { type: "number" },
+              passages: {
+                type: "array",
+                description: "Up to 3 best-scoring sentences, affirmative ones first at equal score.",
+                items: {
+                  type: "object",
+                  additionalProperties: false,
+                  properties: {
+                    text: { type: "string" },
+                    score: { type: "number" },
+                    keywordsMatched: { type: "array", items: { type: "string" } },
+                    negated: { type: "boolean" },
+                    hedged: { type: "boolean" },
+                  },
+                  required: ["text", "score", "keywordsMatched", "negated", "hedged"],
+                },
+              },
+              bestPassageScore: { type: "number" },
+              stance: { type: "string", enum: ["supporting", "contradicting", "irrelevant", "unreachable"] },
               supports: { type: "boolean" },
+              supportBasis: { type: ["string", "null"], enum: ["structured_data", "page_text", null] },
+              contradiction: {
+                type: ["object", "null"],
+                additionalProperties: false,
+                properties: {
+                  kind: { type: "string", enum: ["opposing_passage", "conflicting_number"] },
+                  passage: { type: "string" },
+                  claimNumbers: { type: "array", items: { type: "string" } },
+                  pageNumbers: { type: "array", items: { type: "string" } },
+                },
+                required: ["kind", "passage", "claimNumbers", "pageNumbers"],
+              },
+              evidenceId: { type: "string" },
+              timing: SERVER_CARD_TIMING_SCHEMA,
               error: { type: "string" },
+              errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
             },
-            required: ["url", "accessible", "supports"],
+            required: ["url", "accessible", "stance", "supports"],
           },
         },
         verdict: {
@@ -675,7 +1612,10 @@ const SERVER_CARD_TOOLS = [
           description: "Aggregate verdict across all supplied sources.",
           properties: {
             supporting: { type: "integer" },
+            structuredSupporting: { type: "integer" },
             contradicting: { type: "integer" },
+            irrelevant: { type: "integer" },
+            unreachable: { type: "integer" },
             total: { type: "integer" },
             confidence: { type: "number" },
             summary: {
@@ -683,177 +1623,381 @@ const SERVER_CARD_TOOLS = [
               enum: ["CONFIRMED", "UNCONFIRMED", "LIKELY TRUE", "LIKELY FALSE"],
             },
           },
-          required: ["supporting", "contradicting", "total", "confidence", "summary"],
+          required: ["supporting", "structuredSupporting", "contradicting", "irrelevant", "unreachable", "total", "confidence", "summary"],
         },
+        evidenceError: {
+          type: "string",
+          description: "Why archive_evidence was not honored, for example a missing or inactive team API key.",
+        },
+        ...SERVER_CARD_RECEIPT_OUTPUT_PROPERTIES,
       },
-      required: ["claim", "sources", "verdict"],
+      required: ["claim", "keywordSource", "keywordsUsed", "sources", "verdict"],
     },
     annotations: SERVER_CARD_READ_ONLY_ANNOTATIONS,
   },
   {
-    name: "assess_compliance_posture",
-    title: "Compliance Signal Scan",
+    name: "verify_numeric_fact",
+    title: "Numeric Fact Check",
     description:
-      "Call this to scan a public security, trust, compliance, or legal page " +
-      "for common enterprise signals before repeating a vendor posture claim.",
+      "Call this when a claim hinges on a number, such as a fee, quota, limit, or price, " +
+      "and you have public evidence URLs to compare it against with unit normalization.",
     inputSchema: {
       type: "object",
       additionalProperties: false,
       properties: {
-        url: {
+        subject: { type: "string", description: "What the number belongs to, for example 'Stripe' or 'free tier'." },
+        metric: { type: "string", description: "What is being measured, for example 'card transaction fee' or 'requests'." },
+        expected_value: { type: "number", description: "Expected number, for example 2.9 or 10000." },
+        unit: {
           type: "string",
-          description: "Public trust, security, compliance, or policy URL to scan.",
+          description: "Unit of expected_value, for example '%', '¢', '$ per month', 'k requests per month', or 'GB'.",
+        },
+        tolerance: { type: "number", minimum: 0, description: "Largest accepted difference in the expected unit. Defaults to 0." },
+        evidence_urls: {
+          type: "array",
+          minItems: 1,
+          maxItems: 10,
+          description: "One to ten public pricing, documentation, or policy URLs likely to state the number.",
+          items: { type: "string" },
         },
+        timeout_ms: SERVER_CARD_TIMEOUT_INPUT_SCHEMA,
+        archive_evidence: SERVER_CARD_ARCHIVE_EVIDENCE_INPUT_SCHEMA,
+        receipt: SERVER_CARD_RECEIPT_INPUT_SCHEMA,
       },
-      required: ["url"],
+      required: ["subject", "metric", "expected_value", "evidence_urls"],
     },
     outputSchema: {
       type: "object",
       additionalProperties: false,
       properties: {
-        url: { type: "string", description: "Compliance or trust page that was analyzed." },
-        cached: {
-          type: "boolean",
-          description: "True when the page body came from the 5-minute cache.",
+        subject: { type: "string" },
+        metric: { type: "string" },
+        expected: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            value: { type: "number" },
+            unit: { type: ["string", "null"] },
+            normalizedValue: { type: "number" },
+            normalizedUnit: { type: ["string", "null"] },
+            tolerance: { type: "number" },
+          },
+          required: ["value", "unit", "normalizedValue", "normalizedUnit", "tolerance"],
         },
-        matchedSignals: {
+        sources: {
           type: "array",
-          items: { type: "string" },
-          description: "Signal names that were detected on the page.",
+          description: "Per-source results.",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              url: { type: "string" },
+              accessible: { type: "boolean" },
+              cached: { type: "boolean" },
+              status: { type: "string", enum: ["match", "mismatch", "not_found", "unreachable"] },
+              values: {
+                type: "array",
+                description: "Up to 5 comparable values, most relevant sentences first.",
+                items: {
+                  type: "object",
+                  additionalProperties: false,
+                  properties: {
+                    text: { type: "string" },
+                    value: { type: "number" },
+                    unit: { type: ["string", "null"] },
+                    comparedValue: { type: "number" },
+                    difference: { type: "number" },
+                    withinTolerance: { type: "boolean" },
+                    passage: { type: "string" },
+                    heading: { type: ["string", "null"] },
+                  },
+                  required: ["text", "value", "unit", "comparedValue", "difference", "withinTolerance", "passage", "heading"],
+                },
+              },
+              evidenceId: { type: "string" },
+              timing: SERVER_CARD_TIMING_SCHEMA,
+              error: { type: "string" },
+              errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
+            },
+            required: ["url", "accessible", "status"],
+          },
         },
-        signals: {
+        verdict: {
           type: "object",
           additionalProperties: false,
-          description:
-            "Boolean scan results for common enterprise compliance and security signals.",
+          description: "Aggregate verdict across all supplied sources.",
           properties: {
-            soc2: {
-              type: "boolean",
-              description:
-                "True when the page references SOC 2 or SOC2 compliance language.",
-            },
-            iso27001: {
-              type: "boolean",
-              description:
-                "True when the page references ISO 27001 certification or compliance language.",
-            },
-            gdpr: {
-              type: "boolean",
-              description:
-                "True when the page references GDPR or the General Data Protection Regulation.",
-            },
-            hipaa: {
-              type: "boolean",
-              description:
-                "True when the page references HIPAA compliance language.",
-            },
-            dpa: {
-              type: "boolean",
-              description:
-                "True when the page references a data processing agreement or DPA.",
-            },
-            subprocessorList: {
-              type: "boolean",
-              description:
-                "True when the page references subprocessors or a subprocessor list.",
-            },
-            sso: {
-              type: "boolean",
-              description:
-                "True when the page references SSO or single sign-on.",
-            },
-            scim: {
-              type: "boolean",
-              description:
-                "True when the page references SCIM provisioning.",
-            },
-            encryption: {
-              type: "boolean",
-              description:
-                "True when the page references encryption, data encrypted at rest, or data encrypted in transit.",
-            },
-            dataResidency: {
-              type: "boolean",
-              description:
-                "True when the page references data residency, data regions, or regional storage controls.",
+            matching: { type: "integer" },
+            mismatching: { type: "integer" },
+            notFound: { type: "integer" },
+            unreachable: { type: "integer" },
+            total: { type: "integer" },
+            summary: {
+              type: "string",
+              enum: ["CONFIRMED", "UNCONFIRMED", "LIKELY TRUE", "LIKELY FALSE"],
             },
           },
-          required: [
-            "soc2",
-            "iso27001",
-            "gdpr",
-            "hipaa",
-            "dpa",
-            "subprocessorList",
-            "sso",
-            "scim",
-            "encryption",
-            "dataResidency",
-          ],
+          required: ["matching", "mismatching", "notFound", "unreachable", "total", "summary"],
         },
-        pageLength: { type: "integer", description: "Size of the fetched page body in characters." },
-        error: {
+        evidenceError: {
           type: "string",
-          description: "Fetch or parsing error when the page could not be analyzed.",
+          description: "Why archive_evidence was not honored, for example a missing or inactive team API key.",
         },
+        ...SERVER_CARD_RECEIPT_OUTPUT_PROPERTIES,
       },
-      required: ["url"],
+      required: ["subject", "metric", "expected", "sources", "verdict"],
     },
     annotations: SERVER_CARD_READ_ONLY_ANNOTATIONS,
   },
   {
-    name: "test_hypothesis",
-    title: "Multi-step Hypothesis Test",
+    name: "assess_compliance_posture",
+    title: "Compliance Signal Scan",
     description:
-      "Call this when one hypothesis needs several explicit live checks, such " +
-      "as endpoint reachability, npm result counts, or exact page-text matches.",
+      "Call this to scan a public security, trust, compliance, or legal page " +
+      "for common enterprise signals before repeating a vendor posture claim.",
     inputSchema: {
       type: "object",
       additionalProperties: false,
       properties: {
-        hypothesis: {
+        url: {
           type: "string",
-          description:
-            "Claim to test, for example 'there are fewer than 50 MCP email servers on npm'.",
+          description: "Public trust, security, compliance, or policy URL to scan. In crawl mode, any URL on the vendor's site.",
         },
-        tests: {
-          type: "array",
-          minItems: 1,
-          maxItems: 10,
-          description: "Ordered list of one to ten checks to run.",
-          items: {
-            type: "object",
-            description:
-              "One explicit check in the plan. Supported types are endpoint_exists, npm_count_above, npm_count_below, and response_contains.",
-          },
+        crawl: {
+          type: "boolean",
+          default: false,
+          description: "When true, discover likely trust and legal pages from homepage links and sitemap.xml and aggregate signals across them.",
+        },
+        max_pages: {
+          type: "integer",
+          minimum: 1,
+          maximum: 10,
+          default: 6,
+          description: "Crawl mode page budget, including the homepage.",
         },
+        timeout_ms: SERVER_CARD_TIMEOUT_INPUT_SCHEMA,
+        archive_evidence: SERVER_CARD_ARCHIVE_EVIDENCE_INPUT_SCHEMA,
+        receipt: SERVER_CARD_RECEIPT_INPUT_SCHEMA,
       },
-      required: ["hypothesis", "tests"],
+      required: ["url"],
     },
     outputSchema: {
       type: "object",
       additionalProperties: false,
       properties: {
-        hypothesis: { type: "string", description: "Hypothesis that was evaluated." },
-        tests: {
+        url: { type: "string", description: "Compliance or trust page that was analyzed." },
+        cached: {
+          type: "boolean",
+          description: "True when the page body came from the 5-minute cache.",
+        },
+        matchedSignals: {
           type: "array",
-          description: "Per-test execution results in input order.",
+          items: { type: "string" },
+          description: "Signal names whose boolean in signals is true.",
+        },
+        signals: {
+          type: "object",
+          description:
+            "One boolean per catalog framework, keyed by id. True when at least one mention is in the page body, is not negated, and is a certification claim or policy mention.",
+          additionalProperties: { type: "boolean" },
+        },
+        frameworks: {
+          type: "array",
+          description: "Every catalog framework mentioned on the page, with catalog metadata for grouping.",
           items: {
             type: "object",
             additionalProperties: false,
             properties: {
-              description: { type: "string" },
-              type: {
+              id: { type: "string" },
+              name: { type: "string" },
+              category: {
                 type: "string",
                 enum: [
-                  "endpoint_exists",
-                  "npm_count_above",
-                  "npm_count_below",
-                  "response_contains",
+                  "attestation",
+                  "certification",
+                  "government_authorization",
+                  "regulation",
+                  "data_governance",
+                  "product_security",
+                  "security_program",
+                ],
+              },
+              jurisdiction: { type: "string" },
+              detected: { type: "boolean" },
+              negated: { type: "boolean" },
+              level: { type: ["string", "null"], description: "Level, type, or tier, such as FedRAMP Moderate or SOC 2 Type II." },
+            },
+            required: ["id", "name", "category", "jurisdiction", "detected", "negated", "level"],
+          },
+        },
+        detectedByCategory: {
+          type: "object",
+          description: "Ids of detected frameworks grouped by category.",
+          additionalProperties: { type: "array", items: { type: "string" } },
+        },
+        pageType: {
+          type: "string",
+          enum: ["trust_center", "compliance", "security", "privacy_policy", "legal", "other"],
+          description: "Page type inferred from the URL path, title, and first heading.",
+        },
+        negatedSignals: {
+          type: "array",
+          items: { type: "string" },
+          description: "Signals with at least one negated or only planned mention, such as \"we are not HIPAA compliant\".",
+        },
+        incidentalSignals: {
+          type: "array",
+          items: { type: "string" },
+          description: "Signals mentioned only in footers, navigation, or passing text.",
+        },
+        evidence: {
+          type: "array",
+          description: "Up to 5 mentions per signal with the surrounding text.",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              signal: { type: "string" },
+              url: { type: "string", description: "Crawl mode only: page the mention was found on." },
+              snippet: { type: "string", description: "Up to 120 characters either side of the match." },
+              position: { type: "integer", description: "Character offset of the match in the page text." },
+              region: { type: "string", enum: ["main", "footer", "navigation"] },
+              classification: { type: "string", enum: ["certification_claim", "policy_mention", "incidental_mention"] },
+              negated: { type: "boolean" },
+              level: { type: ["string", "null"] },
+            },
+            required: ["signal", "snippet", "position", "region", "classification", "negated", "level"],
+          },
+        },
+        signalSources: {
+          type: "object",
+          description: "Crawl mode only: for each signal, the URLs of the pages where it was true.",
+          additionalProperties: { type: "array", items: { type: "string" } },
+        },
+        crawl: {
+          type: "object",
+          additionalProperties: false,
+          description: "Crawl mode only: which pages were discovered and scanned.",
+          properties: {
+            pageBudget: { type: "integer" },
+            pagesScanned: { type: "integer" },
+            candidatesFound: { type: "integer" },
+            sitemapChecked: { type: "boolean" },
+            pages: {
+              type: "array",
+              items: {
+                type: "object",
+                additionalProperties: false,
+                properties: {
+                  url: { type: "string" },
+                  discoveredFrom: { type: "string", enum: ["input", "homepage", "link", "sitemap"] },
+                  pageType: { type: "string", enum: ["trust_center", "compliance", "security", "privacy_policy", "legal", "other"] },
+                  matchedSignals: { type: "array", items: { type: "string" } },
+                  negatedSignals: { type: "array", items: { type: "string" } },
+                  cached: { type: "boolean" },
+                  evidenceId: { type: "string" },
+                  error: { type: "string" },
+                  errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
+                },
+                required: ["url", "discoveredFrom"],
+              },
+            },
+          },
+          required: ["pageBudget", "pagesScanned", "candidatesFound", "sitemapChecked", "pages"],
+        },
+        pageLength: { type: "integer", description: "Size of the fetched page body in characters." },
+        timing: SERVER_CARD_TIMING_SCHEMA,
+        error: {
+          type: "string",
+          description: "Fetch or parsing error when the page could not be analyzed.",
+        },
+        errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
+        evidenceId: {
+          type: "string",
+          description: "Archive ID for the fetched page when archive_evidence was set.",
+        },
+        evidenceError: {
+          type: "string",
+          description: "Why archive_evidence was not honored, for example a missing or inactive team API key.",
+        },
+        ...SERVER_CARD_RECEIPT_OUTPUT_PROPERTIES,
+      },
+      required: ["url"],
+    },
+    annotations: SERVER_CARD_READ_ONLY_ANNOTATIONS,
+  },
+  {
+    name: "test_hypothesis",
+    title: "Multi-step Hypothesis Test",
+    description:
+      "Call this when one hypothesis needs several explicit live checks, such " +
+      "as endpoint reachability, status codes, headers, JSON fields, npm result " +
+      "counts, latency, or exact page-text matches.",
+    inputSchema: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        hypothesis: {
+          type: "string",
+          description:
+            "Claim to test, for example 'there are fewer than 50 MCP email servers on npm'.",
+        },
+        tests: {
+          type: "array",
+          minItems: 1,
+          maxItems: 10,
+          description: "Ordered list of one to ten checks to run.",
+          items: {
+            type: "object",
+            description:
+              "One explicit check in the plan. Supported types are endpoint_exists, npm_count_above, npm_count_below, response_contains, " +
+              "status_code_is, header_equals, header_contains, json_path_equals, regex_match, latency_below, and content_type_equals.",
+          },
+        },
+        timeout_ms: SERVER_CARD_TIMEOUT_INPUT_SCHEMA,
+        receipt: SERVER_CARD_RECEIPT_INPUT_SCHEMA,
+      },
+      required: ["hypothesis", "tests"],
+    },
+    outputSchema: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        hypothesis: { type: "string", description: "Hypothesis that was evaluated." },
+        tests: {
+          type: "array",
+          description: "Per-test execution results in input order.",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              description: { type: "string" },
+              type: {
+                type: "string",
+                enum: [
+                  "endpoint_exists",
+                  "npm_count_above",
+                  "npm_count_below",
+                  "response_contains",
+                  "status_code_is",
+                  "header_equals",
+                  "header_contains",
+                  "json_path_equals",
+                  "regex_match",
+                  "latency_below",
+                  "content_type_equals",
                 ],
               },
               passed: { type: "boolean" },
-              actual: { type: ["string", "number", "null"] },
+              actual: {
+                description:
+                  "Observed value. A number for status_code_is, latency_below, and npm counts; a string or null for " +
+                  "headers, content type, and regex matches; any JSON value for json_path_equals; a diagnostic string otherwise.",
+              },
+              expected: { description: "Value the observation was compared against. Omitted for endpoint_exists." },
+              timing: SERVER_CARD_TIMING_SCHEMA,
+              error: { type: "string" },
+              errorCode: SERVER_CARD_ERROR_CODE_SCHEMA,
             },
             required: ["description", "type", "passed", "actual"],
           },
@@ -872,6 +2016,7 @@ const SERVER_CARD_TOOLS = [
           },
           required: ["passed", "failed", "summary"],
         },
+        ...SERVER_CARD_RECEIPT_OUTPUT_PROPERTIES,
       },
       required: ["hypothesis", "tests", "verdict"],
     },
@@ -917,6 +2062,55 @@ const SERVER_CARD_TOOLS = [
     },
     annotations: SERVER_CARD_READ_ONLY_ANNOTATIONS,
   },
+  {
+    name: "verify_receipt",
+    title: "Receipt Verification",
+    description:
+      "Call this to check a receipt returned by a paid tool called with receipt: true. Verifies the Ed25519 " +
+      "signature against this server's key and, when the original result is supplied, its output digest.",
+    inputSchema: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        receipt: {
+          type: "object",
+          additionalProperties: false,
+          description: "The receipt object exactly as the paid tool returned it.",
+          properties: {
+            algorithm: { type: "string" },
+            payload: { type: "object" },
+            signature: { type: "string" },
+          },
+          required: ["payload", "signature"],
+        },
+        result: {
+          type: "object",
+          description: "The tool result the receipt came with. Every field except receipt and receiptError is hashed.",
+        },
+      },
+      required: ["receipt"],
+    },
+    outputSchema: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        valid: {
+          type: "boolean",
+          description: "True when the signature is valid, made with this server's key, and the supplied result matches outputDigest.",
+        },
+        signatureValid: { type: "boolean" },
+        keyKnown: { type: "boolean", description: "True when the receipt's keyId is this server's current receipt key." },
+        outputDigestMatches: { type: ["boolean", "null"], description: "Null when no result was supplied." },
+        keyId: { type: ["string", "null"] },
+        tool: { type: ["string", "null"] },
+        issuedAt: { type: ["string", "null"] },
+        serverVersion: { type: ["string", "null"] },
+        error: { type: "string" },
+      },
+      required: ["valid", "signatureValid", "keyKnown", "outputDigestMatches", "keyId", "tool", "issuedAt", "serverVersion"],
+    },
+    annotations: { ...SERVER_CARD_READ_ONLY_ANNOTATIONS, openWorldHint: false },
+  },
 ];
 
 type ApiKeyRecord = Record<string, unknown> & {
@@ -1076,6 +2270,7 @@ Sitemap: ${getSitemapUrl(url)}
 - [Home](${publicOrigin}/): Overview, pricing summary, MCP setup, and example verification workflows.
 - [Pricing](${publicOrigin}/pricing): Free checks, paid monitors, and team plan details.
 - [MCP Server Card](${publicOrigin}/.well-known/mcp/server-card.json): Machine-readable tool metadata.
+- [Receipt Keys](${publicOrigin}${RECEIPT_KEYS_PATH}): Ed25519 public key for checking signed tool receipts offline.
 `;
 }
 
@@ -1134,602 +2329,4121 @@ function getExtraHeader(
   return undefined;
 }
 
-function extractPricingSignals(body: string) {
-  const priceRegex = /\$\d[\d,]*(?:\.\d{2})?(?:\s*\/\s*(?:mo(?:nth)?|yr|year|user|seat|req|call|token))?/gi;
-  const pricesFound = [...new Set(body.match(priceRegex) || [])].slice(0, 20);
-  const planRegex = /(?:free|starter|basic|pro|premium|enterprise|business|team|hobby|growth|scale)\s*(?:plan|tier)?/gi;
-  const plansDetected = [...new Set((body.match(planRegex) || []).map((match) => match.trim().toLowerCase()))];
-
-  return {
-    pricesFound,
-    plansDetected,
-    hasFreeOption: /free\s*(?:plan|tier|forever|trial)|(?:\$0|0\.00)/i.test(body),
-    hasFreeTrial: /free\s*trial|try\s*(?:it\s*)?free|start\s*free/i.test(body),
-    pageLength: body.length,
-  };
+// --- Pricing page parsing ---
+// Pricing pages are scanned as a flat sequence of text blocks (one per block-level
+// element) rather than a DOM, which is enough to find the heading/price/bullets/CTA
+// rhythm of pricing cards without pulling an HTML parser into the Worker.
+const HTML_BLOCK_TAGS = new Set([
+  "a", "article", "aside", "br", "button", "caption", "dd", "div", "dl", "dt", "footer",
+  "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "label", "li", "main", "nav", "ol", "p",
+  "section", "table", "tbody", "td", "tfoot", "th", "thead", "tr", "ul",
+]);
+const HTML_VOID_TAGS = new Set(["br", "hr"]);
+// Text inside these tags continues the surrounding sentence rather than starting a new one.
+const INLINE_TEXT_BLOCK_TAGS = new Set(["a", "button", "label"]);
+// Other inline tags get a space at their boundary so "<span>Monthly</span><span>Annual</span>" does not
+// read as one word. These stay glued because pages use them inside a word or number ("$29<sup>.99</sup>").
+const HTML_JOINING_INLINE_TAGS = new Set(["sup", "sub", "wbr"]);
+const HTML_NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: "\u00a0", euro: "€", pound: "£", yen: "¥",
+  cent: "¢", times: "×", middot: "·", ndash: "–", mdash: "—", hellip: "…", rsquo: "’", lsquo: "‘",
+  rdquo: "”", ldquo: "“", check: "✓",
+};
+const MAX_PRICING_PLANS = 12;
+const MAX_PLAN_FEATURES = 15;
+const PLAN_SECTION_MAX_BLOCKS = 40;
+const PLAN_PRICE_LOOKAHEAD_BLOCKS = 8;
+// Longer blocks are prose that happens to mention a price ("get $5 back"), not a price tag.
+const PLAN_PRICE_MAX_BLOCK_LENGTH = 30;
+const PLAN_NAME_PATTERN =
+  /^(?:free|starter|basic|standard|plus|pro|professional|premium|enterprise|business|teams?|hobby|growth|scale|startup|personal|individual|developer|indie|max|ultimate|essentials?)(?:\s+(?:plan|tier|edition))?$/i;
+const PLAN_CTA_PATTERN = /\b(?:start|get|buy|try|contact|sign\s*up|subscribe|choose|select|upgrade|talk to|book|request|join)\b/i;
+const TABLE_FEATURE_MARK_PATTERN = /^(?:✓|✔|✅|yes|included|unlimited)$/i;
+
+// Symbols are matched longest first so "US$" and "R$" win over a bare "$".
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "US$": "USD", "A$": "AUD", "AU$": "AUD", "C$": "CAD", "CA$": "CAD", "NZ$": "NZD", "HK$": "HKD",
+  "S$": "SGD", "SG$": "SGD", "R$": "BRL", "MX$": "MXN", "CN¥": "CNY", "$": "USD", "€": "EUR",
+  "£": "GBP", "¥": "JPY", "円": "JPY", "元": "CNY", "₹": "INR", "₩": "KRW", "₺": "TRY", "₽": "RUB",
+  "₱": "PHP", "₪": "ILS", "zł": "PLN", "Fr.": "CHF",
+};
+const CURRENCY_CODES = [
+  "USD", "EUR", "GBP", "JPY", "INR", "CAD", "AUD", "NZD", "CHF", "CNY", "HKD", "SGD", "SEK",
+  "NOK", "DKK", "PLN", "CZK", "BRL", "MXN", "KRW", "ZAR", "TRY", "ILS",
+];
+const CURRENCY_TOKEN_SOURCE = `(?:${Object.keys(CURRENCY_SYMBOLS)
+  .sort((a, b) => b.length - a.length)
+  .map((symbol) => symbol.replace(/[.$]/g, "\\$&"))
+  .join("|")}|(?<![A-Za-z])(?:${CURRENCY_CODES.join("|")})(?![A-Za-z]))`;
+// Grouped thousands ("1,234", "1.234", "1 234", "1'234") with optional 1-2 decimals, or a plain
+// number with up to 6 decimals for metered prices like "$0.0004".
+const PRICE_AMOUNT_SOURCE = "[1-9]\\d{0,2}(?:[.,\\u00a0\\u202f']\\d{3})+(?:[.,]\\d{1,2})?(?!\\d)|\\d+(?:[.,]\\d{1,6})?(?!\\d)";
+// A trailing currency ("12,99 €") must not be the leading currency of the next price ("5 $10").
+const PRICE_SOURCE =
+  `(${CURRENCY_TOKEN_SOURCE})\\s?(${PRICE_AMOUNT_SOURCE})|(${PRICE_AMOUNT_SOURCE})\\s?(${CURRENCY_TOKEN_SOURCE})(?!\\s?\\d)`;
+const PRICE_SUFFIX_SOURCE = "(?:\\s*\\/\\s*(?:mo(?:nth)?|yr|year|user|seat|req|call|token))?";
+const CONTACT_SALES_PRICE_PATTERN =
+  /^(?:custom(?:\s+(?:pricing|quote))?|contact\s+(?:us|sales)(?:\s+for\s+pricing)?|talk\s+to\s+(?:us|sales)|let['’]?s\s+talk|get\s+a\s+quote|request\s+(?:a\s+)?quote|call\s+us|(?:price\s+)?on\s+request)[.!]?$/i;
+
+// Metered units normalize to one canonical unit each; factor converts "per TB" to gb and "per hour" to minutes.
+const USAGE_UNITS: { unit: string; pattern: RegExp; factor?: number }[] = [
+  { unit: "request", pattern: /^(?:(?:api\s+)?requests?|(?:api\s+)?calls?|invocations?|executions?|quer(?:y|ies)|lookups?)$/i },
+  { unit: "token", pattern: /^(?:(?:input\s+|output\s+)?tokens?)$/i },
+  { unit: "character", pattern: /^(?:char(?:acter)?s?)$/i },
+  { unit: "gb", pattern: /^(?:gb|gib|gigabytes?)$/i },
+  { unit: "gb", pattern: /^(?:tb|tib|terabytes?)$/i, factor: 1000 },
+  { unit: "gb", pattern: /^(?:mb|mib|megabytes?)$/i, factor: 0.001 },
+  { unit: "mau", pattern: /^(?:maus?|monthly\s+active\s+users?)$/i },
+  { unit: "message", pattern: /^(?:messages?|sms)$/i },
+  { unit: "email", pattern: /^(?:e-?mails?)$/i },
+  { unit: "minute", pattern: /^(?:minutes?|mins?)$/i },
+  { unit: "minute", pattern: /^(?:hours?|hrs?)$/i, factor: 60 },
+  { unit: "event", pattern: /^(?:events?)$/i },
+  { unit: "credit", pattern: /^(?:credits?)$/i },
+  { unit: "image", pattern: /^(?:images?)$/i },
+  { unit: "page_view", pattern: /^(?:page\s*views?)$/i },
+];
+const USAGE_UNIT_SOURCE = USAGE_UNITS.map((spec) => spec.pattern.source.slice(1, -1)).join("|");
+const VOLUME_SUFFIX_MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3, m: 1e6, mm: 1e6, million: 1e6, b: 1e9, billion: 1e9,
+};
+// The suffix must end the word, so the "M" of "1 MAU" is not read as million.
+const VOLUME_NUMBER_SOURCE = "(\\d[\\d,.]*)(?:\\s*(k|mm|m|b|thousand|million|billion)(?![a-z]))?";
+// Groups 1-4 are the price, 5-6 a numeric quantity, 7 a spelled-out one, and 8 the unit.
+const USAGE_PRICE_SOURCE =
+  `(?:${PRICE_SOURCE})\\s*(?:\\/|per|for\\s+(?:every|each)|each)\\s*(?:${VOLUME_NUMBER_SOURCE}\\s*|(thousand|million|billion)\\s+)?(?:additional\\s+|extra\\s+)?(${USAGE_UNIT_SOURCE})\\b`;
+const MAX_USAGE_PRICES = 20;
+const MAX_VOLUME_TABLES = 5;
+const MAX_VOLUME_TIERS = 20;
+
+type BillingPeriod = "month" | "year";
+type PriceQualifier = "per_seat" | "usage";
+
+interface ParsedPrice {
+  amount: number;
+  currency: string | null;
+  raw: string;
 }
 
-const COMPLIANCE_SIGNAL_PATTERNS = {
-  soc2: /\bsoc\s*2\b|\bsoc2\b/i,
-  iso27001: /\biso\s*27001\b/i,
-  gdpr: /\bgdpr\b|\bgeneral data protection regulation\b/i,
-  hipaa: /\bhipaa\b/i,
-  dpa: /\bdata processing agreement\b|\bdpa\b/i,
-  subprocessorList: /\bsubprocessors?\b/i,
-  sso: /\bsingle sign-on\b|\bsso\b/i,
-  scim: /\bscim\b/i,
-  encryption: /\bencrypt(?:ion|ed)\b|\bat rest\b|\bin transit\b/i,
-  dataResidency: /\bdata residency\b|\bdata region\b|\bregion(?:al)? storage\b/i,
-} as const;
+interface PricingPlan {
+  name: string;
+  // Null when the plan shows "Contact sales" or "Custom" instead of a price.
+  price: (ParsedPrice & { period: BillingPeriod | null; qualifier: PriceQualifier | null; billing: BillingCadence | null }) | null;
+  contactSales: boolean;
+  priceLabel: string | null;
+  features: string[];
+  cta: string | null;
+  source: "card" | "table" | "structured_data";
+  confidence: number;
+}
 
-function extractComplianceSignals(body: string) {
-  const signals = Object.fromEntries(
-    Object.entries(COMPLIANCE_SIGNAL_PATTERNS).map(([signal, pattern]) => [signal, pattern.test(body)]),
-  ) as Record<keyof typeof COMPLIANCE_SIGNAL_PATTERNS, boolean>;
+interface HtmlTextBlock {
+  tag: string;
+  text: string;
+  // Page chrome the block sits inside, so footer and menu links can be told apart from body copy.
+  landmark: PageRegion;
+}
 
-  const matchedSignals = Object.entries(signals)
-    .filter(([, matched]) => matched)
-    .map(([signal]) => signal);
+type PageRegion = "main" | "footer" | "navigation";
 
-  return { signals, matchedSignals };
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1] === "x" || code[1] === "X" ? Number.parseInt(code.slice(2), 16) : Number.parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return HTML_NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
 }
 
-function getSecurityHeaderSummary(headers: Headers) {
-  const summary = {
-    strictTransportSecurity: headers.get("strict-transport-security"),
-    contentSecurityPolicy: headers.get("content-security-policy"),
-    xFrameOptions: headers.get("x-frame-options"),
-    referrerPolicy: headers.get("referrer-policy"),
-    permissionsPolicy: headers.get("permissions-policy"),
-    xContentTypeOptions: headers.get("x-content-type-options"),
-    crossOriginOpenerPolicy: headers.get("cross-origin-opener-policy"),
-    crossOriginResourcePolicy: headers.get("cross-origin-resource-policy"),
+export function htmlToTextBlocks(html: string): HtmlTextBlock[] {
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(script|style|noscript|svg|template)\b[\s\S]*?<\/\1>/gi, " ");
+  const blocks: HtmlTextBlock[] = [];
+  const stack: string[] = [];
+  let buffer = "";
+  const flush = () => {
+    // Only ASCII whitespace is collapsed: no-break spaces group digits in "1 234,56 €".
+    const text = decodeHtmlEntities(buffer).replace(/[ \t\r\n\f]+/g, " ").trim();
+    const landmark = [...stack].reverse().find((tag) => tag === "footer" || tag === "nav");
+    if (text) blocks.push({ tag: stack[stack.length - 1] ?? "", text, landmark: landmark === "footer" ? "footer" : landmark === "nav" ? "navigation" : "main" });
+    buffer = "";
   };
 
-  const presentCount = Object.values(summary).filter((value) => Boolean(value)).length;
-  const missingRecommended = Object.entries(summary)
-    .filter(([, value]) => !value)
-    .map(([name]) => name);
+  let last = 0;
+  for (const match of cleaned.matchAll(/<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*?(\/?)>/g)) {
+    buffer += cleaned.slice(last, match.index);
+    last = match.index + match[0].length;
+    const tag = match[2].toLowerCase();
+    if (!HTML_BLOCK_TAGS.has(tag)) {
+      if (!HTML_JOINING_INLINE_TAGS.has(tag)) buffer += " ";
+      continue;
+    }
+    flush();
+    if (match[1]) {
+      const openIndex = stack.lastIndexOf(tag);
+      if (openIndex !== -1) stack.length = openIndex;
+    } else if (!match[3] && !HTML_VOID_TAGS.has(tag)) {
+      stack.push(tag);
+    }
+  }
+  buffer += cleaned.slice(last);
+  flush();
+  return blocks;
+}
 
-  const score = presentCount >= 6 ? "strong" : presentCount >= 3 ? "moderate" : "weak";
+/**
+ * Reads "1.234,56", "1,234.56", "1 234,56", and "12,99" the way the page's
+ * locale intends. When only one separator kind appears, it is a decimal mark
+ * if it appears once and either follows a lone zero ("0.023") or is not
+ * followed by exactly three digits.
+ */
+function parseLocalizedAmount(text: string): number | null {
+  const compact = text.replace(/[\s\u00a0\u202f']/g, "");
+  const lastDot = compact.lastIndexOf(".");
+  const lastComma = compact.lastIndexOf(",");
+  let decimalMark: "." | "," | null = null;
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimalMark = lastDot > lastComma ? "." : ",";
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const mark = lastDot !== -1 ? "." : ",";
+    const occurrences = compact.split(mark).length - 1;
+    const digitsAfter = compact.length - compact.lastIndexOf(mark) - 1;
+    decimalMark = occurrences === 1 && (digitsAfter !== 3 || /^0[.,]/.test(compact)) ? mark : null;
+  }
+  const withoutGrouping = compact.replace(decimalMark === "." ? /,/g : decimalMark === "," ? /\./g : /[.,]/g, "");
+  const amount = Number(decimalMark === "," ? withoutGrouping.replace(",", ".") : withoutGrouping);
+  return Number.isFinite(amount) ? amount : null;
+}
 
-  return {
-    headers: summary,
-    presentCount,
-    missingRecommended,
-    score,
-  };
+function priceFromMatch(match: RegExpMatchArray): ParsedPrice | null {
+  const token = match[1] ?? match[4];
+  const amount = parseLocalizedAmount(match[2] ?? match[3]);
+  if (amount === null) return null;
+  return { amount, currency: CURRENCY_SYMBOLS[token] ?? token.toUpperCase(), raw: match[0].trim() };
 }
 
-// --- Cloudflare Monetization Gateway x402 Helper Functions ---
+function parsePriceText(text: string): ParsedPrice | null {
+  const match = new RegExp(PRICE_SOURCE).exec(text);
+  if (match) {
+    return priceFromMatch(match);
+  }
+  if (/^free\b/i.test(text.trim())) {
+    return { amount: 0, currency: null, raw: "Free" };
+  }
+  return null;
+}
+
+// Group 1 is a monthly unit, group 2 a yearly one.
+const BILLING_PERIOD_PATTERN =
+  /(\/\s*(?:mo|month)\b|\bper\s+month\b|\bmonthly\b|\ba\s+month\b|\bmonth\b)|(\/\s*(?:yr|year)\b|\bper\s+year\b|\bannual(?:ly)?\b|\byearly\b|\ba\s+year\b)/i;
 
 /**
- * Get x402 payment requirements for a specific tool
+ * Reads the first period unit after the price, so "$1,200/year ($100/month)" is
+ * yearly. Falls back to the first unit anywhere when none follows the price.
  */
-async function getX402PaymentRequirements(toolName: string): Promise<X402PaymentRequirements[]> {
-  const normalizedNetwork = normalizeX402Network(X402_NETWORK_CONFIG);
-  const priceUSD = X402_TOOL_PRICES_USD[toolName as keyof typeof X402_TOOL_PRICES_USD];
-  
-  if (!priceUSD || !x402ResourceServer) {
-    return [];
+function detectBillingPeriod(text: string): BillingPeriod | null {
+  const price = new RegExp(PRICE_SOURCE).exec(text);
+  const match = (price && BILLING_PERIOD_PATTERN.exec(text.slice(price.index + price[0].length))) || BILLING_PERIOD_PATTERN.exec(text);
+  if (!match) return null;
+  return match[1] !== undefined ? "month" : "year";
+}
+
+/** Reads "billed annually" style copy; a yearly price is annual billing by definition. */
+function detectBillingCadence(text: string, period: BillingPeriod | null): BillingCadence | null {
+  if (/\bbilled\s+(?:annually|yearly|per\s+year|once\s+a\s+year)\b|\bpaid\s+(?:annually|yearly)\b|\bannual\s+(?:billing|commitment|contract)\b/i.test(text)) {
+    return "annual";
   }
-  
-  // Convert USD to atomic units (USDC has 6 decimals)
-  // For testnet, we'll use a small amount; for mainnet, actual pricing
-  const isTestnet = normalizedNetwork === "eip155:84532"; // base-sepolia
-  const amountInAtomicUnits = isTestnet 
-    ? "100" // 0.0001 USDC for testing
-    : String(Math.round(priceUSD * 1_000_000)); // Convert USD to USDC atomic units (6 decimals)
-  
-  const asset = isTestnet ? "0x0c9e55395b598813254324832f30322987287449" : "0xA0b86a33E6441b8b24c7e86e32B19C5D82cdDB2c"; // USDC addresses
-  
-  return [
-    {
-      scheme: "eip155:eip3009",
-      network: normalizedNetwork,
-      asset: asset,
-      amount: amountInAtomicUnits,
-      payTo: X402_RECIPIENT_CONFIG,
-      maxTimeoutSeconds: 60,
-      extra: {
-        facilitatorUrl: X402_FACILITATOR_URL_CONFIG,
-      },
+  if (/\bbilled\s+monthly\b|\bmonth[\s-]to[\s-]month\b|\bmonthly\s+billing\b/i.test(text)) return "monthly";
+  return period === "year" ? "annual" : null;
+}
+
+function detectPriceQualifier(text: string): PriceQualifier | null {
+  if (/\b(?:per|\/)\s*(?:user|seat|member|editor|agent|person)s?\b/i.test(text)) return "per_seat";
+  if (/\b(?:per|\/)\s*(?:\d[\d,]*\s*)?(?:request|call|token|credit|gb|tb|hour|minute|message|event|run|execution)s?\b/i.test(text)) return "usage";
+  return null;
+}
+
+function scorePlanConfidence(base: number, plan: Omit<PricingPlan, "confidence">): number {
+  let confidence = base;
+  if (PLAN_NAME_PATTERN.test(plan.name)) confidence += 0.15;
+  if (plan.price?.period || plan.contactSales) confidence += 0.15;
+  if (plan.features.length > 0) confidence += 0.1;
+  if (plan.cta) confidence += 0.1;
+  return +Math.min(confidence, 1).toFixed(2);
+}
+
+function extractCardPlans(blocks: { tag: string; text: string }[]): PricingPlan[] {
+  const isPlanHeading = (block: { tag: string; text: string }) =>
+    (/^h[2-5]$/.test(block.tag) && block.text.length <= 40 && !block.text.endsWith("?") && !parsePriceText(block.text))
+    || (block.text.length <= 25 && PLAN_NAME_PATTERN.test(block.text));
+  const headingIndexes = blocks.flatMap((block, index) => (isPlanHeading(block) ? [index] : []));
+
+  const plans: PricingPlan[] = [];
+  headingIndexes.forEach((headingIndex, position) => {
+    const heading = blocks[headingIndex];
+    const sectionEnd = Math.min(headingIndexes[position + 1] ?? blocks.length, headingIndex + 1 + PLAN_SECTION_MAX_BLOCKS);
+    const section = blocks.slice(headingIndex + 1, sectionEnd);
+    const lookahead = section.slice(0, PLAN_PRICE_LOOKAHEAD_BLOCKS);
+    const priceIndex = lookahead.findIndex((block) => block.text.length <= PLAN_PRICE_MAX_BLOCK_LENGTH && parsePriceText(block.text) !== null);
+    // An unpublished price counts only as a price-slot label or under a recognizable
+    // plan name; otherwise every "Contact us" link under a heading would become a plan.
+    const contactBlock = priceIndex === -1
+      ? lookahead.find((block) =>
+        CONTACT_SALES_PRICE_PATTERN.test(block.text)
+        && (PLAN_NAME_PATTERN.test(heading.text) || (block.tag !== "a" && block.tag !== "button")))
+      : undefined;
+    if (priceIndex === -1 && !contactBlock) return;
+
+    const features = [...new Set(
+      section
+        .filter((block) => block.tag === "li" && block.text.length >= 2 && block.text.length <= 120 && !parsePriceText(block.text))
+        .map((block) => block.text),
+    )].slice(0, MAX_PLAN_FEATURES);
+    const cta = section.find(
+      (block) => (block.tag === "a" || block.tag === "button") && block.text.length <= 40 && PLAN_CTA_PATTERN.test(block.text),
+    )?.text ?? null;
+    // Any short heading over a price would otherwise pass, such as "Frequently asked questions"
+    // over "Plans start at $20/month"; a card needs a plan name, a CTA, or a feature list.
+    if (!PLAN_NAME_PATTERN.test(heading.text) && !cta && features.length === 0) return;
+
+    let price: PricingPlan["price"] = null;
+    if (!contactBlock) {
+      // Periods and qualifiers are often split from the amount, e.g. "$12" then "per user / month".
+      const priceContext = section
+        .slice(priceIndex, priceIndex + 3)
+        .filter((block, offset) => offset === 0 || block.text.length <= 40)
+        .map((block) => block.text)
+        .join(" ");
+      const period = detectBillingPeriod(priceContext);
+      price = {
+        ...parsePriceText(section[priceIndex].text)!,
+        period,
+        qualifier: detectPriceQualifier(priceContext),
+        // "Billed annually" footnotes sit further below the price than its period does.
+        billing: detectBillingCadence(section.slice(priceIndex, priceIndex + 5).map((block) => block.text).join(" "), period),
+      };
     }
-  ];
+    const plan = {
+      name: heading.text,
+      price,
+      contactSales: Boolean(contactBlock),
+      priceLabel: contactBlock?.text ?? null,
+      features,
+      cta,
+      source: "card" as const,
+    };
+    plans.push({ ...plan, confidence: scorePlanConfidence(/^h[2-5]$/.test(heading.tag) ? 0.5 : 0.4, plan) });
+  });
+  return plans;
+}
+
+/** Each table as rows of cell text; nested tables are not supported. */
+function parseHtmlTables(html: string): string[][][] {
+  return [...html.matchAll(/<table\b[\s\S]*?<\/table>/gi)].map(([table]) =>
+    [...table.matchAll(/<tr\b[\s\S]*?<\/tr>/gi)].map(([row]) =>
+      [...row.matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi)].map((cell) =>
+        decodeHtmlEntities(cell[1].replace(/<[^>]+>/g, " ")).replace(/[ \t\r\n\f]+/g, " ").trim(),
+      ),
+    ),
+  );
+}
+
+function extractTablePlans(tables: string[][][]): PricingPlan[] {
+  const plans: PricingPlan[] = [];
+  for (const rows of tables) {
+    const header = rows[0];
+    if (!header || header.length < 2) continue;
+    const priceRow = rows.find((row) => row.slice(1).filter((cell) => parsePriceText(cell)).length >= 2);
+    if (!priceRow) continue;
+
+    for (let column = 1; column < header.length; column++) {
+      const cell = priceRow[column] ?? "";
+      const price = cell ? parsePriceText(cell) : null;
+      const contactSales = !price && CONTACT_SALES_PRICE_PATTERN.test(cell);
+      if (!header[column] || (!price && !contactSales)) continue;
+      const features = rows
+        .filter((row) => row !== priceRow && row[0] && TABLE_FEATURE_MARK_PATTERN.test(row[column] ?? ""))
+        .map((row) => row[0])
+        .slice(0, MAX_PLAN_FEATURES);
+      const period = detectBillingPeriod(cell);
+      const plan = {
+        name: header[column],
+        price: price && {
+          ...price,
+          period,
+          qualifier: detectPriceQualifier(cell),
+          billing: detectBillingCadence(cell, period),
+        },
+        contactSales,
+        priceLabel: contactSales ? cell : null,
+        features,
+        cta: null,
+        source: "table" as const,
+      };
+      plans.push({ ...plan, confidence: scorePlanConfidence(0.5, plan) });
+    }
+  }
+  return plans;
+}
+
+function extractPricingPlans(tables: string[][][], blocks: { tag: string; text: string }[]): PricingPlan[] {
+  const byName = new Map<string, PricingPlan>();
+  for (const plan of [...extractTablePlans(tables), ...extractCardPlans(blocks)]) {
+    const key = plan.name.toLowerCase();
+    const existing = byName.get(key);
+    if (!existing || plan.confidence > existing.confidence) byName.set(key, plan);
+  }
+  const plans = [...byName.values()];
+  // Without a single listed price this is not a pricing layout, so "Contact us" headings are noise.
+  return (plans.some((plan) => plan.price) ? plans : []).slice(0, MAX_PRICING_PLANS);
+}
+
+/** Reads "10K", "1.5M", "1,000", or "2 million" as a count. */
+function parseVolumeNumber(digits: string, suffix: string | undefined): number | null {
+  const base = parseLocalizedAmount(digits);
+  if (base === null) return null;
+  return base * (suffix ? VOLUME_SUFFIX_MULTIPLIERS[suffix.toLowerCase()] ?? 1 : 1);
+}
+
+function normalizeUsageUnit(text: string): { unit: string; factor: number } | null {
+  const spec = USAGE_UNITS.find((candidate) => candidate.pattern.test(text.trim()));
+  return spec ? { unit: spec.unit, factor: spec.factor ?? 1 } : null;
 }
 
 /**
- * Check if x402 payment is provided and valid
+ * Finds metered prices such as "$0.50 per 1K requests" or "€2 / million tokens" and
+ * normalizes them to a canonical unit, so "$20 per TB" reads as 1,000 gb.
  */
-async function checkX402Payment(
-  toolName: string, 
-  meta: Record<string, unknown> | undefined,
-  env: Env
-): Promise<{ valid: boolean; error?: unknown }> {
-  if (!X402_PAYMENT_ENABLED || !x402ResourceServer) {
-    return { valid: false };
+function extractUsagePricing(text: string) {
+  const usage = new Map<string, ParsedPrice & { unit: string; unitQuantity: number; amountPerUnit: number }>();
+  for (const match of text.matchAll(new RegExp(USAGE_PRICE_SOURCE, "gi"))) {
+    const price = priceFromMatch(match);
+    const unit = normalizeUsageUnit(match[8]);
+    if (!price || !unit) continue;
+    const count = match[5] ? parseVolumeNumber(match[5], match[6]) : match[7] ? VOLUME_SUFFIX_MULTIPLIERS[match[7].toLowerCase()] : 1;
+    if (!count) continue;
+    const unitQuantity = count * unit.factor;
+    const entry = {
+      ...price,
+      raw: match[0].trim(),
+      unit: unit.unit,
+      unitQuantity,
+      amountPerUnit: +(price.amount / unitQuantity).toPrecision(6),
+    };
+    const key = `${entry.currency} ${entry.amount} ${entry.unit} ${entry.unitQuantity}`;
+    if (!usage.has(key)) usage.set(key, entry);
   }
-  
-  const paymentToken = meta?.["x402/payment"] as string | undefined;
-  if (!paymentToken) {
-    return { valid: false };
+  return [...usage.values()].slice(0, MAX_USAGE_PRICES);
+}
+
+function parseVolumeRange(text: string): { from: number; to: number | null } | null {
+  const number = VOLUME_NUMBER_SOURCE;
+  const bounded = new RegExp(`^(?:from\\s+)?${number}\\s*(?:-|–|—|to)\\s*${number}`, "i").exec(text);
+  if (bounded) {
+    const from = parseVolumeNumber(bounded[1], bounded[2]);
+    const to = parseVolumeNumber(bounded[3], bounded[4]);
+    return from === null || to === null ? null : { from, to };
   }
-  
-  try {
-    const paymentRequirements = await getX402PaymentRequirements(toolName);
-    if (paymentRequirements.length === 0) {
-      return { valid: false };
-    }
-    
-    // Parse the base64-encoded payment payload
-    let paymentPayload: X402PaymentPayload;
+  const first = new RegExp(`^(?:first|up\\s+to|under|below|less\\s+than)\\s+${number}`, "i").exec(text);
+  if (first) {
+    const to = parseVolumeNumber(first[1], first[2]);
+    return to === null ? null : { from: 0, to };
+  }
+  const open = new RegExp(`^(?:over|above|more\\s+than|beyond)\\s+${number}|^${number}\\s*(?:\\+|(?:and|or)\\s+(?:above|more|over|up))`, "i").exec(text);
+  if (open) {
+    const from = parseVolumeNumber(open[1] ?? open[3], open[2] ?? open[4]);
+    return from === null ? null : { from, to: null };
+  }
+  return null;
+}
+
+/** Reads volume tables whose first column is a usage range ("0 – 10K", "First 1M", "10M+") with a price beside it. */
+function extractVolumeTiers(tables: string[][][]) {
+  const tiered: { unit: string | null; tiers: { from: number; to: number | null; amount: number; currency: string | null; raw: string }[] }[] = [];
+  for (const rows of tables) {
+    const tiers = rows.flatMap((row) => {
+      const range = row[0] ? parseVolumeRange(row[0]) : null;
+      const priceCell = row.slice(1).find((cell) => parsePriceText(cell));
+      const price = priceCell ? parsePriceText(priceCell) : null;
+      return range && price ? [{ ...range, amount: price.amount, currency: price.currency, raw: priceCell! }] : [];
+    });
+    if (tiers.length < 2) continue;
+    const unitText = rows.flat().join(" ");
+    const unitMatch = new RegExp(`\\b(${USAGE_UNIT_SOURCE})\\b`, "i").exec(unitText);
+    tiered.push({ unit: unitMatch ? normalizeUsageUnit(unitMatch[1])?.unit ?? null : null, tiers: tiers.slice(0, MAX_VOLUME_TIERS) });
+  }
+  return tiered.slice(0, MAX_VOLUME_TABLES);
+}
+
+// --- Billing toggles ---
+// Monthly/annual toggles usually render one price set and ship the other in page
+// data: Next.js props, schema.org offers, or data-* attributes on the price element.
+const MAX_EMBEDDED_JSON_NODES = 20000;
+// Real page data nests a dozen levels at most; deeper trees are skipped rather than overflowing the stack.
+const MAX_EMBEDDED_JSON_DEPTH = 32;
+const MAX_BILLING_OPTIONS = 24;
+const MONTHLY_PRICE_KEY_PATTERN =
+  /^(?:month(?:ly)?|per_?month|month(?:ly)?_?(?:price|amount|cost|rate)|(?:price|amount|cost)_?(?:month(?:ly)?|per_?month))$/i;
+const ANNUAL_PRICE_KEY_PATTERN =
+  /^(?:annual(?:ly)?|year(?:ly)?|per_?year|(?:annual(?:ly)?|year(?:ly)?)_?(?:price|amount|cost|rate)|(?:price|amount|cost)_?(?:annual(?:ly)?|year(?:ly)?|per_?year))$/i;
+const PLAN_NAME_KEYS = ["name", "title", "planName", "plan_name", "displayName", "tier", "nickname", "label"];
+const ADVERTISED_DISCOUNT_PATTERN = /\b(?:save|get)\s+(?:up\s+to\s+)?(\d{1,2}(?:\.\d)?)\s?%|(\d{1,2}(?:\.\d)?)\s?%\s+off\b/i;
+const ANNUAL_WORD_PATTERN = /\b(?:annual(?:ly)?|yearly|year|yr)\b/i;
+
+type BillingCadence = "monthly" | "annual";
+type BillingSource = "next_data" | "json_ld" | "data_attribute";
+
+/** One place on the page that states a plan's monthly and/or annual price. */
+interface EmbeddedBillingPrices {
+  plan: string | null;
+  currency: string | null;
+  monthly: number | null;
+  annual: number | null;
+  // "year" when the annual amount is the yearly total, "month" when it is a per-month
+  // rate billed annually, null when only the size of the number can tell.
+  annualBasis: BillingPeriod | null;
+  source: BillingSource;
+}
+
+interface BillingOption {
+  plan: string | null;
+  billing: BillingCadence;
+  amount: number;
+  currency: string | null;
+  perMonth: number | null;
+  perYear: number | null;
+  source: BillingSource;
+}
+
+interface BillingDiscount {
+  plan: string | null;
+  monthlyPerMonth: number;
+  annualPerMonth: number;
+  discountPercent: number;
+}
+
+function asJsonRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+function readPlanName(record: Record<string, unknown>): string | null {
+  for (const key of PLAN_NAME_KEYS) {
+    const value = record[key];
+    if (typeof value === "string" && value.trim() && value.length <= 60) return value.trim();
+  }
+  return null;
+}
+
+function readCurrencyCode(value: unknown): string | null {
+  return typeof value === "string" && /^[a-z]{3}$/i.test(value.trim()) ? value.trim().toUpperCase() : null;
+}
+
+/** Reads 12, "12", "$12", "12,99 €", or { amount: 12, currency: "USD" } as an amount. */
+function readEmbeddedAmount(value: unknown): { amount: number; currency: string | null } | null {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? { amount: value, currency: null } : null;
+  if (typeof value === "string") {
+    const price = parsePriceText(value);
+    if (price) return { amount: price.amount, currency: price.currency };
+    const amount = /^\d[\d.,\s]*$/.test(value.trim()) ? parseLocalizedAmount(value.trim()) : null;
+    return amount === null ? null : { amount, currency: null };
+  }
+  const record = asJsonRecord(value);
+  if (!record) return null;
+  const cents = record.unit_amount ?? record.unitAmount;
+  const inner = typeof cents === "number" ? { amount: cents / 100, currency: null } : readEmbeddedAmount(record.amount ?? record.value ?? record.price);
+  return inner && { amount: inner.amount, currency: inner.currency ?? readCurrencyCode(record.currency ?? record.priceCurrency) };
+}
+
+function readIntervalPeriod(value: unknown): BillingPeriod | null {
+  if (typeof value !== "string") return null;
+  if (/^(?:month|monthly|mo|P1M)$/i.test(value.trim())) return "month";
+  if (/^(?:year|yearly|annual|annually|yr|P1Y|P12M)$/i.test(value.trim())) return "year";
+  return null;
+}
+
+interface InheritedPlanContext {
+  name: string | null;
+  currency: string | null;
+}
+
+/**
+ * Calls visit for every JSON object, passing the nearest enclosing plan name and
+ * currency. Objects nested deeper than MAX_EMBEDDED_JSON_DEPTH are not visited.
+ */
+function visitJsonObjects(root: unknown, visit: (record: Record<string, unknown>, inherited: InheritedPlanContext) => void): void {
+  let budget = MAX_EMBEDDED_JSON_NODES;
+  const walk = (node: unknown, inherited: InheritedPlanContext, depth: number) => {
+    if (budget-- <= 0 || depth > MAX_EMBEDDED_JSON_DEPTH || node === null || typeof node !== "object") return;
+    if (Array.isArray(node)) {
+      for (const item of node) walk(item, inherited, depth + 1);
+      return;
+    }
+    const record = node as Record<string, unknown>;
+    visit(record, inherited);
+    const context = {
+      name: readPlanName(record) ?? inherited.name,
+      currency: readCurrencyCode(record.currency ?? record.priceCurrency) ?? inherited.currency,
+    };
+    for (const value of Object.values(record)) walk(value, context, depth + 1);
+  };
+  walk(root, { name: null, currency: null }, 0);
+}
+
+function parseEmbeddedJson(html: string, scriptPattern: RegExp): unknown[] {
+  return [...html.matchAll(scriptPattern)].flatMap((match) => {
     try {
-      const decoded = JSON.parse(atob(paymentToken));
-      paymentPayload = decoded as X402PaymentPayload;
-    } catch (e) {
-      console.error("Failed to decode x402 payment token:", e);
-      return { valid: false, error: "Invalid payment token format" };
+      return [JSON.parse(match[1].trim())];
+    } catch {
+      return [];
     }
-    
-    // Validate the payment payload using the x402 server
-    const validation = await x402ResourceServer.verifyPayment(
-      paymentPayload,
-      paymentRequirements[0] // Use first requirement
+  });
+}
+
+function billingPricesFromRecord(
+  record: Record<string, unknown>,
+  inherited: InheritedPlanContext,
+  source: BillingSource,
+): EmbeddedBillingPrices | null {
+  let monthly: { amount: number; currency: string | null } | null = null;
+  let annual: { amount: number; currency: string | null } | null = null;
+  for (const [key, value] of Object.entries(record)) {
+    if (!monthly && MONTHLY_PRICE_KEY_PATTERN.test(key)) monthly = readEmbeddedAmount(value);
+    else if (!annual && ANNUAL_PRICE_KEY_PATTERN.test(key)) annual = readEmbeddedAmount(value);
+  }
+  const plan = readPlanName(record) ?? inherited.name;
+  const recordCurrency = readCurrencyCode(record.currency ?? record.priceCurrency) ?? inherited.currency;
+  if (monthly || annual) {
+    return {
+      plan,
+      currency: monthly?.currency ?? annual?.currency ?? recordCurrency,
+      monthly: monthly?.amount ?? null,
+      annual: annual?.amount ?? null,
+      annualBasis: null,
+      source,
+    };
+  }
+
+  // Stripe-style price objects: { unit_amount: 1200, currency: "usd", recurring: { interval: "month" } }.
+  const period = readIntervalPeriod(record.interval ?? asJsonRecord(record.recurring)?.interval ?? record.billingPeriod ?? record.billing_period);
+  if (!period) return null;
+  const price = readEmbeddedAmount(record.unit_amount !== undefined ? { unit_amount: record.unit_amount } : record.amount ?? record.price);
+  if (!price) return null;
+  return {
+    plan,
+    currency: price.currency ?? recordCurrency,
+    monthly: period === "month" ? price.amount : null,
+    annual: period === "year" ? price.amount : null,
+    annualBasis: "year",
+    source,
+  };
+}
+
+function jsonLdBillingPeriod(record: Record<string, unknown>): BillingPeriod | null {
+  const duration = record.billingDuration;
+  const durationRecord = asJsonRecord(duration);
+  const unitCodes = [record.unitCode, durationRecord?.unitCode, asJsonRecord(record.referenceQuantity)?.unitCode];
+  if (unitCodes.includes("MON")) return "month";
+  if (unitCodes.includes("ANN")) return "year";
+  const fromDuration = readIntervalPeriod(duration);
+  if (fromDuration) return fromDuration;
+  const text = [record.unitText, record.name, record.description].filter((value) => typeof value === "string").join(" ");
+  return text ? detectBillingPeriod(text) : null;
+}
+
+function billingPricesFromJsonLdOffer(record: Record<string, unknown>, inherited: InheritedPlanContext): EmbeddedBillingPrices[] {
+  const types = ([] as unknown[]).concat(record["@type"]);
+  if (!types.includes("Offer") && !types.includes("AggregateOffer")) return [];
+  const plan = readPlanName(record) ?? inherited.name;
+  const specifications = ([] as unknown[]).concat(record.priceSpecification ?? record).flatMap((spec) => {
+    const specRecord = asJsonRecord(spec);
+    return specRecord ? [specRecord] : [];
+  });
+  return specifications.flatMap((spec) => {
+    const period = jsonLdBillingPeriod(spec) ?? jsonLdBillingPeriod(record);
+    const price = readEmbeddedAmount(spec.price ?? spec.lowPrice);
+    if (!period || !price) return [];
+    return [{
+      plan,
+      currency: price.currency ?? readCurrencyCode(spec.priceCurrency ?? record.priceCurrency) ?? inherited.currency,
+      monthly: period === "month" ? price.amount : null,
+      annual: period === "year" ? price.amount : null,
+      annualBasis: "year" as const,
+      source: "json_ld" as const,
+    }];
+  });
+}
+
+function billingPricesFromDataAttributes(html: string): EmbeddedBillingPrices[] {
+  const entries: EmbeddedBillingPrices[] = [];
+  for (const [tag] of html.matchAll(/<[a-z][a-z0-9-]*\s[^>]*\bdata-[\w-]*(?:month|annual|year)[\w-]*\s*=[^>]*>/gi)) {
+    const attributes: Record<string, unknown> = {};
+    for (const attribute of tag.matchAll(/\bdata-([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[attribute[1].toLowerCase().replace(/-/g, "_")] = decodeHtmlEntities(attribute[2] ?? attribute[3]);
+    }
+    const name = attributes.plan ?? attributes.plan_name ?? attributes.tier ?? attributes.name;
+    const entry = billingPricesFromRecord(
+      attributes,
+      { name: typeof name === "string" && name.trim() ? name.trim() : null, currency: null },
+      "data_attribute",
     );
-    
-    if (validation.isValid) {
-      return { valid: true };
-    } else {
-      return { 
-        valid: false, 
-        error: validation.invalidMessage || validation.invalidReason || "Payment verification failed"
-      };
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+function findAdvertisedAnnualDiscount(blocks: { tag: string; text: string }[]): number | null {
+  for (const [index, block] of blocks.entries()) {
+    if (block.text.length > 80) continue;
+    const match = ADVERTISED_DISCOUNT_PATTERN.exec(block.text);
+    if (!match) continue;
+    // Toggle badges often sit next to the "Annual" label rather than inside it.
+    const nearby = [blocks[index - 1], block, blocks[index + 1]].filter((near) => near && near.text.length <= 80);
+    if (nearby.some((near) => ANNUAL_WORD_PATTERN.test(near.text))) return Number(match[1] ?? match[2]);
+  }
+  return null;
+}
+
+function toBillingOptions(entry: EmbeddedBillingPrices): { options: BillingOption[]; discount: BillingDiscount | null } {
+  const round = (value: number) => +value.toFixed(2);
+  const options: BillingOption[] = [];
+  const { plan, currency, source } = entry;
+  if (entry.monthly !== null) {
+    options.push({
+      plan,
+      billing: "monthly",
+      amount: entry.monthly,
+      currency,
+      perMonth: entry.monthly,
+      perYear: round(entry.monthly * 12),
+      source,
+    });
+  }
+  if (entry.annual === null) return { options, discount: null };
+
+  // Without a stated basis, an annual figure well above the monthly price is a yearly total.
+  const basis = entry.annualBasis ?? (entry.monthly !== null ? (entry.annual > entry.monthly * 2 ? "year" : "month") : null);
+  const perMonth = basis === "year" ? round(entry.annual / 12) : basis === "month" ? entry.annual : null;
+  options.push({
+    plan,
+    billing: "annual",
+    amount: entry.annual,
+    currency,
+    perMonth,
+    perYear: basis === "year" ? entry.annual : basis === "month" ? round(entry.annual * 12) : null,
+    source,
+  });
+  if (entry.monthly === null || entry.monthly <= 0 || perMonth === null || perMonth > entry.monthly) return { options, discount: null };
+  return {
+    options,
+    discount: {
+      plan: entry.plan,
+      monthlyPerMonth: entry.monthly,
+      annualPerMonth: perMonth,
+      discountPercent: +((1 - perMonth / entry.monthly) * 100).toFixed(1),
+    },
+  };
+}
+
+/**
+ * Collects monthly and annual price sets shipped with the page and the annual
+ * discount they imply. Single-period entries for the same named plan (one
+ * JSON-LD offer per period, one Stripe price per interval) are paired up.
+ */
+export function extractBillingOptions(html: string, blocks: { tag: string; text: string }[]) {
+  const entries: EmbeddedBillingPrices[] = [];
+  for (const data of parseEmbeddedJson(html, /<script\b[^>]*\bid=["']__NEXT_DATA__["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    visitJsonObjects(data, (record, inherited) => {
+      const entry = billingPricesFromRecord(record, inherited, "next_data");
+      if (entry) entries.push(entry);
+    });
+  }
+  for (const data of parseEmbeddedJson(html, JSON_LD_SCRIPT_PATTERN)) {
+    visitJsonObjects(data, (record, inherited) => entries.push(...billingPricesFromJsonLdOffer(record, inherited)));
+  }
+  entries.push(...billingPricesFromDataAttributes(html));
+
+  const merged: EmbeddedBillingPrices[] = [];
+  const byPlan = new Map<string, EmbeddedBillingPrices>();
+  for (const entry of entries) {
+    const key = entry.plan ? `${entry.source}:${entry.plan.toLowerCase()}` : null;
+    const existing = key ? byPlan.get(key) : undefined;
+    if (existing && (existing.monthly === null || entry.monthly === null) && (existing.annual === null || entry.annual === null)) {
+      existing.monthly ??= entry.monthly;
+      if (existing.annual === null && entry.annual !== null) {
+        existing.annual = entry.annual;
+        existing.annualBasis = entry.annualBasis;
+      }
+      existing.currency ??= entry.currency;
+      continue;
     }
-  } catch (error) {
-    console.error("x402 payment validation error:", error);
-    return { valid: false, error };
+    if (existing) continue;
+    const copy = { ...entry };
+    merged.push(copy);
+    if (key) byPlan.set(key, copy);
   }
+
+  const resolved = merged.map(toBillingOptions);
+  const options = resolved.flatMap((item) => item.options).slice(0, MAX_BILLING_OPTIONS);
+  const discounts = resolved.flatMap((item) => (item.discount ? [item.discount] : []));
+  return {
+    toggleDetected: merged.some((entry) => entry.monthly !== null && entry.annual !== null),
+    options,
+    discounts,
+    annualDiscountPercent: discounts.length > 0 ? Math.max(...discounts.map((item) => item.discountPercent)) : null,
+    advertisedAnnualDiscountPercent: findAdvertisedAnnualDiscount(blocks),
+  };
 }
 
+const STRUCTURED_PLAN_CONFIDENCE = 0.9;
+const CORROBORATED_PLAN_CONFIDENCE = 0.95;
+
 /**
- * Get x402 metadata for tool responses
+ * Cross-checks visible plans against schema.org offers. A plan whose name and amount
+ * match an offer is raised to high confidence; priced offers with no visible plan
+ * are added as structured_data plans.
  */
-function getX402Metadata(toolName: string): Record<string, unknown> {
-  const priceUSD = X402_TOOL_PRICES_USD[toolName as keyof typeof X402_TOOL_PRICES_USD];
-  const normalizedNetwork = normalizeX402Network(X402_NETWORK_CONFIG);
-  
-  if (!priceUSD || !X402_PAYMENT_ENABLED) {
-    return {};
+function mergeStructuredOffers(plans: PricingPlan[], offers: StructuredOffer[]): PricingPlan[] {
+  const merged = [...plans];
+  for (const offer of offers) {
+    const name = offer.name ?? offer.itemName;
+    if (!name || offer.amount === null) continue;
+    const key = name.toLowerCase();
+    const index = merged.findIndex((plan) => plan.name.toLowerCase() === key || key.endsWith(` ${plan.name.toLowerCase()}`));
+    if (index !== -1) {
+      if (merged[index].price?.amount === offer.amount) {
+        merged[index] = { ...merged[index], confidence: Math.max(merged[index].confidence, CORROBORATED_PLAN_CONFIDENCE) };
+      }
+      continue;
+    }
+    if (merged.length >= MAX_PRICING_PLANS) continue;
+    merged.push({
+      name,
+      price: {
+        amount: offer.amount,
+        currency: offer.currency,
+        raw: `${offer.amount}${offer.currency ? ` ${offer.currency}` : ""}`,
+        period: offer.period,
+        qualifier: null,
+        billing: offer.period === "year" ? "annual" : null,
+      },
+      contactSales: false,
+      priceLabel: null,
+      features: [],
+      cta: null,
+      source: "structured_data",
+      confidence: STRUCTURED_PLAN_CONFIDENCE,
+    });
   }
-  
+  return merged;
+}
+
+/** Labels a card price the card is silent about by matching it against the page's embedded price sets. */
+function labelPlanBilling(plan: PricingPlan, discounts: BillingDiscount[]): PricingPlan {
+  if (!plan.price || plan.price.billing || plan.price.period !== "month") return plan;
+  const match = discounts.find((discount) => discount.plan?.toLowerCase() === plan.name.toLowerCase());
+  const billing = match?.annualPerMonth === plan.price.amount ? "annual" : match?.monthlyPerMonth === plan.price.amount ? "monthly" : null;
+  return billing ? { ...plan, price: { ...plan.price, billing } } : plan;
+}
+
+/** USD per one unit of each ISO currency, as supplied by the caller. */
+type ExchangeRates = Record<string, number>;
+
+/**
+ * Converts with six significant digits rather than to cents, so metered prices
+ * such as "€0.0004 per token" keep their value. The per-unit price of a usage
+ * price is converted alongside the headline amount.
+ */
+export function withUsdAmount<T extends { amount: number; currency: string | null; amountPerUnit?: number }>(
+  price: T,
+  exchangeRates: ExchangeRates | undefined,
+): T & { amountUsd?: number; amountPerUnitUsd?: number } {
+  if (!exchangeRates) return price;
+  const rate = price.currency === "USD" || price.amount === 0 ? 1 : price.currency ? exchangeRates[price.currency] : undefined;
+  if (rate === undefined) return price;
+  const toUsd = (amount: number) => +(amount * rate).toPrecision(6);
   return {
-    "agents-x402/paymentRequired": true,
-    "agents-x402/priceUSD": priceUSD,
-    "agents-x402/network": normalizedNetwork,
-    "agents-x402/asset": normalizedNetwork === "eip155:84532" ? "Test USDC" : "USDC",
-    "agents-x402/priceAmount": priceUSD,
-    "agents-x402/priceCurrency": "USD",
-    "agents-x402/payTo": X402_RECIPIENT_CONFIG,
+    ...price,
+    amountUsd: toUsd(price.amount),
+    ...(price.amountPerUnit === undefined ? {} : { amountPerUnitUsd: toUsd(price.amountPerUnit) }),
   };
 }
 
-// --- Error handling functions ---
+export function extractPricingSignals(body: string, exchangeRates?: ExchangeRates) {
+  const text = decodeHtmlEntities(body);
+  const priceMatches = [...text.matchAll(new RegExp(`(?:${PRICE_SOURCE})${PRICE_SUFFIX_SOURCE}`, "g"))];
+  const pricesFound = [...new Set(priceMatches.map((match) => match[0].trim()))].slice(0, 20);
+  const prices = [...new Map(
+    priceMatches.flatMap((match) => {
+      const price = priceFromMatch(match);
+      return price ? [[`${price.currency} ${price.amount}`, withUsdAmount(price, exchangeRates)] as const] : [];
+    }),
+  ).values()].slice(0, 20);
+  const blocks = htmlToTextBlocks(body);
+  const tables = parseHtmlTables(body);
+  const billing = extractBillingOptions(body, blocks);
+  const structuredOffers = extractStructuredData(body).offers;
+  const planRegex = /(?:free|starter|basic|pro|premium|enterprise|business|team|hobby|growth|scale)\s*(?:plan|tier)?/gi;
+  const plansDetected = [...new Set((body.match(planRegex) || []).map((match) => match.trim().toLowerCase()))];
+  const plans = mergeStructuredOffers(extractPricingPlans(tables, blocks), structuredOffers);
 
-function getJsonRpcErrorCode(status: number): number {
-  switch (status) {
-    case 401:
-      return -32001;
-    case 402:
-      return -32002;
-    case 429:
-      return -32029;
-    default:
-      return -32000;
+  return {
+    pricesFound,
+    prices,
+    plansDetected,
+    hasFreeOption: /free\s*(?:plan|tier|forever|trial)|(?:[$€£¥₹]0|0[.,]00)/i.test(body),
+    hasFreeTrial: /free\s*trial|try\s*(?:it\s*)?free|start\s*free/i.test(body),
+    pageLength: body.length,
+    structuredOffers: structuredOffers.flatMap((offer) =>
+      offer.amount === null ? [] : [withUsdAmount({ ...offer, amount: offer.amount }, exchangeRates)],
+    ),
+    plans: plans.map((plan) => {
+      const labeled = labelPlanBilling(plan, billing.discounts);
+      return { ...labeled, price: labeled.price && withUsdAmount(labeled.price, exchangeRates) };
+    }),
+    contactSalesPlans: plans.filter((plan) => plan.contactSales).map((plan) => plan.name),
+    billing: { ...billing, options: billing.options.map((option) => withUsdAmount(option, exchangeRates)) },
+    // Blocks are joined so "$0.50" and "per 1K requests" in sibling elements still pair up.
+    usagePricing: extractUsagePricing(blocks.map((block) => block.text).join(" ")).map((price) => withUsdAmount(price, exchangeRates)),
+    volumeTiers: extractVolumeTiers(tables),
+  };
+}
+
+// --- Structured data ---
+// JSON-LD, microdata, and OpenGraph/Twitter meta are written for search engines and
+// link previews, so names and prices there are stated outright rather than inferred
+// from layout. Microdata items are rebuilt in JSON-LD shape so one set of summarizers
+// reads both.
+const JSON_LD_SCRIPT_PATTERN = /<script\b[^>]*\btype=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+const MAX_STRUCTURED_ITEMS = 20;
+const MAX_FAQ_QUESTIONS = 30;
+const MAX_SOCIAL_META_TAGS = 40;
+const MAX_STRUCTURED_TEXT_LENGTH = 500;
+const MAX_CLAIM_STRUCTURED_FACTS = 10;
+// verify_claim weighs a source supported only by raw page text below one backed by structured data.
+const PAGE_TEXT_SUPPORT_WEIGHT = 0.75;
+const MICRODATA_VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr",
+]);
+const PRODUCT_TYPES = new Set(["Product", "ProductGroup", "IndividualProduct"]);
+const OFFER_TYPES = new Set(["Offer", "AggregateOffer"]);
+const ORGANIZATION_TYPES = new Set(["Organization", "Corporation", "OnlineBusiness", "OnlineStore", "LocalBusiness", "NGO"]);
+const SOFTWARE_APPLICATION_TYPES = new Set(["SoftwareApplication", "WebApplication", "MobileApplication"]);
+
+type StructuredDataSource = "json_ld" | "microdata";
+
+interface StructuredOffer {
+  itemName: string | null;
+  name: string | null;
+  amount: number | null;
+  currency: string | null;
+  period: BillingPeriod | null;
+  availability: string | null;
+  url: string | null;
+  source: StructuredDataSource;
+}
+
+interface StructuredRating {
+  value: number;
+  count: number | null;
+}
+
+function parseHtmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s"'=<>\/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) attributes[name] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/** "https://schema.org/Product" and "schema:Product" both become "Product". */
+function schemaTypes(record: Record<string, unknown>): string[] {
+  return ([] as unknown[]).concat(record["@type"] ?? [])
+    .flatMap((type) => (typeof type === "string" ? [type.replace(/^.*[/#:]/, "")] : []))
+    .filter(Boolean);
+}
+
+function schemaText(value: unknown, depth = 0): string | null {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (typeof first === "number" && Number.isFinite(first)) return String(first);
+  if (typeof first === "string") {
+    const text = decodeHtmlEntities(first.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+    return text ? text.slice(0, MAX_STRUCTURED_TEXT_LENGTH) : null;
+  }
+  const record = asJsonRecord(first);
+  return record && depth < MAX_EMBEDDED_JSON_DEPTH ? schemaText(record.name ?? record["@value"] ?? record.text, depth + 1) : null;
+}
+
+function schemaRating(value: unknown): StructuredRating | null {
+  const record = asJsonRecord(value);
+  const rating = record ? Number(schemaText(record.ratingValue)) : Number.NaN;
+  if (!record || !Number.isFinite(rating)) return null;
+  const count = Number(schemaText(record.reviewCount ?? record.ratingCount));
+  return { value: rating, count: Number.isFinite(count) ? count : null };
+}
+
+/** Rebuilds itemscope/itemprop trees from the tag stream, JSON-LD style. */
+function extractMicrodataItems(html: string): Record<string, unknown>[] {
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, " ");
+  const roots: Record<string, unknown>[] = [];
+  type PendingText = { item: Record<string, unknown>; names: string[]; start: number };
+  const stack: { tag: string; item: Record<string, unknown> | null; pendingText: PendingText | null }[] = [];
+  const addProperty = (item: Record<string, unknown>, names: string[], value: unknown) => {
+    for (const name of names) {
+      const existing = item[name];
+      item[name] = existing === undefined ? value : ([] as unknown[]).concat(existing, value);
+    }
+  };
+
+  for (const match of cleaned.matchAll(/<(\/?)([a-zA-Z][a-zA-Z0-9-]*)\b([^>]*?)(\/?)>/g)) {
+    const tag = match[2].toLowerCase();
+    if (match[1]) {
+      const openIndex = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (openIndex === -1) continue;
+      for (const element of stack.splice(openIndex).reverse()) {
+        if (element.pendingText) {
+          const text = schemaText(cleaned.slice(element.pendingText.start, match.index));
+          if (text) addProperty(element.pendingText.item, element.pendingText.names, text);
+        }
+      }
+      continue;
+    }
+
+    const attributes = parseHtmlAttributes(match[3]);
+    const parent = [...stack].reverse().find((element) => element.item)?.item ?? null;
+    const names = attributes.itemprop?.split(/\s+/).filter(Boolean) ?? [];
+    const isVoid = Boolean(match[4]) || MICRODATA_VOID_TAGS.has(tag);
+    let item: Record<string, unknown> | null = null;
+    let pendingText: PendingText | null = null;
+    if ("itemscope" in attributes) {
+      item = { "@type": (attributes.itemtype ?? "").split(/\s+/).filter(Boolean) };
+      if (parent && names.length > 0) addProperty(parent, names, item);
+      else if (roots.length < MAX_STRUCTURED_ITEMS) roots.push(item);
+    } else if (parent && names.length > 0) {
+      const value = attributes.content ?? attributes.href ?? attributes.src ?? attributes.datetime ?? attributes.value;
+      if (value !== undefined) addProperty(parent, names, value);
+      else if (!isVoid) pendingText = { item: parent, names, start: match.index + match[0].length };
+    }
+    if (!isVoid) stack.push({ tag, item, pendingText });
+  }
+  return roots;
+}
+
+function extractSocialMeta(html: string): { openGraph: Record<string, string>; twitter: Record<string, string> } {
+  const openGraph: Record<string, string> = {};
+  const twitter: Record<string, string> = {};
+  for (const [, source] of html.matchAll(/<meta\b([^>]*)>/gi)) {
+    const attributes = parseHtmlAttributes(source);
+    const key = (attributes.property ?? attributes.name ?? "").toLowerCase();
+    const content = attributes.content?.trim();
+    if (!content) continue;
+    // OpenGraph product and article fields ("product:price:amount") ride along with og:*.
+    const target = /^(?:og|product|article):/.test(key) ? openGraph : key.startsWith("twitter:") ? twitter : null;
+    if (target && !(key in target) && Object.keys(target).length < MAX_SOCIAL_META_TAGS) {
+      target[key] = content.slice(0, MAX_STRUCTURED_TEXT_LENGTH);
+    }
+  }
+  return { openGraph, twitter };
+}
+
+/**
+ * Extracts JSON-LD, microdata, and OpenGraph/Twitter meta from a page and returns
+ * typed summaries for products, offers, organizations, software applications,
+ * and FAQ entries. Offers carry the name of the product or app they belong to.
+ */
+export function extractStructuredData(html: string) {
+  const jsonLdBlocks = [...html.matchAll(JSON_LD_SCRIPT_PATTERN)].length;
+  const jsonLd = parseEmbeddedJson(html, JSON_LD_SCRIPT_PATTERN);
+  const microdata = extractMicrodataItems(html);
+
+  const types = new Set<string>();
+  const products: { name: string | null; brand: string | null; description: string | null; sku: string | null; rating: StructuredRating | null; source: StructuredDataSource }[] = [];
+  const offers: StructuredOffer[] = [];
+  const organizations: { name: string | null; url: string | null; logo: string | null; sameAs: string[]; email: string | null; telephone: string | null; source: StructuredDataSource }[] = [];
+  const softwareApplications: { name: string | null; applicationCategory: string | null; operatingSystem: string | null; rating: StructuredRating | null; source: StructuredDataSource }[] = [];
+  const faqs: { question: string; answer: string | null; source: StructuredDataSource }[] = [];
+
+  const summarize = (record: Record<string, unknown>, inherited: InheritedPlanContext, source: StructuredDataSource) => {
+    const recordTypes = schemaTypes(record);
+    recordTypes.forEach((type) => types.add(type));
+    const is = (set: Set<string>) => recordTypes.some((type) => set.has(type));
+    if (is(PRODUCT_TYPES)) {
+      products.push({
+        name: schemaText(record.name),
+        brand: schemaText(record.brand),
+        description: schemaText(record.description),
+        sku: schemaText(record.sku),
+        rating: schemaRating(record.aggregateRating),
+        source,
+      });
+    }
+    if (is(OFFER_TYPES)) {
+      const specification = asJsonRecord(([] as unknown[]).concat(record.priceSpecification ?? [])[0]);
+      const price = readEmbeddedAmount(record.price ?? record.lowPrice ?? specification?.price);
+      offers.push({
+        itemName: inherited.name,
+        name: schemaText(record.name),
+        amount: price?.amount ?? null,
+        currency: price?.currency ?? readCurrencyCode(record.priceCurrency ?? specification?.priceCurrency) ?? inherited.currency,
+        period: (specification ? jsonLdBillingPeriod(specification) : null) ?? jsonLdBillingPeriod(record),
+        availability: schemaText(record.availability)?.replace(/^.*[/#:]/, "") ?? null,
+        url: schemaText(record.url),
+        source,
+      });
+    }
+    if (is(ORGANIZATION_TYPES)) {
+      organizations.push({
+        name: schemaText(record.name),
+        url: schemaText(record.url),
+        logo: schemaText(asJsonRecord(record.logo)?.url ?? record.logo),
+        sameAs: ([] as unknown[]).concat(record.sameAs ?? []).flatMap((link) => schemaText(link) ?? []).slice(0, 20),
+        email: schemaText(record.email),
+        telephone: schemaText(record.telephone),
+        source,
+      });
+    }
+    if (is(SOFTWARE_APPLICATION_TYPES)) {
+      softwareApplications.push({
+        name: schemaText(record.name),
+        applicationCategory: schemaText(record.applicationCategory),
+        operatingSystem: schemaText(record.operatingSystem),
+        rating: schemaRating(record.aggregateRating),
+        source,
+      });
+    }
+    if (recordTypes.includes("FAQPage")) {
+      for (const entry of ([] as unknown[]).concat(record.mainEntity ?? [])) {
+        const question = asJsonRecord(entry);
+        const text = question ? schemaText(question.name) : null;
+        if (!question || !text) continue;
+        faqs.push({ question: text, answer: schemaText(asJsonRecord(([] as unknown[]).concat(question.acceptedAnswer ?? [])[0])?.text), source });
+      }
+    }
+  };
+  for (const root of jsonLd) visitJsonObjects(root, (record, inherited) => summarize(record, inherited, "json_ld"));
+  for (const root of microdata) visitJsonObjects(root, (record, inherited) => summarize(record, inherited, "microdata"));
+
+  return {
+    types: [...types].slice(0, 50),
+    jsonLdBlocks,
+    invalidJsonLdBlocks: jsonLdBlocks - jsonLd.length,
+    microdataItems: microdata.length,
+    products: products.slice(0, MAX_STRUCTURED_ITEMS),
+    offers: offers.slice(0, MAX_STRUCTURED_ITEMS),
+    organizations: organizations.slice(0, MAX_STRUCTURED_ITEMS),
+    softwareApplications: softwareApplications.slice(0, MAX_STRUCTURED_ITEMS),
+    faqs: faqs.slice(0, MAX_FAQ_QUESTIONS),
+    ...extractSocialMeta(html),
+  };
+}
+
+type StructuredData = ReturnType<typeof extractStructuredData>;
+
+/** Flattens structured data into labeled text facts for keyword matching. */
+function structuredDataFacts(data: StructuredData): { type: string; property: string; value: string }[] {
+  const facts: { type: string; property: string; value: string }[] = [];
+  const add = (type: string, property: string, value: string | null) => {
+    if (value) facts.push({ type, property, value });
+  };
+  for (const product of data.products) {
+    add("Product", "name", product.name);
+    add("Product", "brand", product.brand);
+    add("Product", "description", product.description);
+  }
+  for (const offer of data.offers) {
+    const label = [offer.itemName, offer.name].filter(Boolean).join(" - ") || null;
+    add("Offer", "name", label);
+    if (offer.amount !== null) {
+      add("Offer", "price", `${label ? `${label}: ` : ""}${offer.amount}${offer.currency ? ` ${offer.currency}` : ""}${offer.period ? ` per ${offer.period}` : ""}`);
+    }
+  }
+  for (const organization of data.organizations) {
+    add("Organization", "name", organization.name);
+    add("Organization", "url", organization.url);
+    organization.sameAs.forEach((link) => add("Organization", "sameAs", link));
+  }
+  for (const app of data.softwareApplications) {
+    add("SoftwareApplication", "name", app.name);
+    add("SoftwareApplication", "applicationCategory", app.applicationCategory);
+    add("SoftwareApplication", "operatingSystem", app.operatingSystem);
+  }
+  for (const faq of data.faqs) {
+    add("FAQPage", "question", faq.question);
+    add("FAQPage", "answer", faq.answer);
+  }
+  for (const [key, value] of Object.entries(data.openGraph)) add("OpenGraph", key, value);
+  for (const [key, value] of Object.entries(data.twitter)) add("Twitter", key, value);
+  return facts;
+}
+
+// --- Claim evidence passages ---
+// verify_claim scores each sentence of the page text rather than the page as a whole,
+// so keywords scattered across a page no longer add up to support.
+const MAX_CLAIM_PASSAGES = 3;
+const MAX_CLAIM_SENTENCES = 3000;
+const MAX_CLAIM_SENTENCE_LENGTH = 500;
+// Share of keywords a passage must contain, after proximity weighting, to support a claim.
+const CLAIM_PASSAGE_SUPPORT_THRESHOLD = 0.5;
+// Keywords spread over more characters than this lose up to a fifth of the passage score.
+const CLAIM_PROXIMITY_SPAN = 120;
+const CLAIM_NEGATION_PATTERN =
+  /\b(?:not|no longer|never|no|none|cannot|can't|doesn't|don't|isn't|aren't|wasn't|weren't|won't|discontinued|deprecated|removed|retired|unavailable|unsupported|excluded?)\b/i;
+const CLAIM_HEDGE_PATTERN =
+  /\b(?:coming soon|soon|planned|plans? to|on (?:our|the) roadmap|roadmap|beta|preview|early access|waitlist|may|might|could|expected to|in the future|upcoming|later this year|subject to)\b/i;
+// A negation or hedge only counts when it governs a matched keyword: within a few words
+// before it, or later in the same clause. After the keyword only verb negations count, so
+// "supports SAML SSO with no setup fees" stays affirmative while "SAML SSO is not supported"
+// does not.
+const CLAIM_CUE_WORDS_BEFORE = 4;
+const CLAIM_CUE_CHARS_AFTER = 40;
+const CLAIM_CLAUSE_BREAK_PATTERN = /[.!?;,](?=\s|$)/;
+const CLAIM_NEGATION_AFTER_PATTERN =
+  /\b(?:not|no longer|never|cannot|can't|doesn't|don't|isn't|aren't|wasn't|weren't|won't|discontinued|deprecated|removed|retired|unavailable|unsupported|excluded?)\b/i;
+
+// Derived keywords: numbers (with currency, percent, or unit), runs of capitalized words,
+// and short runs of remaining content words. Numeric facts weigh double in passage scores.
+const MAX_DERIVED_CLAIM_KEYWORDS = 20;
+const CLAIM_NUMBER_KEYWORD_WEIGHT = 2;
+const CLAIM_NUMBER_FACT_PATTERN =
+  /(?<![\w.])([$€£¥]\s?)?(\d+\/\d+|\d[\d,]*(?:\.\d+)?)(\s?%|\s?(?:k|m|bn|x)\b)?(?:\s?(per (?:month|year|user|seat|hour|day)|\/(?:month|mo|year|yr|user|seat)\b|(?:cents?|ms|seconds?|minutes?|hours?|days?|weeks?|months?|years?|[kmgt]b|users?|seats?|requests?|regions?|languages?|countries)\b))?/gi;
+const CLAIM_STOPWORDS = new Set([
+  "a", "about", "after", "all", "also", "an", "and", "any", "are", "as", "at", "be", "been", "being", "both",
+  "but", "by", "can", "charge", "charges", "come", "comes", "cost", "costs", "did", "do", "does", "each",
+  "every", "for", "from", "give", "gives", "had", "has", "have", "in", "include", "includes", "including",
+  "into", "is", "it", "its", "month", "of", "offer", "offers", "on", "only", "or", "our", "over", "per",
+  "provide", "provides", "same", "so", "supports", "than", "that", "the", "their", "them", "there", "these",
+  "they", "this", "those", "through", "to", "under", "up", "upon", "via", "was", "were", "which", "while",
+  "who", "will", "with", "within", "without", "year", "you", "your",
+]);
+
+interface ClaimKeyword {
+  term: string;
+  kind: "number" | "entity" | "phrase" | "term";
+  weight: number;
+  unit?: string;
+}
+
+function sumClaimKeywordWeights(keywords: ClaimKeyword[]): number {
+  return keywords.reduce((total, keyword) => total + keyword.weight, 0);
+}
+
+function toClaimKeyword(term: string): ClaimKeyword {
+  return /\d/.test(term)
+    ? { term, kind: "number", weight: CLAIM_NUMBER_KEYWORD_WEIGHT }
+    : { term, kind: "term", weight: 1 };
+}
+
+/**
+ * Derives keywords from the claim text when the caller supplies none. Numbers keep
+ * their currency or percent sign and report any trailing unit separately, since pages
+ * write units inconsistently ("$49/mo", "$49 per month"). The remaining words are split
+ * at stopwords, negation, and punctuation; capitalized runs become entities, and other
+ * runs become phrases of up to two words, joined to the preceding entity when alone.
+ */
+export function deriveClaimKeywords(claim: string): ClaimKeyword[] {
+  const keywords: ClaimKeyword[] = [];
+  const add = (keyword: ClaimKeyword) => {
+    if (!keywords.some((existing) => existing.term.toLowerCase() === keyword.term.toLowerCase())) keywords.push(keyword);
+  };
+  const masked = claim.replace(CLAIM_NUMBER_FACT_PATTERN, (_text, currency = "", value: string, suffix = "", unit?: string) => {
+    add({
+      term: `${currency.trim()}${value}${suffix.trim()}`,
+      kind: "number",
+      weight: CLAIM_NUMBER_KEYWORD_WEIGHT,
+      ...(unit ? { unit: unit.toLowerCase() } : {}),
+    });
+    return " | ";
+  });
+
+  const tokens = masked.match(/[\p{L}\p{N}][\p{L}\p{N}'’&+.-]*[\p{L}\p{N}+]|[\p{L}\p{N}]|[^\s\p{L}\p{N}]+/gu) ?? [];
+  const isWord = (token: string) => /^[\p{L}\p{N}]/u.test(token);
+  const isContent = (token: string) =>
+    isWord(token) && token.length > 1 && !CLAIM_STOPWORDS.has(token.toLowerCase()) && !CLAIM_NEGATION_PATTERN.test(token);
+  // A title-case first word followed by a lowercase content word ("Business support ...")
+  // is read as ordinary sentence capitalization rather than an entity.
+  const isCapitalized = (token: string, index: number) =>
+    /^\p{Lu}/u.test(token)
+    && !(index === 0 && /^\p{Lu}\p{Ll}/u.test(token) && isContent(tokens[1] ?? "") && /^\p{Ll}/u.test(tokens[1]));
+
+  let run: Array<{ word: string; capitalized: boolean }> = [];
+  const flush = () => {
+    for (let start = 0; start < run.length;) {
+      let end = start + 1;
+      while (end < run.length && run[end].capitalized === run[start].capitalized) end++;
+      const words = run.slice(start, end).map((entry) => entry.word);
+      if (run[start].capitalized) {
+        // A single word after an entity usually names one of its parts ("Pro plan"),
+        // which is kept as a phrase in place of a one-word entity.
+        if (words.length > 1 || end !== run.length - 1) add({ term: words.join(" "), kind: "entity", weight: 1 });
+      } else if (start > 0 && words.length === 1) {
+        add({ term: `${run[start - 1].word} ${words[0]}`, kind: "phrase", weight: 1 });
+      } else {
+        for (let index = 0; index < words.length; index += 2) {
+          const chunk = words.slice(index, index + 2);
+          add({ term: chunk.join(" "), kind: chunk.length > 1 ? "phrase" : "term", weight: 1 });
+        }
+      }
+      start = end;
+    }
+    run = [];
+  };
+  tokens.forEach((token, index) => {
+    if (isContent(token)) {
+      run.push({ word: token.replace(/['’]s$/, ""), capitalized: isCapitalized(token, index) });
+      if (/['’]s$/.test(token)) flush();
+    } else {
+      flush();
+    }
+  });
+  flush();
+  // A claim made only of stopwords falls back to matching the claim as written.
+  if (keywords.length === 0) return [{ term: claim.trim(), kind: "phrase", weight: 1 }];
+  return keywords.slice(0, MAX_DERIVED_CLAIM_KEYWORDS);
+}
+
+interface ClaimPassage {
+  text: string;
+  score: number;
+  keywordsMatched: string[];
+  negated: boolean;
+  hedged: boolean;
+}
+
+/**
+ * Splits block text into sentences. Text inside links and buttons continues the
+ * surrounding sentence; any other block boundary ends one, so headings and list
+ * items stand alone even without punctuation.
+ */
+function splitIntoSentences(blocks: HtmlTextBlock[]): string[] {
+  const paragraphs: string[] = [];
+  blocks.forEach((block, index) => {
+    const previous = blocks[index - 1];
+    if (previous && (INLINE_TEXT_BLOCK_TAGS.has(previous.tag) || INLINE_TEXT_BLOCK_TAGS.has(block.tag))) {
+      paragraphs[paragraphs.length - 1] += ` ${block.text}`;
+    } else {
+      paragraphs.push(block.text);
+    }
+  });
+  return paragraphs
+    .flatMap((paragraph) => paragraph.split(/(?<=[.!?])\s+(?=["“(]?[A-Z0-9])/))
+    .map((sentence) => sentence.trim().slice(0, MAX_CLAIM_SENTENCE_LENGTH))
+    .filter(Boolean)
+    .slice(0, MAX_CLAIM_SENTENCES);
+}
+
+/** Whether a cue word sits in the clause around a keyword match, just before it or after it. */
+function hasClaimCueNear(sentence: string, hit: { start: number; end: number }, before: RegExp, after: RegExp): boolean {
+  const clauseBefore = sentence.slice(0, hit.start).split(CLAIM_CLAUSE_BREAK_PATTERN).pop()!;
+  const wordsBefore = clauseBefore.trim().split(/\s+/).slice(-CLAIM_CUE_WORDS_BEFORE).join(" ");
+  const clauseAfter = sentence.slice(hit.end, hit.end + CLAIM_CUE_CHARS_AFTER).split(CLAIM_CLAUSE_BREAK_PATTERN)[0];
+  return before.test(wordsBefore) || after.test(clauseAfter);
+}
+
+export function scoreClaimSentence(sentence: string, keywords: ClaimKeyword[]): ClaimPassage | null {
+  const lower = sentence.toLowerCase();
+  const hits = keywords.flatMap((keyword) => {
+    const index = lower.indexOf(keyword.term.toLowerCase());
+    return index === -1 ? [] : [{ keyword, start: index, end: index + keyword.term.length }];
+  });
+  if (hits.length === 0) return null;
+  const span = Math.max(...hits.map((hit) => hit.end)) - Math.min(...hits.map((hit) => hit.start));
+  const proximity = span <= CLAIM_PROXIMITY_SPAN ? 1 : CLAIM_PROXIMITY_SPAN / span;
+  const coverage = sumClaimKeywordWeights(hits.map((hit) => hit.keyword)) / sumClaimKeywordWeights(keywords);
+  return {
+    text: sentence,
+    score: +(coverage * (0.8 + 0.2 * proximity)).toFixed(2),
+    keywordsMatched: hits.map((hit) => hit.keyword.term),
+    negated: hits.some((hit) => hasClaimCueNear(sentence, hit, CLAIM_NEGATION_PATTERN, CLAIM_NEGATION_AFTER_PATTERN)),
+    hedged: hits.some((hit) => hasClaimCueNear(sentence, hit, CLAIM_HEDGE_PATTERN, CLAIM_HEDGE_PATTERN)),
+  };
+}
+
+// Numbers within this many characters of a matched keyword are read as that keyword's value.
+const CLAIM_NUMBER_WINDOW = 40;
+const CLAIM_NUMBER_PATTERN = /\d[\d,]*(?:\.\d+)?/g;
+
+type ClaimStance = "supporting" | "contradicting" | "irrelevant";
+
+interface ClaimContradiction {
+  kind: "opposing_passage" | "conflicting_number";
+  passage: string;
+  claimNumbers: string[];
+  pageNumbers: string[];
+}
+
+function extractClaimNumbers(text: string, exclude: Array<{ start: number; end: number }> = []): string[] {
+  const numbers = [...text.matchAll(CLAIM_NUMBER_PATTERN)]
+    .filter((match) => !exclude.some((span) => match.index! < span.end && match.index! + match[0].length > span.start))
+    .map((match) => String(Number(match[0].replace(/,/g, ""))));
+  return [...new Set(numbers)];
+}
+
+function keywordSpans(text: string, keywords: string[]): Array<{ start: number; end: number }> {
+  const lower = text.toLowerCase();
+  return keywords.flatMap((keyword) => {
+    const start = lower.indexOf(keyword.toLowerCase());
+    return start === -1 ? [] : [{ start, end: start + keyword.length }];
+  });
+}
+
+/**
+ * Returns the numbers that sit next to a matched keyword without digits in the
+ * passage, ignoring digits that belong to a matched keyword itself (such as "24/7").
+ */
+function numbersNearKeywords(passage: ClaimPassage): string[] {
+  const spans = keywordSpans(passage.text, passage.keywordsMatched);
+  const anchors = keywordSpans(passage.text, passage.keywordsMatched.filter((keyword) => !/\d/.test(keyword)));
+  return [...new Set(anchors.flatMap((anchor) => {
+    const windowStart = Math.max(0, anchor.start - CLAIM_NUMBER_WINDOW);
+    const shifted = spans.map((span) => ({ start: span.start - windowStart, end: span.end - windowStart }));
+    return extractClaimNumbers(passage.text.slice(windowStart, anchor.end + CLAIM_NUMBER_WINDOW), shifted);
+  }))];
+}
+
+/**
+ * Verdict for claim checks from the sources that addressed the claim. Sources that
+ * were unreachable or did not address it are left out rather than counted against it.
+ */
+function summarizeClaimVerdict(supporting: number, contradicting: number) {
+  return supporting + contradicting === 0 ? "UNCONFIRMED" as const
+    : contradicting === 0 ? "CONFIRMED" as const
+    : supporting > contradicting ? "LIKELY TRUE" as const
+    : "LIKELY FALSE" as const;
+}
+
+function isStrongPassage(passage: ClaimPassage, keywords: ClaimKeyword[]): boolean {
+  return passage.score >= CLAIM_PASSAGE_SUPPORT_THRESHOLD
+    && passage.keywordsMatched.length >= Math.min(2, keywords.length);
+}
+
+/**
+ * Returns the highest-scoring passages and the page's stance on the claim. A page
+ * supports when its best passage agrees in polarity with the claim (affirmative for
+ * most claims, negated for claims such as "X does not offer SSO"), is not hedged,
+ * reaches the support threshold with at least two keywords (or the only one), and
+ * states no numbers that conflict with the claim. It contradicts only on active
+ * evidence: the top passage is strong and a negation applies to the claim's keywords
+ * where the claim has none (or the reverse), or an agreeing
+ * passage that covers the claim's wording puts different numbers next to it.
+ * Anything else, including hedged or weak matches, is irrelevant.
+ */
+export function findClaimPassages(html: string, keywords: ClaimKeyword[], claim: string) {
+  // The claim's own polarity is scoped like a passage's, so "offers a free trial, no card
+  // required" is an affirmative claim. Caller keywords the claim does not contain fall back
+  // to any negation in the claim.
+  const claimNegated = scoreClaimSentence(claim, keywords)?.negated ?? CLAIM_NEGATION_PATTERN.test(claim);
+  const agrees = (passage: ClaimPassage) => passage.negated === claimNegated && !passage.hedged;
+  const scored = splitIntoSentences(htmlToTextBlocks(html))
+    .flatMap((sentence) => scoreClaimSentence(sentence, keywords) ?? [])
+    .sort((a, b) => b.score - a.score || Number(!agrees(a)) - Number(!agrees(b)));
+  const best = scored.find(agrees) ?? null;
+  const top = scored[0];
+
+  // Numbers are compared only against passages that cover most of the wording keywords,
+  // since a passage quoting a different price cannot also match the claim's price keyword.
+  const claimNumbers = extractClaimNumbers(claim);
+  const wordKeywords = keywords.filter((keyword) => keyword.kind !== "number").map((keyword) => keyword.term);
+  const coversWording = (passage: ClaimPassage) => {
+    const matched = passage.keywordsMatched.filter((keyword) => wordKeywords.includes(keyword)).length;
+    return wordKeywords.length > 0 && matched >= Math.max(Math.min(2, wordKeywords.length), wordKeywords.length / 2);
+  };
+  const conflictingNumbers = (passage: ClaimPassage) => {
+    if (claimNumbers.length === 0) return null;
+    const pageNumbers = numbersNearKeywords(passage);
+    return pageNumbers.length > 0 && !pageNumbers.some((value) => claimNumbers.includes(value)) ? pageNumbers : null;
+  };
+
+  let stance: ClaimStance = "irrelevant";
+  let contradiction: ClaimContradiction | null = null;
+  if (top && !top.hedged && top.negated !== claimNegated && isStrongPassage(top, keywords)) {
+    stance = "contradicting";
+    contradiction = { kind: "opposing_passage", passage: top.text, claimNumbers: [], pageNumbers: [] };
+  } else if (best && best === top && isStrongPassage(best, keywords) && !conflictingNumbers(best)) {
+    stance = "supporting";
+  } else {
+    for (const passage of scored.filter(agrees)) {
+      const pageNumbers = coversWording(passage) ? conflictingNumbers(passage) : null;
+      if (pageNumbers) {
+        stance = "contradicting";
+        contradiction = { kind: "conflicting_number", passage: passage.text, claimNumbers, pageNumbers };
+        break;
+      }
+    }
+  }
+
+  return {
+    passages: scored.slice(0, MAX_CLAIM_PASSAGES),
+    bestPassageScore: best?.score ?? 0,
+    stance,
+    contradiction,
+  };
+}
+
+// --- Numeric fact verification ---
+// verify_numeric_fact reads every number on the page together with the magnitude,
+// currency or percent sign, unit word, and billing period around it, so "$588 per year"
+// and "$49/mo" compare as the same price.
+const MAX_NUMERIC_FACT_VALUES = 5;
+// Only this much text after a number is read for its unit and period.
+const NUMERIC_FACT_SUFFIX_LENGTH = 40;
+const NUMERIC_FACT_NUMBER_PATTERN = /(?<![\w.,])([$€£¥])?\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)(?!\d|\/\d)/g;
+const NUMERIC_MAGNITUDES: Record<string, number> = {
+  k: 1e3, thousand: 1e3, m: 1e6, mm: 1e6, million: 1e6, b: 1e9, bn: 1e9, billion: 1e9,
+};
+const NUMERIC_CURRENCIES: Record<string, { currency: string; scale: number }> = {
+  "$": { currency: "USD", scale: 1 }, usd: { currency: "USD", scale: 1 }, dollar: { currency: "USD", scale: 1 },
+  dollars: { currency: "USD", scale: 1 }, "¢": { currency: "USD", scale: 0.01 }, cent: { currency: "USD", scale: 0.01 },
+  cents: { currency: "USD", scale: 0.01 }, "€": { currency: "EUR", scale: 1 }, eur: { currency: "EUR", scale: 1 },
+  euro: { currency: "EUR", scale: 1 }, euros: { currency: "EUR", scale: 1 }, "£": { currency: "GBP", scale: 1 },
+  gbp: { currency: "GBP", scale: 1 }, "¥": { currency: "JPY", scale: 1 }, jpy: { currency: "JPY", scale: 1 },
+};
+// Data sizes normalize to GB with decimal prefixes, as pricing pages use them.
+const NUMERIC_DATA_UNITS: Record<string, number> = { kb: 1e-6, mb: 1e-3, gb: 1, tb: 1e3, pb: 1e6 };
+const NUMERIC_PERIOD_PATTERN =
+  /(?:\/\s?|\bper\s+|\ba\s+|\bevery\s+|\beach\s+)(mo|month|yr|year|annum)\b|\b(monthly|annually|yearly|annual)\b/i;
+
+interface NumericQuantity {
+  value: number;
+  // USD, EUR, %, GB, a singular count word such as "request", or null for a bare number.
+  unit: string | null;
+  period: "month" | "year" | null;
+  // Words that followed the number, so "10,000 API requests" still counts as requests.
+  words: string[];
+}
+
+function singularizeUnitWord(word: string): string {
+  const lower = word.toLowerCase();
+  return lower.length > 3 && lower.endsWith("s") && !lower.endsWith("ss") ? lower.slice(0, -1) : lower;
+}
+
+/**
+ * Reads the unit and period that follow a number, applying magnitude and currency
+ * scale to value. The same parser reads the caller's expected unit, so "k requests
+ * per month" and "¢" mean the same thing in the input and on the page.
+ */
+export function parseNumericQuantity(value: number, prefix: string, suffix: string): NumericQuantity & { scale: number } {
+  let rest = suffix.slice(0, NUMERIC_FACT_SUFFIX_LENGTH).split(/\d/)[0];
+  let scale = 1;
+  let unit: string | null = null;
+
+  const magnitude = rest.match(/^\s?(k|thousand|mm|m|million|bn|b|billion)\b/i);
+  if (magnitude) {
+    scale *= NUMERIC_MAGNITUDES[magnitude[1].toLowerCase()];
+    rest = rest.slice(magnitude[0].length);
+  }
+  const currency = NUMERIC_CURRENCIES[prefix]
+    ?? NUMERIC_CURRENCIES[rest.match(/^\s*(¢|[a-z]+)/i)?.[1].toLowerCase() ?? ""];
+  const percent = rest.match(/^\s?(?:%|percent\b)/i);
+  if (currency) {
+    unit = currency.currency;
+    scale *= currency.scale;
+    if (!NUMERIC_CURRENCIES[prefix]) rest = rest.replace(/^\s*(¢|[a-z]+)/i, "");
+  } else if (percent) {
+    unit = "%";
+    rest = rest.slice(percent[0].length);
+  }
+
+  const words = (rest.match(/[a-z][a-z-]*/gi) ?? [])
+    .filter((word) => !CLAIM_STOPWORDS.has(word.toLowerCase()))
+    .slice(0, 3)
+    .map(singularizeUnitWord);
+  if (unit === null && words.length > 0) {
+    const dataScale = NUMERIC_DATA_UNITS[words[0]];
+    if (dataScale !== undefined) {
+      unit = "GB";
+      scale *= dataScale;
+    } else if (!/^(?:mo|yr|annum|monthly|annually|yearly|annual)$/.test(words[0])) {
+      unit = words[0];
+    }
+  }
+
+  const period = rest.match(NUMERIC_PERIOD_PATTERN);
+  const periodWord = (period?.[1] ?? period?.[2] ?? "").toLowerCase();
+  return {
+    value: value * scale,
+    unit,
+    period: !periodWord ? null : periodWord.startsWith("mo") ? "month" : "year",
+    words,
+    scale,
+  };
+}
+
+function formatNumericUnit(quantity: Pick<NumericQuantity, "unit" | "period">): string | null {
+  if (quantity.unit === null && quantity.period === null) return null;
+  return `${quantity.unit ?? ""}${quantity.period ? `/${quantity.period}` : ""}`;
+}
+
+/**
+ * Converts a page value into the expected value's unit, or returns null when the two
+ * cannot be compared. Yearly and monthly figures convert at 12 months per year; a
+ * value without a period is taken to share the expected period. A bare expected value
+ * compares with anything, and a count word matches any of the three words after the number.
+ */
+function convertNumericQuantity(found: NumericQuantity, expected: NumericQuantity): number | null {
+  if (expected.unit !== null && found.unit !== expected.unit && !found.words.includes(expected.unit)) return null;
+  if (found.period === null || expected.period === null || found.period === expected.period) return found.value;
+  return expected.period === "month" ? found.value / 12 : found.value * 12;
+}
+
+/**
+ * Splits the page into sentences, each paired with the heading of the section it sits in,
+ * so "10,000 requests per month" under a "Free" heading still counts as about the free tier.
+ */
+function sentencesWithHeadings(html: string): Array<{ heading: string; text: string }> {
+  const sections: Array<{ heading: string; blocks: HtmlTextBlock[] }> = [{ heading: "", blocks: [] }];
+  for (const block of htmlToTextBlocks(html)) {
+    if (/^h[1-6]$/.test(block.tag)) sections.push({ heading: block.text, blocks: [] });
+    else sections[sections.length - 1].blocks.push(block);
+  }
+  return sections.flatMap((section) =>
+    splitIntoSentences(section.blocks).map((text) => ({ heading: section.heading, text })),
+  );
+}
+
+function numericFactTerms(text: string): string[] {
+  return [...new Set((text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}-]*/gu) ?? [])
+    .filter((word) => word.length > 1 && !CLAIM_STOPWORDS.has(word))
+    .map(singularizeUnitWord))];
+}
+
+interface NumericFactValue {
+  text: string;
+  value: number;
+  unit: string | null;
+  comparedValue: number;
+  difference: number;
+  withinTolerance: boolean;
+  passage: string;
+  heading: string | null;
+}
+
+/**
+ * Finds numbers in sentences that mention the metric, ranked by how many metric and
+ * subject terms the sentence and its heading contain. Only the most relevant sentences
+ * decide the outcome: a match when any comparable value there is within tolerance,
+ * a mismatch when comparable values exist but none is, not_found otherwise.
+ */
+export function findNumericFact(
+  html: string,
+  subject: string,
+  metric: string,
+  expected: NumericQuantity,
+  tolerance: number,
+) {
+  const metricTerms = numericFactTerms(metric).length > 0 ? numericFactTerms(metric) : [metric.toLowerCase()];
+  const subjectTerms = numericFactTerms(subject).filter((term) => !metricTerms.includes(term));
+  const ranked = sentencesWithHeadings(html).flatMap(({ heading, text }) => {
+    const sentence = text.toLowerCase();
+    const context = `${heading} ${text}`.toLowerCase();
+    if (!metricTerms.some((term) => sentence.includes(term))) return [];
+    const metricHits = metricTerms.filter((term) => context.includes(term)).length;
+    const subjectHits = subjectTerms.filter((term) => context.includes(term)).length;
+    const values = [...text.matchAll(NUMERIC_FACT_NUMBER_PATTERN)].flatMap((match): NumericFactValue[] => {
+      const suffix = text.slice(match.index! + match[0].length);
+      const found = parseNumericQuantity(Number(match[2].replace(/,/g, "")), match[1] ?? "", suffix);
+      const comparedValue = convertNumericQuantity(found, expected);
+      if (comparedValue === null) return [];
+      const difference = comparedValue - expected.value;
+      return [{
+        // The number as written, with up to three following words before any punctuation.
+        text: `${match[0]}${suffix.match(/^[^\s\d.,;:()+]*(?:\s+[^\s\d.,;:()+]+){0,3}/)?.[0] ?? ""}`.trim(),
+        value: +found.value.toFixed(6),
+        unit: formatNumericUnit(found),
+        comparedValue: +comparedValue.toFixed(6),
+        difference: +difference.toFixed(6),
+        withinTolerance: Math.abs(difference) <= tolerance + Math.abs(expected.value) * 1e-9,
+        passage: text,
+        heading: heading || null,
+      }];
+    });
+    if (values.length === 0) return [];
+    const relevance = metricHits / metricTerms.length + (subjectTerms.length ? subjectHits / subjectTerms.length : 0);
+    return [{ relevance, values }];
+  }).sort((a, b) => b.relevance - a.relevance);
+
+  const top = ranked.filter((candidate) => candidate.relevance === ranked[0]?.relevance).flatMap((candidate) => candidate.values);
+  const status = top.length === 0 ? "not_found" as const
+    : top.some((value) => value.withinTolerance) ? "match" as const
+    : "mismatch" as const;
+  return {
+    status,
+    values: [...top.filter((value) => value.withinTolerance), ...top.filter((value) => !value.withinTolerance),
+      ...ranked.slice(1).flatMap((candidate) => candidate.values)]
+      .filter((value, index, all) => all.findIndex((other) => other.passage === value.passage && other.text === value.text) === index)
+      .slice(0, MAX_NUMERIC_FACT_VALUES),
+  };
+}
+
+// --- Compliance framework catalog ---
+// assess_compliance_posture reports one signal per entry, keyed by id. Adding a
+// framework here is enough: signals, frameworks, and evidence are keyed by id
+// rather than declared one by one in the output schema.
+type ComplianceCategory =
+  | "attestation"
+  | "certification"
+  | "government_authorization"
+  | "regulation"
+  | "data_governance"
+  | "product_security"
+  | "security_program";
+
+interface ComplianceFramework {
+  id: string;
+  name: string;
+  category: ComplianceCategory;
+  // ISO 3166 code of the issuing or governing jurisdiction, "EU", "EU-US", or "global".
+  jurisdiction: string;
+  pattern: RegExp;
+  // Required in the same clause for ambiguous acronyms.
+  context?: RegExp;
+  // Matched against link targets, for signals that are usually a bare link.
+  hrefPattern?: RegExp;
+  // Reads a level, type, or tier from the clause around a mention.
+  level?: (clause: string) => string | null;
+}
+
+// Categories where claim wording ("certified", "audit report") makes a mention a certification claim.
+const CERTIFIABLE_CATEGORIES = new Set<ComplianceCategory>(["attestation", "certification", "government_authorization", "regulation"]);
+// Categories where a footer or navigation link is itself the evidence.
+const LINK_EVIDENCE_CATEGORIES = new Set<ComplianceCategory>(["security_program"]);
+
+function complianceLevelReader(pattern: RegExp, format: (value: string) => string) {
+  return (clause: string) => {
+    const match = clause.match(pattern);
+    const value = match?.slice(1).find((group) => group !== undefined);
+    return value ? format(value) : null;
+  };
+}
+
+const COMPLIANCE_FRAMEWORKS: ComplianceFramework[] = [
+  { id: "soc1", name: "SOC 1", category: "attestation", jurisdiction: "US", pattern: /\bsoc\s*1\b|\bsoc1\b/i },
+  {
+    id: "soc2", name: "SOC 2", category: "attestation", jurisdiction: "US", pattern: /\bsoc\s*2\b|\bsoc2\b/i,
+    level: complianceLevelReader(/\btype\s*(ii|2|i|1)\b/i, (value) => (/^(?:ii|2)$/i.test(value) ? "Type II" : "Type I")),
+  },
+  { id: "soc3", name: "SOC 3", category: "attestation", jurisdiction: "US", pattern: /\bsoc\s*3\b|\bsoc3\b/i },
+  {
+    id: "csaStar", name: "CSA STAR", category: "attestation", jurisdiction: "global",
+    pattern: /\bcsa\s+star\b|\bstar\s+(?:registry|level\s*[12]|certification|attestation)\b/i,
+    level: complianceLevelReader(/\blevel\s*([12])\b/i, (value) => `Level ${value}`),
+  },
+  { id: "iso27001", name: "ISO/IEC 27001", category: "certification", jurisdiction: "global", pattern: /\biso(?:\/iec)?[\s-]*27001\b/i },
+  { id: "iso27017", name: "ISO/IEC 27017", category: "certification", jurisdiction: "global", pattern: /\biso(?:\/iec)?[\s-]*27017\b/i },
+  { id: "iso27018", name: "ISO/IEC 27018", category: "certification", jurisdiction: "global", pattern: /\biso(?:\/iec)?[\s-]*27018\b/i },
+  { id: "iso27701", name: "ISO/IEC 27701", category: "certification", jurisdiction: "global", pattern: /\biso(?:\/iec)?[\s-]*27701\b/i },
+  { id: "iso42001", name: "ISO/IEC 42001", category: "certification", jurisdiction: "global", pattern: /\biso(?:\/iec)?[\s-]*42001\b/i },
+  {
+    id: "pciDss", name: "PCI DSS", category: "certification", jurisdiction: "global",
+    pattern: /\bpci[\s-]*dss\b|\bpci\s+(?:compliant|compliance|certified|level\s*[1-4])\b|\bpayment card industry data security standard\b/i,
+    level: complianceLevelReader(/\blevel\s*([1-4])\b/i, (value) => `Level ${value}`),
+  },
+  { id: "hitrust", name: "HITRUST CSF", category: "certification", jurisdiction: "US", pattern: /\bhitrust\b/i },
+  {
+    id: "tisax", name: "TISAX", category: "certification", jurisdiction: "DE", pattern: /\btisax\b/i,
+    level: complianceLevelReader(/\b(?:al|assessment level)\s*([23])\b/i, (value) => `AL${value}`),
+  },
+  {
+    id: "cyberEssentials", name: "Cyber Essentials", category: "certification", jurisdiction: "GB", pattern: /\bcyber essentials\b/i,
+    level: (clause) => (/\bcyber essentials\s*(?:plus|\+)/i.test(clause) ? "Plus" : null),
+  },
+  {
+    id: "fedramp", name: "FedRAMP", category: "government_authorization", jurisdiction: "US",
+    pattern: /\bfedramp\b|\bfederal risk and authorization management program\b/i,
+    level: complianceLevelReader(
+      /\bfedramp\s+(?:[a-z]+\s+){0,2}?(li-saas|low|moderate|high|tailored)\b|\b(low|moderate|high)[\s-]+(?:impact\s+)?(?:baseline\s+)?fedramp\b/i,
+      (value) => (value.toLowerCase() === "li-saas" ? "LI-SaaS" : value[0].toUpperCase() + value.slice(1).toLowerCase()),
+    ),
+  },
+  { id: "gdpr", name: "GDPR", category: "regulation", jurisdiction: "EU", pattern: /\bgdpr\b|\bgeneral data protection regulation\b/i },
+  {
+    id: "ccpa", name: "CCPA/CPRA", category: "regulation", jurisdiction: "US-CA",
+    pattern: /\bccpa\b|\bcpra\b|\bcalifornia consumer privacy act\b|\bcalifornia privacy rights act\b/i,
+  },
+  { id: "hipaa", name: "HIPAA", category: "regulation", jurisdiction: "US", pattern: /\bhipaa\b/i },
+  {
+    id: "dataPrivacyFramework", name: "Data Privacy Framework", category: "data_governance", jurisdiction: "EU-US",
+    pattern: /\bdata privacy framework\b|\bdpf\b/i,
+    context: /\b(?:privacy|framework|eu|swiss|uk|certif(?:y|ied|ication)|participa(?:nt|tes?|tion)|list(?:ed|ing)?|commerce)\b/i,
+  },
+  {
+    id: "dpa", name: "Data processing agreement", category: "data_governance", jurisdiction: "global",
+    pattern: /\bdata processing agreement\b|\bdpa\b/i,
+    context: /\b(?:data|processing|processor|controller|privacy|gdpr|addendum|agreement|sign(?:s|ed)?|execute[ds]?|download|request)\b/i,
+  },
+  { id: "subprocessorList", name: "Subprocessor list", category: "data_governance", jurisdiction: "global", pattern: /\bsubprocessors?\b/i },
+  {
+    id: "dataResidency", name: "Data residency", category: "data_governance", jurisdiction: "global",
+    pattern: /\bdata residency\b|\bdata region\b|\bregion(?:al)? storage\b/i,
+  },
+  { id: "sso", name: "Single sign-on", category: "product_security", jurisdiction: "global", pattern: /\bsingle sign-on\b|\bsso\b/i },
+  { id: "scim", name: "SCIM provisioning", category: "product_security", jurisdiction: "global", pattern: /\bscim\b/i },
+  {
+    id: "encryption", name: "Encryption", category: "product_security", jurisdiction: "global",
+    pattern: /\bencrypt(?:ion|ed)\b|\bat rest\b|\bin transit\b/i,
+  },
+  {
+    id: "bugBounty", name: "Bug bounty", category: "security_program", jurisdiction: "global",
+    pattern: /\bbug bount(?:y|ies)\b|\bhackerone\b|\bbugcrowd\b|\bintigriti\b|\byeswehack\b/i,
+    hrefPattern: /\b(?:hackerone\.com|bugcrowd\.com|intigriti\.com|yeswehack\.com)\//i,
+  },
+  {
+    id: "vulnerabilityDisclosure", name: "Vulnerability disclosure program", category: "security_program", jurisdiction: "global",
+    pattern: /\bvulnerability disclosure\b|\bresponsible disclosure\b|\bcoordinated disclosure\b|\bvdp\b/i,
+  },
+  {
+    id: "securityTxt", name: "security.txt", category: "security_program", jurisdiction: "global",
+    pattern: /\bsecurity\.txt\b/i,
+    hrefPattern: /\/security\.txt(?:$|[?#])/i,
+  },
+];
+
+const COMPLIANCE_FRAMEWORKS_BY_ID = new Map(COMPLIANCE_FRAMEWORKS.map((framework) => [framework.id, framework]));
+
+type ComplianceMentionClass = "certification_claim" | "policy_mention" | "incidental_mention";
+type CompliancePageType = "trust_center" | "compliance" | "security" | "privacy_policy" | "legal" | "other";
+
+interface ComplianceEvidence {
+  signal: string;
+  snippet: string;
+  // Character offset of the match in the page text (block text joined by single spaces).
+  position: number;
+  region: PageRegion;
+  classification: ComplianceMentionClass;
+  negated: boolean;
+  level: string | null;
+}
+
+const MAX_COMPLIANCE_EVIDENCE_PER_SIGNAL = 5;
+const COMPLIANCE_SNIPPET_RADIUS = 120;
+const COMPLIANCE_CLAUSE_LOOKBEHIND = 80;
+const CERTIFICATION_CLAIM_PATTERN =
+  /\b(?:certified|certification|certificate|compliant|complies|attest(?:s|ed|ation)?|audit(?:ed|or|s)?|type\s+(?:ii|2|i|1)|report|accredited|achieved|adheres?|authori[sz](?:ed|ation)|registry|listed)\b/i;
+const POLICY_CONTEXT_PATTERN =
+  /\b(?:we|our|us|customers?|policy|policies|agreement|addendum|terms|available|supports?|supported|offers?|offered|provides?|provided|requests?|signs?|signed|enabled?|enforced?|process(?:es|ed|ing)?|stored?|data)\b/i;
+// Checked against the clause before the match and a short window after it.
+const COMPLIANCE_NEGATION_BEFORE_PATTERN =
+  /\b(?:not|no|never|cannot|can't|isn't|aren't|doesn't|don't|won't|without|neither|nor|yet to|working towards?|in the process of|pursuing|plans? to)\b/i;
+// The before pattern is only tested against the last few words of the clause before a
+// mention, so "No matter the plan, we are SOC 2 certified" is not read as negated.
+const COMPLIANCE_NEGATION_WORDS_BEFORE = 6;
+const COMPLIANCE_NEGATION_AFTER_PATTERN = /^[^.!?;,]{0,40}?\b(?:not|isn't|aren't|doesn't|don't|won't|cannot|unavailable|unsupported|pending|in progress)\b/i;
+const COMPLIANCE_PAGE_TYPE_PATTERNS: [CompliancePageType, RegExp][] = [
+  ["trust_center", /\btrust(?:[\s_-]*(?:center|centre|portal))?\b/i],
+  ["compliance", /\bcompliance\b|\bsoc[\s_-]*2\b|\biso[\s_-]*27001\b|\bhipaa\b/i],
+  ["security", /\bsecurity\b/i],
+  ["privacy_policy", /\bprivacy\b|\bgdpr\b/i],
+  ["legal", /\blegal\b|\bterms\b|\bdpa\b|\bdata[\s_-]*processing\b|\bsub[\s_-]*processors?\b/i],
+];
+
+/**
+ * Classifies the page from its URL path, <title>, and first heading. Policy and
+ * legal pages describe obligations in plain prose, so mentions there count as
+ * policy mentions without needing first-party wording.
+ */
+function detectCompliancePageType(url: string, body: string, blocks: HtmlTextBlock[]): CompliancePageType {
+  let path = "";
+  try {
+    path = new URL(url).pathname.replace(/[/.]+/g, " ");
+  } catch {
+    // Fall back to the page text alone.
+  }
+  const title = decodeHtmlEntities(body.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? "");
+  const heading = blocks.find((block) => block.tag === "h1")?.text ?? "";
+  const haystack = `${path} ${title} ${heading}`;
+  return COMPLIANCE_PAGE_TYPE_PATTERNS.find(([, pattern]) => pattern.test(haystack))?.[0] ?? "other";
+}
+
+function classifyComplianceMention(
+  framework: ComplianceFramework,
+  clause: string,
+  region: PageRegion,
+  pageType: CompliancePageType,
+): ComplianceMentionClass {
+  if (region !== "main") return LINK_EVIDENCE_CATEGORIES.has(framework.category) ? "policy_mention" : "incidental_mention";
+  if (CERTIFIABLE_CATEGORIES.has(framework.category) && CERTIFICATION_CLAIM_PATTERN.test(clause)) return "certification_claim";
+  if (pageType === "privacy_policy" || pageType === "legal" || POLICY_CONTEXT_PATTERN.test(clause)) return "policy_mention";
+  return "incidental_mention";
+}
+
+/**
+ * One entry per framework mentioned anywhere, with catalog metadata so callers can
+ * group by category or jurisdiction. level comes from the first supporting mention
+ * that states one.
+ */
+function summarizeComplianceFrameworks(signals: Record<string, boolean>, evidence: ComplianceEvidence[]) {
+  const frameworks = COMPLIANCE_FRAMEWORKS.flatMap(({ id, name, category, jurisdiction }) => {
+    const mentions = evidence.filter((item) => item.signal === id);
+    if (mentions.length === 0) return [];
+    return [{
+      id,
+      name,
+      category,
+      jurisdiction,
+      detected: signals[id] === true,
+      negated: mentions.some((item) => item.negated),
+      level: mentions.find((item) => !item.negated && item.level !== null)?.level ?? null,
+    }];
+  });
+  const detectedByCategory: Partial<Record<ComplianceCategory, string[]>> = {};
+  for (const framework of frameworks) {
+    if (framework.detected) (detectedByCategory[framework.category] ??= []).push(framework.id);
+  }
+  return { frameworks, detectedByCategory };
+}
+
+/** Whether a negation or plan governs a mention: just before it in the same clause, or shortly after it. */
+function isComplianceMentionNegated(clauseBefore: string, clauseAfter: string): boolean {
+  const wordsBefore = clauseBefore.split(/[,:]\s/).pop()!.trim().split(/\s+/).slice(-COMPLIANCE_NEGATION_WORDS_BEFORE).join(" ");
+  return COMPLIANCE_NEGATION_BEFORE_PATTERN.test(wordsBefore) || COMPLIANCE_NEGATION_AFTER_PATTERN.test(clauseAfter);
+}
+
+/**
+ * A signal is reported as true only when at least one mention is in the page
+ * body, is not negated, and is more than an incidental mention. Every mention
+ * is still returned in evidence with its snippet so reviewers can check it.
+ */
+export function extractComplianceSignals(body: string, url: string) {
+  const blocks = htmlToTextBlocks(body);
+  const pageType = detectCompliancePageType(url, body, blocks);
+  const regions: { start: number; region: PageRegion }[] = [];
+  const clauseBreaks: number[] = [];
+  let text = "";
+  blocks.forEach((block, index) => {
+    if (text) text += " ";
+    regions.push({ start: text.length, region: block.landmark });
+    const previous = blocks[index - 1];
+    if (previous && !INLINE_TEXT_BLOCK_TAGS.has(previous.tag) && !INLINE_TEXT_BLOCK_TAGS.has(block.tag)) {
+      clauseBreaks.push(text.length);
+    }
+    text += block.text;
+  });
+  const regionAt = (offset: number) => {
+    let region: PageRegion = "main";
+    for (const entry of regions) {
+      if (entry.start > offset) break;
+      region = entry.region;
+    }
+    return region;
+  };
+  const links = [...body.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)].map((match) => ({
+    href: parseHtmlAttributes(match[1]).href ?? "",
+    label: decodeHtmlEntities(match[2].replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim(),
+  }));
+
+  const evidence: ComplianceEvidence[] = [];
+  for (const framework of COMPLIANCE_FRAMEWORKS) {
+    let found = 0;
+    for (const match of text.matchAll(new RegExp(framework.pattern.source, "gi"))) {
+      if (found >= MAX_COMPLIANCE_EVIDENCE_PER_SIGNAL) break;
+      const start = match.index;
+      const end = start + match[0].length;
+      const clauseStart = Math.max(start - COMPLIANCE_CLAUSE_LOOKBEHIND, 0, ...clauseBreaks.filter((offset) => offset <= start));
+      const clauseEnd = Math.min(end + COMPLIANCE_SNIPPET_RADIUS, ...clauseBreaks.filter((offset) => offset >= end));
+      const before = text.slice(clauseStart, start);
+      const clauseBefore = before.slice(Math.max(before.lastIndexOf(". "), before.lastIndexOf("! "), before.lastIndexOf("? "), before.lastIndexOf("; ")) + 1);
+      const clauseAfter = text.slice(end, clauseEnd).split(/[.!?;]\s/)[0];
+      const clause = `${clauseBefore}${match[0]}${clauseAfter}`;
+      if (framework.context && !framework.context.test(clause)) continue;
+
+      const region = regionAt(start);
+      found += 1;
+      evidence.push({
+        signal: framework.id,
+        snippet: text.slice(Math.max(0, start - COMPLIANCE_SNIPPET_RADIUS), end + COMPLIANCE_SNIPPET_RADIUS).trim(),
+        position: start,
+        region,
+        classification: classifyComplianceMention(framework, clause, region, pageType),
+        negated: isComplianceMentionNegated(clauseBefore, clauseAfter),
+        level: framework.level?.(clause) ?? null,
+      });
+    }
+    // A link to a bounty platform or security.txt counts even when its text says only "Security".
+    if (framework.hrefPattern && found < MAX_COMPLIANCE_EVIDENCE_PER_SIGNAL) {
+      const link = links.find(({ href }) => framework.hrefPattern!.test(href));
+      const position = link?.label ? Math.max(text.indexOf(link.label), 0) : 0;
+      if (link && !evidence.some((item) => item.signal === framework.id && item.position === position)) {
+        evidence.push({
+          signal: framework.id,
+          snippet: `${link.label} (${link.href})`.trim(),
+          position,
+          region: regionAt(position),
+          classification: "policy_mention",
+          negated: false,
+          level: null,
+        });
+      }
+    }
+  }
+
+  const signals = Object.fromEntries(
+    COMPLIANCE_FRAMEWORKS.map(({ id }) => [
+      id,
+      evidence.some((item) => item.signal === id && !item.negated && item.classification !== "incidental_mention"),
+    ]),
+  );
+
+  const matchedSignals = Object.entries(signals)
+    .filter(([, matched]) => matched)
+    .map(([signal]) => signal);
+  const negatedSignals = [...new Set(evidence.filter((item) => item.negated).map((item) => item.signal))];
+  const incidentalSignals = [...new Set(evidence.map((item) => item.signal))]
+    .filter((signal) => !signals[signal] && !negatedSignals.includes(signal));
+
+  return { pageType, signals, matchedSignals, negatedSignals, incidentalSignals, ...summarizeComplianceFrameworks(signals, evidence), evidence };
+}
+
+// --- Trust-center discovery ---
+// Crawl mode for assess_compliance_posture ranks same-site links by how likely they
+// are to hold trust, security, or legal terms. Higher weights are fetched first.
+const MAX_COMPLIANCE_CRAWL_PAGES = 10;
+const DEFAULT_COMPLIANCE_CRAWL_PAGES = 6;
+const MAX_SITEMAP_LOCS = 5000;
+const COMPLIANCE_LINK_KEYWORDS: [RegExp, number][] = [
+  [/\btrust\b/i, 5],
+  [/\bsecurity\b/i, 5],
+  [/\bcompliance\b/i, 5],
+  [/\bsub[\s_-]*processors?\b/i, 4],
+  [/\bdpa\b|\bdata[\s_-]*processing\b/i, 4],
+  [/\bprivacy\b/i, 4],
+  [/\bsoc[\s_-]*2\b|\biso[\s_-]*27001\b|\bgdpr\b|\bhipaa\b/i, 3],
+  [/\blegal\b/i, 3],
+  [/\bterms\b/i, 1],
+];
+const NON_HTML_PATH_PATTERN = /\.(?:pdf|png|jpe?g|gif|svg|webp|zip|css|js|json|xml|txt|mp4)$/i;
+
+type ComplianceCrawlSource = "input" | "homepage" | "link" | "sitemap";
+
+interface ComplianceCrawlCandidate {
+  url: string;
+  score: number;
+  discoveredFrom: ComplianceCrawlSource;
+}
+
+function scoreComplianceLink(path: string, label: string): number {
+  const haystack = `${path.replace(/[/.]+/g, " ")} ${label}`;
+  return COMPLIANCE_LINK_KEYWORDS.reduce((score, [pattern, weight]) => (pattern.test(haystack) ? Math.max(score, weight) : score), 0);
+}
+
+/**
+ * Same-site means the same host or a subdomain of it, so trust.vendor.com is
+ * followed from vendor.com. Third-party trust portals are not followed.
+ */
+function isSameSite(candidate: URL, base: URL): boolean {
+  const baseHost = base.hostname.replace(/^www\./, "");
+  return candidate.hostname === base.hostname || candidate.hostname === baseHost || candidate.hostname.endsWith(`.${baseHost}`);
+}
+
+function toComplianceCandidate(href: string, label: string, base: URL, discoveredFrom: ComplianceCrawlSource): ComplianceCrawlCandidate | null {
+  let resolved: URL;
+  try {
+    resolved = new URL(href.trim(), base);
+  } catch {
+    return null;
+  }
+  if ((resolved.protocol !== "https:" && resolved.protocol !== "http:") || !isSameSite(resolved, base)) return null;
+  if (NON_HTML_PATH_PATTERN.test(resolved.pathname)) return null;
+  const score = scoreComplianceLink(`${resolved.hostname.split(".")[0]} ${resolved.pathname}`, label);
+  if (score === 0) return null;
+  resolved.hash = "";
+  return { url: resolved.toString(), score, discoveredFrom };
+}
+
+function discoverComplianceLinks(html: string, base: URL): ComplianceCrawlCandidate[] {
+  return [...html.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)].flatMap((match) => {
+    const href = parseHtmlAttributes(match[1]).href;
+    if (!href) return [];
+    const label = decodeHtmlEntities(match[2].replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+    const candidate = toComplianceCandidate(href, label, base, "link");
+    return candidate ? [candidate] : [];
+  });
+}
+
+function discoverSitemapComplianceUrls(xml: string, base: URL): ComplianceCrawlCandidate[] {
+  return [...xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/gi)].slice(0, MAX_SITEMAP_LOCS).flatMap((match) => {
+    const candidate = toComplianceCandidate(decodeHtmlEntities(match[1]), "", base, "sitemap");
+    return candidate ? [candidate] : [];
+  });
+}
+
+type SecurityFindingSeverity = "high" | "medium" | "low" | "info";
+
+interface SecurityHeaderFinding {
+  header: string;
+  severity: SecurityFindingSeverity;
+  issue: string;
+  remediation: string;
+}
+
+const SECURITY_FINDING_WEIGHTS: Record<SecurityFindingSeverity, number> = { high: 3, medium: 2, low: 1, info: 0 };
+const HSTS_RECOMMENDED_MIN_MAX_AGE = 15768000;
+const CSP_WILDCARD_SOURCES = new Set(["*", "http:", "https:", "data:", "blob:"]);
+const WEAK_REFERRER_POLICIES: Record<string, SecurityFindingSeverity> = {
+  "unsafe-url": "medium",
+  "no-referrer-when-downgrade": "low",
+};
+const REFERRER_POLICY_VALUES = new Set([
+  "no-referrer",
+  "no-referrer-when-downgrade",
+  "origin",
+  "origin-when-cross-origin",
+  "same-origin",
+  "strict-origin",
+  "strict-origin-when-cross-origin",
+  "unsafe-url",
+]);
+
+function parseContentSecurityPolicy(value: string): Map<string, string[]> {
+  const directives = new Map<string, string[]>();
+  for (const part of value.split(";")) {
+    const [name, ...sources] = part.trim().split(/\s+/);
+    // Browsers ignore repeated directives, so only the first one counts.
+    if (name && !directives.has(name.toLowerCase())) {
+      directives.set(name.toLowerCase(), sources.map((source) => source.toLowerCase()));
+    }
+  }
+  return directives;
+}
+
+function gradeContentSecurityPolicy(value: string): SecurityHeaderFinding[] {
+  const findings: SecurityHeaderFinding[] = [];
+  const add = (severity: SecurityFindingSeverity, issue: string, remediation: string) =>
+    findings.push({ header: "contentSecurityPolicy", severity, issue, remediation });
+  const directives = parseContentSecurityPolicy(value);
+  const defaultSrc = directives.get("default-src");
+  const scriptSrc = directives.get("script-src") ?? defaultSrc;
+
+  if (!scriptSrc) {
+    add("medium", "No script-src or default-src, so scripts may load from anywhere.", "Add default-src 'self' and a script-src allow-list.");
+  } else {
+    // A nonce or hash makes CSP2+ browsers ignore 'unsafe-inline'.
+    const hasNonceOrHash = scriptSrc.some((source) => /^'(nonce|sha256|sha384|sha512)-/.test(source));
+    if (scriptSrc.includes("'unsafe-inline'") && !hasNonceOrHash) {
+      add("high", "Scripts allow 'unsafe-inline', which defeats CSP protection against XSS.", "Remove 'unsafe-inline' and use nonces or hashes for inline scripts.");
+    }
+    if (scriptSrc.includes("'unsafe-eval'")) {
+      add("medium", "Scripts allow 'unsafe-eval'.", "Remove 'unsafe-eval' and avoid eval(), new Function(), and string timers.");
+    }
+    const wildcards = scriptSrc.filter((source) => CSP_WILDCARD_SOURCES.has(source));
+    if (wildcards.length > 0) {
+      add("high", `Scripts may load from wildcard or scheme-only sources (${wildcards.join(" ")}).`, "List specific script hosts instead of wildcards or bare schemes.");
+    }
+  }
+  const defaultWildcards = (defaultSrc ?? []).filter((source) => CSP_WILDCARD_SOURCES.has(source));
+  if (defaultWildcards.length > 0 && directives.has("script-src")) {
+    add("medium", `default-src allows wildcard or scheme-only sources (${defaultWildcards.join(" ")}).`, "Set default-src 'self' and loosen individual directives only where needed.");
+  }
+  if (!directives.has("frame-ancestors")) {
+    add("low", "No frame-ancestors directive, so CSP does not control framing.", "Add frame-ancestors 'none' or 'self'.");
+  }
+  const objectSrc = directives.get("object-src") ?? defaultSrc;
+  if (!objectSrc || !(objectSrc.length === 1 && objectSrc[0] === "'none'")) {
+    add("low", "object-src is not 'none', so plugin content may load.", "Add object-src 'none'.");
+  }
+  return findings;
+}
+
+function gradeStrictTransportSecurity(value: string): SecurityHeaderFinding[] {
+  const hsts = parseStrictTransportSecurity(value);
+  const header = "strictTransportSecurity";
+  if (!hsts.valid || hsts.maxAge === null) {
+    return [{ header, severity: "medium", issue: "Strict-Transport-Security is malformed and may be ignored.", remediation: "Send exactly one max-age, for example max-age=31536000; includeSubDomains." }];
+  }
+  const findings: SecurityHeaderFinding[] = [];
+  if (hsts.maxAge === 0) {
+    findings.push({ header, severity: "high", issue: "max-age=0 tells browsers to forget the HSTS policy.", remediation: "Set max-age to at least 31536000 (one year)." });
+  } else if (hsts.maxAge < HSTS_RECOMMENDED_MIN_MAX_AGE) {
+    findings.push({ header, severity: "medium", issue: `max-age=${hsts.maxAge} is under six months.`, remediation: "Set max-age to at least 31536000 (one year)." });
+  } else if (hsts.maxAge < HSTS_PRELOAD_MIN_MAX_AGE) {
+    findings.push({ header, severity: "low", issue: `max-age=${hsts.maxAge} is under one year.`, remediation: "Set max-age to at least 31536000 (one year)." });
+  }
+  if (!hsts.includeSubDomains) {
+    findings.push({ header, severity: "info", issue: "includeSubDomains is not set, so subdomains are not covered.", remediation: "Add includeSubDomains once every subdomain serves HTTPS." });
+  }
+  return findings;
+}
+
+function gradeXFrameOptions(value: string): SecurityHeaderFinding[] {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "deny" || normalized === "sameorigin") return [];
+  if (normalized.startsWith("allow-from")) {
+    return [{ header: "xFrameOptions", severity: "medium", issue: "ALLOW-FROM is ignored by modern browsers, which leaves the page frameable.", remediation: "Use CSP frame-ancestors to allow specific origins, and X-Frame-Options: SAMEORIGIN as a fallback." }];
+  }
+  return [{ header: "xFrameOptions", severity: "medium", issue: `Unrecognized value "${value}" is ignored by browsers.`, remediation: "Use DENY or SAMEORIGIN." }];
+}
+
+function gradeReferrerPolicy(value: string): SecurityHeaderFinding[] {
+  // Browsers apply the last value they understand from a comma-separated list.
+  const effective = value
+    .split(",")
+    .map((policy) => policy.trim().toLowerCase())
+    .filter((policy) => REFERRER_POLICY_VALUES.has(policy))
+    .pop();
+  if (!effective) {
+    return [{ header: "referrerPolicy", severity: "low", issue: `Unrecognized value "${value}" is ignored by browsers.`, remediation: "Use strict-origin-when-cross-origin or stricter." }];
+  }
+  const severity = WEAK_REFERRER_POLICIES[effective];
+  return severity
+    ? [{ header: "referrerPolicy", severity, issue: `${effective} sends full URLs to other origins.`, remediation: "Use strict-origin-when-cross-origin or stricter." }]
+    : [];
+}
+
+function gradeLeakyHeaders(headers: Headers): SecurityHeaderFinding[] {
+  const findings: SecurityHeaderFinding[] = [];
+  const poweredBy = headers.get("x-powered-by");
+  if (poweredBy) {
+    findings.push({ header: "x-powered-by", severity: "low", issue: `X-Powered-By reveals the stack ("${poweredBy}").`, remediation: "Remove the X-Powered-By header." });
+  }
+  const server = headers.get("server");
+  if (server && /\d/.test(server)) {
+    findings.push({ header: "server", severity: "low", issue: `Server header reveals a version ("${server}").`, remediation: "Strip version numbers from the Server header." });
+  }
+  for (const name of ["x-aspnet-version", "x-aspnetmvc-version"]) {
+    const value = headers.get(name);
+    if (value) {
+      findings.push({ header: name, severity: "low", issue: `${name} reveals the framework version ("${value}").`, remediation: `Remove the ${name} header.` });
+    }
+  }
+  const xssProtection = headers.get("x-xss-protection");
+  if (xssProtection && xssProtection.trim() !== "0") {
+    findings.push({ header: "x-xss-protection", severity: "low", issue: "X-XSS-Protection is deprecated, and its filter can introduce XSS in older browsers.", remediation: "Remove the header or set it to 0, and rely on Content-Security-Policy." });
+  }
+  return findings;
+}
+
+// Names that usually carry authentication state. CSRF cookies are left out on
+// purpose: they are often meant to be readable by JavaScript.
+const SESSION_COOKIE_NAME_PATTERN = /sess|(^|[._-])sid$|auth|token|jwt|login|remember/i;
+
+interface CookieAudit {
+  name: string;
+  value: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite: string | null;
+  domain: string | null;
+  path: string | null;
+  expires: string | null;
+  maxAge: number | null;
+  persistent: boolean;
+  looksLikeSession: boolean;
+  findings: Omit<SecurityHeaderFinding, "header">[];
+}
+
+export function auditSetCookie(setCookie: string): CookieAudit {
+  const [pair, ...attributeParts] = setCookie.split(";");
+  const separator = pair.indexOf("=");
+  const name = (separator === -1 ? "" : pair.slice(0, separator)).trim();
+  const rawValue = (separator === -1 ? pair : pair.slice(separator + 1)).trim();
+
+  const attributes = new Map<string, string>();
+  for (const part of attributeParts) {
+    const [key, ...rest] = part.split("=");
+    const attribute = key.trim().toLowerCase();
+    if (attribute) attributes.set(attribute, rest.join("=").trim());
+  }
+
+  const expiresDate = attributes.has("expires") ? new Date(attributes.get("expires")!) : null;
+  const maxAgeValue = attributes.has("max-age") ? Number.parseInt(attributes.get("max-age")!, 10) : NaN;
+  const sameSiteValue = attributes.get("samesite");
+  const audit: CookieAudit = {
+    name,
+    value: rawValue ? "[REDACTED]" : "",
+    secure: attributes.has("secure"),
+    httpOnly: attributes.has("httponly"),
+    sameSite: sameSiteValue ? sameSiteValue.charAt(0).toUpperCase() + sameSiteValue.slice(1).toLowerCase() : null,
+    domain: attributes.get("domain") || null,
+    path: attributes.get("path") || null,
+    expires: expiresDate && !Number.isNaN(expiresDate.getTime()) ? expiresDate.toISOString() : null,
+    maxAge: Number.isNaN(maxAgeValue) ? null : maxAgeValue,
+    persistent: attributes.has("expires") || attributes.has("max-age"),
+    looksLikeSession: SESSION_COOKIE_NAME_PATTERN.test(name),
+    findings: [],
+  };
+
+  const add = (severity: SecurityFindingSeverity, issue: string, remediation: string) =>
+    audit.findings.push({ severity, issue, remediation });
+  if (audit.looksLikeSession && !audit.secure) {
+    add("high", "Session-like cookie is sent without Secure, so it can travel over plain HTTP.", "Add the Secure attribute.");
+  }
+  if (audit.looksLikeSession && !audit.httpOnly) {
+    add("medium", "Session-like cookie is readable by JavaScript, so an XSS bug can steal it.", "Add the HttpOnly attribute.");
+  }
+  if (audit.sameSite === "None" && !audit.secure) {
+    add("medium", "SameSite=None without Secure is rejected by modern browsers.", "Add Secure, or use SameSite=Lax.");
+  }
+  if (audit.looksLikeSession && !audit.sameSite) {
+    add("low", "No SameSite attribute; only some browsers default to Lax.", "Set SameSite=Lax or SameSite=Strict explicitly.");
+  }
+  if (name.startsWith("__Secure-") && !audit.secure) {
+    add("medium", "__Secure- prefix requires Secure, so browsers reject this cookie.", "Add the Secure attribute.");
+  }
+  if (name.startsWith("__Host-") && (!audit.secure || audit.path !== "/" || audit.domain)) {
+    add("medium", "__Host- prefix requires Secure, Path=/, and no Domain, so browsers reject this cookie.", "Set Secure and Path=/ and remove Domain.");
+  }
+  return audit;
+}
+
+export function getSecurityHeaderSummary(headers: Headers) {
+  const summary = {
+    strictTransportSecurity: headers.get("strict-transport-security"),
+    contentSecurityPolicy: headers.get("content-security-policy"),
+    xFrameOptions: headers.get("x-frame-options"),
+    referrerPolicy: headers.get("referrer-policy"),
+    permissionsPolicy: headers.get("permissions-policy"),
+    xContentTypeOptions: headers.get("x-content-type-options"),
+    crossOriginOpenerPolicy: headers.get("cross-origin-opener-policy"),
+    crossOriginResourcePolicy: headers.get("cross-origin-resource-policy"),
+  };
+
+  const presentCount = Object.values(summary).filter((value) => Boolean(value)).length;
+  const missingRecommended = Object.entries(summary)
+    .filter(([, value]) => !value)
+    .map(([name]) => name);
+
+  const findings: SecurityHeaderFinding[] = [];
+  if (summary.contentSecurityPolicy) {
+    findings.push(...gradeContentSecurityPolicy(summary.contentSecurityPolicy));
+  } else {
+    findings.push({
+      header: "contentSecurityPolicy",
+      severity: "medium",
+      issue: headers.has("content-security-policy-report-only")
+        ? "Only Content-Security-Policy-Report-Only is set, which reports but blocks nothing."
+        : "No Content-Security-Policy.",
+      remediation: "Add a Content-Security-Policy with default-src 'self', object-src 'none', and frame-ancestors.",
+    });
+  }
+  if (summary.strictTransportSecurity) {
+    findings.push(...gradeStrictTransportSecurity(summary.strictTransportSecurity));
+  } else {
+    findings.push({ header: "strictTransportSecurity", severity: "medium", issue: "No Strict-Transport-Security, so first visits can be downgraded to HTTP.", remediation: "Add Strict-Transport-Security: max-age=31536000; includeSubDomains." });
+  }
+  if (summary.xFrameOptions) {
+    findings.push(...gradeXFrameOptions(summary.xFrameOptions));
+  } else if (!summary.contentSecurityPolicy || !parseContentSecurityPolicy(summary.contentSecurityPolicy).has("frame-ancestors")) {
+    findings.push({ header: "xFrameOptions", severity: "medium", issue: "Neither X-Frame-Options nor CSP frame-ancestors is set, so the page can be framed (clickjacking).", remediation: "Add CSP frame-ancestors 'self', with X-Frame-Options: SAMEORIGIN as a fallback." });
+  }
+  if (summary.referrerPolicy) {
+    findings.push(...gradeReferrerPolicy(summary.referrerPolicy));
+  } else {
+    findings.push({ header: "referrerPolicy", severity: "low", issue: "No Referrer-Policy; browsers fall back to their default.", remediation: "Add Referrer-Policy: strict-origin-when-cross-origin." });
+  }
+  if (summary.xContentTypeOptions?.trim().toLowerCase() !== "nosniff") {
+    findings.push({ header: "xContentTypeOptions", severity: "low", issue: summary.xContentTypeOptions ? `Value "${summary.xContentTypeOptions}" is not nosniff.` : "No X-Content-Type-Options, so browsers may MIME-sniff responses.", remediation: "Add X-Content-Type-Options: nosniff." });
+  }
+  if (!summary.permissionsPolicy) {
+    findings.push({ header: "permissionsPolicy", severity: "low", issue: "No Permissions-Policy restricting browser features.", remediation: "Add a Permissions-Policy that disables unused features, for example camera=(), microphone=(), geolocation=()." });
+  }
+  if (!summary.crossOriginOpenerPolicy) {
+    findings.push({ header: "crossOriginOpenerPolicy", severity: "info", issue: "No Cross-Origin-Opener-Policy.", remediation: "Add Cross-Origin-Opener-Policy: same-origin if the page does not rely on cross-origin popups." });
+  }
+  if (!summary.crossOriginResourcePolicy) {
+    findings.push({ header: "crossOriginResourcePolicy", severity: "info", issue: "No Cross-Origin-Resource-Policy.", remediation: "Add Cross-Origin-Resource-Policy: same-origin or same-site." });
+  }
+  findings.push(...gradeLeakyHeaders(headers));
+
+  // Score by the weighted severity of what was found rather than by how many headers exist,
+  // so a permissive policy does not count the same as a strict one.
+  const riskPoints = findings.reduce((total, finding) => total + SECURITY_FINDING_WEIGHTS[finding.severity], 0);
+  const hasHigh = findings.some((finding) => finding.severity === "high");
+  const score = !hasHigh && riskPoints <= 3 ? "strong" : riskPoints <= 8 ? "moderate" : "weak";
+
+  return {
+    headers: summary,
+    presentCount,
+    missingRecommended,
+    findings,
+    riskPoints,
+    score,
+    cookies: headers.getSetCookie().map(auditSetCookie),
+  };
+}
+
+// --- TLS / HTTPS posture helpers ---
+// hstspreload.org submission requirements: one year max-age, includeSubDomains, preload.
+const HSTS_PRELOAD_MIN_MAX_AGE = 31536000;
+const MAX_MIXED_CONTENT_REFERENCES = 20;
+const ACTIVE_MIXED_CONTENT_TAGS = new Set(["script", "iframe", "frame", "embed", "object"]);
+const MIXED_CONTENT_TAG_PATTERN = /<(script|link|iframe|frame|embed|object|img|audio|video|source|track)\b([^>]*)>/gi;
+const MIXED_CONTENT_URL_ATTRIBUTES = ["src", "href", "data", "poster"];
+// Other link relations (canonical, alternate, author, ...) are never fetched as part of the page.
+const ACTIVE_LINK_RELS = ["stylesheet", "preload", "modulepreload"];
+const PASSIVE_LINK_RELS = ["icon"];
+const FORM_ACTION_PATTERN = /<form\b([^>]*)>/gi;
+
+function parseStrictTransportSecurity(value: string | null) {
+  if (!value) {
+    return { present: false, raw: null, valid: false, maxAge: null, includeSubDomains: false, preload: false };
+  }
+
+  const seen = new Set<string>();
+  let valid = true;
+  let maxAge: number | null = null;
+  for (const part of value.split(";")) {
+    const directive = part.trim();
+    if (!directive) continue;
+    const [rawName, ...rest] = directive.split("=");
+    const name = rawName.trim().toLowerCase();
+    if (seen.has(name)) valid = false;
+    seen.add(name);
+    if (name === "max-age") {
+      const parsed = Number(rest.join("=").trim().replace(/^"(.*)"$/, "$1"));
+      if (Number.isInteger(parsed) && parsed >= 0) {
+        maxAge = parsed;
+      } else {
+        valid = false;
+      }
+    }
+  }
+  if (maxAge === null) valid = false;
+
+  return {
+    present: true,
+    raw: value,
+    valid,
+    maxAge,
+    includeSubDomains: seen.has("includesubdomains"),
+    preload: seen.has("preload"),
+  };
+}
+
+function isInsecureHttpUrl(value: string | undefined): value is string {
+  return value !== undefined && /^http:\/\//i.test(value.trim());
+}
+
+export function findMixedContent(body: string) {
+  const active = new Set<string>();
+  const passive = new Set<string>();
+  for (const match of body.matchAll(MIXED_CONTENT_TAG_PATTERN)) {
+    const tag = match[1].toLowerCase();
+    const attributes = parseHtmlAttributes(match[2]);
+    let target = ACTIVE_MIXED_CONTENT_TAGS.has(tag) ? active : passive;
+    if (tag === "link") {
+      const rels = (attributes.rel ?? "").toLowerCase().split(/\s+/);
+      if (rels.some((rel) => ACTIVE_LINK_RELS.includes(rel))) target = active;
+      else if (rels.some((rel) => PASSIVE_LINK_RELS.includes(rel))) target = passive;
+      else continue;
+    }
+    for (const name of MIXED_CONTENT_URL_ATTRIBUTES) {
+      const value = attributes[name];
+      if (isInsecureHttpUrl(value)) target.add(value.trim());
+    }
+  }
+  return {
+    activeCount: active.size,
+    passiveCount: passive.size,
+    active: [...active].slice(0, MAX_MIXED_CONTENT_REFERENCES),
+    passive: [...passive].slice(0, MAX_MIXED_CONTENT_REFERENCES),
+  };
+}
+
+/** Forms that submit to http://. Not mixed content, since nothing loads, but the submitted data travels in clear text. */
+export function findInsecureFormActions(body: string) {
+  const actions = new Set<string>();
+  for (const match of body.matchAll(FORM_ACTION_PATTERN)) {
+    const action = parseHtmlAttributes(match[1]).action;
+    if (isInsecureHttpUrl(action)) actions.add(action.trim());
+  }
+  return { count: actions.size, actions: [...actions].slice(0, MAX_MIXED_CONTENT_REFERENCES) };
+}
+
+function getHstsPreloadIssues(
+  hostname: string,
+  hsts: ReturnType<typeof parseStrictTransportSecurity>,
+  httpRedirect: { redirectsToHttps: boolean; sameHostFirstHop: boolean },
+): string[] {
+  const issues: string[] = [];
+  if (!httpRedirect.redirectsToHttps) {
+    issues.push("HTTP does not redirect to HTTPS.");
+  } else if (!httpRedirect.sameHostFirstHop) {
+    issues.push("The first HTTP redirect does not go to HTTPS on the same host.");
+  }
+  if (!hsts.present) {
+    issues.push("No Strict-Transport-Security header on the HTTPS response.");
+    return issues;
+  }
+  if (!hsts.valid) issues.push("Strict-Transport-Security header is malformed.");
+  if ((hsts.maxAge ?? 0) < HSTS_PRELOAD_MIN_MAX_AGE) {
+    issues.push(`max-age is below ${HSTS_PRELOAD_MIN_MAX_AGE} seconds (one year).`);
+  }
+  if (!hsts.includeSubDomains) issues.push("includeSubDomains directive is missing.");
+  if (!hsts.preload) issues.push("preload directive is missing.");
+  const siteKey = getSiteKey(hostname);
+  if (siteKey !== hostname) {
+    issues.push(`Only registrable domains can be preloaded; inspect ${siteKey} instead.`);
+  }
+  return issues;
+}
+
+// --- security.txt (RFC 9116) ---
+// Lowercased field name to its RFC 9116 spelling, for fields whose values are web URIs.
+const SECURITY_TXT_WEB_URI_FIELDS = new Map([
+  ["acknowledgments", "Acknowledgments"],
+  ["canonical", "Canonical"],
+  ["csaf", "CSAF"],
+  ["encryption", "Encryption"],
+  ["hiring", "Hiring"],
+  ["policy", "Policy"],
+]);
+const SECURITY_TXT_KNOWN_FIELDS = new Set([...SECURITY_TXT_WEB_URI_FIELDS.keys(), "contact", "expires", "preferred-languages"]);
+const SECURITY_TXT_MAX_RECOMMENDED_LIFETIME_MS = 366 * 24 * 60 * 60 * 1000;
+const SECURITY_TXT_EXPIRES_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/i;
+
+/**
+ * Removes an OpenPGP cleartext signature (RFC 4880 section 7): the armor header,
+ * the Hash: lines, the trailing signature block, and dash-escaping.
+ */
+function stripPgpCleartextSignature(text: string): { content: string; signed: boolean } {
+  const trimmed = text.replace(/^\uFEFF/, "");
+  if (!trimmed.startsWith("-----BEGIN PGP SIGNED MESSAGE-----")) return { content: trimmed, signed: false };
+  const signatureStart = trimmed.indexOf("-----BEGIN PGP SIGNATURE-----");
+  const lines = trimmed.slice(0, signatureStart === -1 ? undefined : signatureStart).split(/\r?\n/).slice(1);
+  const bodyStart = lines.findIndex((line) => line.trim() === "");
+  return {
+    content: lines.slice(bodyStart + 1).map((line) => (line.startsWith("- ") ? line.slice(2) : line)).join("\n"),
+    signed: signatureStart !== -1,
+  };
+}
+
+/**
+ * Parses a security.txt body and checks the RFC 9116 requirements that can be
+ * verified without fetching the referenced URIs. errors make the file invalid;
+ * warnings are recommendations.
+ */
+export function parseSecurityTxt(text: string, fileUrl: string, now = Date.now()) {
+  const { content, signed } = stripPgpCleartextSignature(text);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const fields = new Map<string, string[]>();
+  const unknownFields = new Set<string>();
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) return;
+    const match = line.match(/^([A-Za-z0-9-]+):\s*(.*)$/);
+    if (!match) {
+      errors.push(`Line ${index + 1} is not a "Field: value" line or a comment.`);
+      return;
+    }
+    const name = match[1].toLowerCase();
+    if (!SECURITY_TXT_KNOWN_FIELDS.has(name)) unknownFields.add(match[1]);
+    fields.set(name, [...(fields.get(name) ?? []), match[2].trim()]);
+  });
+
+  const contact = fields.get("contact") ?? [];
+  const expiresValues = fields.get("expires") ?? [];
+  const preferredLanguageValues = fields.get("preferred-languages") ?? [];
+  if (contact.length === 0) errors.push("Missing required Contact field.");
+  for (const value of contact) {
+    if (!/^(?:mailto:|tel:|https:)/i.test(value)) {
+      errors.push(`Contact "${value}" must be a mailto:, tel:, or https:// URI.`);
+    }
+  }
+  for (const [name, label] of SECURITY_TXT_WEB_URI_FIELDS) {
+    for (const value of fields.get(name) ?? []) {
+      if (/^http:/i.test(value)) errors.push(`${label} "${value}" must use https://.`);
+    }
+  }
+
+  let expires: string | null = null;
+  let expired: boolean | null = null;
+  if (expiresValues.length === 0) {
+    errors.push("Missing required Expires field.");
+  } else {
+    if (expiresValues.length > 1) errors.push("Expires must appear only once.");
+    expires = expiresValues[0];
+    const expiresAt = Date.parse(expires);
+    if (!SECURITY_TXT_EXPIRES_PATTERN.test(expires) || Number.isNaN(expiresAt)) {
+      errors.push(`Expires "${expires}" is not an RFC 3339 date-time such as 2026-12-31T23:59:59Z.`);
+    } else {
+      expired = expiresAt <= now;
+      if (expired) errors.push(`The file expired on ${new Date(expiresAt).toISOString()}.`);
+      else if (expiresAt - now > SECURITY_TXT_MAX_RECOMMENDED_LIFETIME_MS) {
+        warnings.push("Expires is more than a year away; RFC 9116 recommends less than a year.");
+      }
+    }
+  }
+  if (preferredLanguageValues.length > 1) errors.push("Preferred-Languages must appear only once.");
+
+  const canonical = fields.get("canonical") ?? [];
+  if (canonical.length > 0 && !canonical.includes(fileUrl)) {
+    warnings.push(`Canonical does not list ${fileUrl}.`);
+  }
+  if (!signed) warnings.push("The file is not signed with an OpenPGP cleartext signature.");
+  if (unknownFields.size > 0) warnings.push(`Unrecognized fields: ${[...unknownFields].join(", ")}.`);
+
+  return {
+    valid: errors.length === 0,
+    expired,
+    signed,
+    contact,
+    expires,
+    encryption: fields.get("encryption") ?? [],
+    policy: fields.get("policy") ?? [],
+    preferredLanguages: (preferredLanguageValues[0] ?? "").split(",").map((tag) => tag.trim()).filter(Boolean),
+    acknowledgments: fields.get("acknowledgments") ?? [],
+    canonical,
+    hiring: fields.get("hiring") ?? [],
+    errors,
+    warnings,
+  };
+}
+
+// --- Cloudflare Monetization Gateway x402 Helper Functions ---
+
+/**
+ * Get x402 payment requirements for a specific tool
+ */
+async function getX402PaymentRequirements(toolName: string): Promise<X402PaymentRequirements[]> {
+  const normalizedNetwork = normalizeX402Network(X402_NETWORK_CONFIG);
+  const priceUSD = X402_TOOL_PRICES_USD[toolName as keyof typeof X402_TOOL_PRICES_USD];
+  
+  if (!priceUSD || !x402ResourceServer) {
+    return [];
+  }
+  
+  // Convert USD to atomic units (USDC has 6 decimals)
+  // For testnet, we'll use a small amount; for mainnet, actual pricing
+  const isTestnet = normalizedNetwork === "eip155:84532"; // base-sepolia
+  const amountInAtomicUnits = isTestnet 
+    ? "100" // 0.0001 USDC for testing
+    : String(Math.round(priceUSD * 1_000_000)); // Convert USD to USDC atomic units (6 decimals)
+  
+  const asset = isTestnet ? "0x0c9e55395b598813254324832f30322987287449" : "0xA0b86a33E6441b8b24c7e86e32B19C5D82cdDB2c"; // USDC addresses
+  
+  return [
+    {
+      scheme: "eip155:eip3009",
+      network: normalizedNetwork,
+      asset: asset,
+      amount: amountInAtomicUnits,
+      payTo: X402_RECIPIENT_CONFIG,
+      maxTimeoutSeconds: 60,
+      extra: {
+        facilitatorUrl: X402_FACILITATOR_URL_CONFIG,
+      },
+    }
+  ];
+}
+
+/**
+ * Check if x402 payment is provided and valid
+ */
+async function checkX402Payment(
+  toolName: string, 
+  meta: Record<string, unknown> | undefined,
+  env: Env
+): Promise<{ valid: boolean; error?: unknown }> {
+  if (!X402_PAYMENT_ENABLED || !x402ResourceServer) {
+    return { valid: false };
+  }
+  
+  const paymentToken = meta?.["x402/payment"] as string | undefined;
+  if (!paymentToken) {
+    return { valid: false };
+  }
+  
+  try {
+    const paymentRequirements = await getX402PaymentRequirements(toolName);
+    if (paymentRequirements.length === 0) {
+      return { valid: false };
+    }
+    
+    // Parse the base64-encoded payment payload
+    let paymentPayload: X402PaymentPayload;
+    try {
+      const decoded = JSON.parse(atob(paymentToken));
+      paymentPayload = decoded as X402PaymentPayload;
+    } catch (e) {
+      console.error("Failed to decode x402 payment token:", e);
+      return { valid: false, error: "Invalid payment token format" };
+    }
+    
+    // Validate the payment payload using the x402 server
+    const validation = await x402ResourceServer.verifyPayment(
+      paymentPayload,
+      paymentRequirements[0] // Use first requirement
+    );
+    
+    if (validation.isValid) {
+      return { valid: true };
+    } else {
+      return { 
+        valid: false, 
+        error: validation.invalidMessage || validation.invalidReason || "Payment verification failed"
+      };
+    }
+  } catch (error) {
+    console.error("x402 payment validation error:", error);
+    return { valid: false, error };
+  }
+}
+
+/**
+ * Get x402 metadata for tool responses
+ */
+function getX402Metadata(toolName: string): Record<string, unknown> {
+  const priceUSD = X402_TOOL_PRICES_USD[toolName as keyof typeof X402_TOOL_PRICES_USD];
+  const normalizedNetwork = normalizeX402Network(X402_NETWORK_CONFIG);
+  
+  if (!priceUSD || !X402_PAYMENT_ENABLED) {
+    return {};
+  }
+  
+  return {
+    "agents-x402/paymentRequired": true,
+    "agents-x402/priceUSD": priceUSD,
+    "agents-x402/network": normalizedNetwork,
+    "agents-x402/asset": normalizedNetwork === "eip155:84532" ? "Test USDC" : "USDC",
+    "agents-x402/priceAmount": priceUSD,
+    "agents-x402/priceCurrency": "USD",
+    "agents-x402/payTo": X402_RECIPIENT_CONFIG,
+  };
+}
+
+// --- Error handling functions ---
+
+function getJsonRpcErrorCode(status: number): number {
+  switch (status) {
+    case 401:
+      return -32001;
+    case 402:
+      return -32002;
+    case 429:
+      return -32029;
+    default:
+      return -32000;
+  }
+}
+
+function normalizeJsonRpcId(value: unknown): number | string | null {
+  if (typeof value === "number" || typeof value === "string") {
+    return value;
+  }
+  return null;
+}
+
+function jsonError(
+  status: number,
+  error: string,
+  message: string,
+  details: Record<string, unknown> = {},
+  requestId?: number | string | null,
+): Response {
+  const hasRequestId = requestId !== undefined;
+  const normalizedRequestId = normalizeJsonRpcId(requestId);
+  return jsonResponse(
+    hasRequestId
+      ? {
+          jsonrpc: "2.0",
+          error: {
+            code: getJsonRpcErrorCode(status),
+            message,
+            data: {
+              error,
+              status,
+              ...details,
+            },
+          },
+          id: normalizedRequestId,
+        }
+      : {
+          error,
+          message,
+          status,
+          ...details,
+        },
+    { status },
+  );
+}
+
+function normalizeHttpUrlInput(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  const candidate = /^[a-zA-Z][a-zA-Z\d+.-]*:/.test(trimmed)
+    ? trimmed
+    : `https://${trimmed}`;
+
+  try {
+    const parsed = new URL(candidate);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return null;
+    }
+    if (!parsed.hostname) {
+      return null;
+    }
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+function normalizeApiKeyRecord(data: unknown): ApiKeyRecord | null {
+  if (!data || typeof data !== "object") return null;
+  return data as ApiKeyRecord;
+}
+
+function isStripeSubscriptionActive(status?: string): boolean {
+  return status === "active" || status === "trialing";
+}
+
+function isBillingActive(record: ApiKeyRecord): boolean {
+  if (typeof record.subscriptionStatus === "string") {
+    return isStripeSubscriptionActive(record.subscriptionStatus);
+  }
+  if (typeof record.billingActive === "boolean") {
+    return record.billingActive;
+  }
+  return record.active === true;
+}
+
+function getProQuota(record: ApiKeyRecord): number {
+  return typeof record.monthlyQuota === "number" ? record.monthlyQuota : PAID_MONTHLY_LIMIT;
+}
+
+function getUsageStorageKey(subjectType: "free" | "free_verify_claim" | "pro", month: string, subjectId: string): string {
+  return `usage:${subjectType}:${month}:${subjectId}`;
+}
+
+function inferTrafficSource(request: Request): string {
+  const referrer = request.headers.get("referer") ?? request.headers.get("referrer") ?? "";
+  const userAgent = request.headers.get("user-agent") ?? "";
+  const composite = `${referrer} ${userAgent}`.toLowerCase();
+
+  if (composite.includes("glama.ai")) return "glama";
+  if (composite.includes("smithery.ai")) return "smithery";
+  if (composite.includes("xpay")) return "xpay";
+  if (composite.includes("localhost") || composite.includes("127.0.0.1") || composite.includes("wrangler")) return "local";
+  if (!referrer) return "direct";
+  return "referral";
+}
+
+async function sha256Hex(input: string): Promise<string> {
+  const bytes = new TextEncoder().encode(input);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((value) => value.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function isLoopbackIp(value: string): boolean {
+  return value === "127.0.0.1" ||
+    value === "::1" ||
+    value === "::ffff:127.0.0.1";
+}
+
+function isLocalRequest(request: Request, ip?: string): boolean {
+  const hostname = new URL(request.url).hostname;
+  return hostname === "localhost" ||
+    hostname === "127.0.0.1" ||
+    hostname === "::1" ||
+    (typeof ip === "string" && isLoopbackIp(ip));
+}
+
+function getAnonymousClientSource(request: Request): { type: string; value: string } {
+  const anonymousClientId = request.headers.get("x-anonymous-client-id")?.trim();
+  const cfConnectingIp = request.headers.get("cf-connecting-ip")?.trim();
+  if (cfConnectingIp && !(anonymousClientId && isLocalRequest(request, cfConnectingIp))) {
+    return { type: "ip", value: cfConnectingIp };
+  }
+
+  const xForwardedFor = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  if (xForwardedFor && !(anonymousClientId && isLocalRequest(request, xForwardedFor))) {
+    return { type: "ip", value: xForwardedFor };
+  }
+
+  const xRealIp = request.headers.get("x-real-ip")?.trim();
+  if (xRealIp && !(anonymousClientId && isLocalRequest(request, xRealIp))) {
+    return { type: "ip", value: xRealIp };
+  }
+
+  if (anonymousClientId) {
+    return { type: "anonymous_client_id", value: anonymousClientId };
+  }
+
+  return {
+    type: "user_agent",
+    value: request.headers.get("user-agent")?.trim() || "unknown-client",
+  };
+}
+
+async function getApiKeyRecord(kv: KVNamespace, apiKey: string): Promise<ApiKeyRecord | null> {
+  try {
+    const data = await kv.get(apiKey, "json");
+    return normalizeApiKeyRecord(data);
+  } catch {
+    return null;
+  }
+}
+
+async function saveApiKeyRecord(kv: KVNamespace, apiKey: string, record: ApiKeyRecord): Promise<void> {
+  await kv.put(apiKey, JSON.stringify(record));
+}
+
+async function updateCustomerBillingState(
+  kv: KVNamespace,
+  customerId: string,
+  updates: Partial<ApiKeyRecord>,
+): Promise<void> {
+  const keysList = await kv.list({ prefix: "gt_live_" });
+
+  for (const key of keysList.keys) {
+    const data = await getApiKeyRecord(kv, key.name);
+    if (!data || data.stripeCustomerId !== customerId) continue;
+
+    await saveApiKeyRecord(kv, key.name, {
+      ...data,
+      ...updates,
+    });
+  }
+}
+
+async function getUsageRecord(kv: KVNamespace, usageKey: string): Promise<UsageRecord | null> {
+  const data = await kv.get(usageKey, "json");
+  if (!data || typeof data !== "object") return null;
+
+  const record = data as Partial<UsageRecord>;
+  return {
+    month: typeof record.month === "string" ? record.month : getCurrentUsageMonth(),
+    subjectType: record.subjectType === "pro" ? "pro" : "free",
+    subjectId: typeof record.subjectId === "string" ? record.subjectId : usageKey,
+    total: typeof record.total === "number" ? record.total : 0,
+    byTool: typeof record.byTool === "object" && record.byTool !== null
+      ? record.byTool as Record<string, number>
+      : {},
+    updatedAt: typeof record.updatedAt === "string" ? record.updatedAt : new Date().toISOString(),
+  };
+}
+
+async function checkUsageLimit(
+  kv: KVNamespace,
+  usageKey: string,
+  limit: number,
+): Promise<UsageLimitResult> {
+  const record = await getUsageRecord(kv, usageKey);
+  const used = record?.total ?? 0;
+  return {
+    allowed: used < limit,
+    used,
+    limit,
+    remaining: Math.max(limit - used, 0),
+    record,
+  };
+}
+
+async function incrementUsage(
+  kv: KVNamespace,
+  usageKey: string,
+  subjectType: "free" | "free_verify_claim" | "pro",
+  subjectId: string,
+  month: string,
+  toolName: string,
+): Promise<UsageRecord> {
+  const record = await getUsageRecord(kv, usageKey);
+  const nextRecord: UsageRecord = {
+    month,
+    subjectType,
+    subjectId,
+    total: (record?.total ?? 0) + 1,
+    byTool: {
+      ...(record?.byTool ?? {}),
+      [toolName]: ((record?.byTool ?? {})[toolName] ?? 0) + 1,
+    },
+    updatedAt: new Date().toISOString(),
+  };
+
+  await kv.put(usageKey, JSON.stringify(nextRecord));
+  return nextRecord;
+}
+
+async function requireProAccess(
+  kv: KVNamespace,
+  request: Request,
+  toolName: string,
+  requestId?: number | string | null,
+): Promise<ProAccessContext | Response> {
+  const apiKey = request.headers.get("X-API-Key")?.trim();
+  if (!apiKey) {
+    return jsonError(
+      401,
+      "missing_api_key",
+      `Tool '${toolName}' requires a team API key.`,
+      {
+        tier: "team",
+        tool: toolName,
+      },
+      requestId,
+    );
+  }
+
+  const apiKeyRecord = await getApiKeyRecord(kv, apiKey);
+  if (!apiKeyRecord) {
+    return jsonError(
+      401,
+      "invalid_api_key",
+      "The provided API key is invalid.",
+      {
+        tier: "team",
+        tool: toolName,
+      },
+      requestId,
+    );
+  }
+
+  if (!isBillingActive(apiKeyRecord)) {
+    return jsonError(
+      402,
+      "billing_inactive",
+      "Billing is inactive for this API key.",
+      {
+        tier: "team",
+        tool: toolName,
+        subscriptionStatus: apiKeyRecord.subscriptionStatus ?? "inactive",
+      },
+      requestId,
+    );
+  }
+
+  const month = getCurrentUsageMonth();
+  const subjectId = await sha256Hex(apiKey);
+  const usageKey = getUsageStorageKey("pro", month, subjectId);
+  const limit = getProQuota(apiKeyRecord);
+  const usage = await checkUsageLimit(kv, usageKey, limit);
+
+  if (!usage.allowed) {
+    return jsonError(
+      429,
+      "quota_exceeded",
+      `Monthly quota exceeded for ${month}. You have used ${usage.used} of ${limit} included calls.`,
+      {
+        tier: "paid",
+        tool: toolName,
+        month,
+        limit,
+        used: usage.used,
+        remaining: usage.remaining,
+      },
+      requestId,
+    );
+  }
+
+  return {
+    apiKey,
+    apiKeyRecord,
+    limit,
+    month,
+    subjectId,
+    usageKey,
+  };
+}
+
+// --- API Key helpers ---
+function generateApiKey(): string {
+  const chars = "0123456789abcdef";
+  let key = "gt_live_";
+  for (let i = 0; i < 32; i++) {
+    key += chars[Math.floor(Math.random() * chars.length)];
+  }
+  return key;
+}
+
+// --- Remote telemetry logger ---
+type TelemetryMetadata = Record<string, string | number | boolean | null>;
+
+async function logRemoteUsage(
+  tool: string,
+  success: boolean,
+  eventName = "tool_call_completed",
+  metadata: TelemetryMetadata = {},
+): Promise<void> {
+  if (!TELEMETRY_ENABLED) return;
+  
+  try {
+    const platform = workerProcess?.platform ?? "unknown";
+    
+    // Non-blocking fire-and-forget POST to Neon via HTTP proxy
+    // Use a lightweight edge function to insert into Postgres
+    fetch("https://ground-truth-dashboard.vercel.app/api/track", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        event_name: eventName,
+        tool_name: tool,
+        success,
+        server_version: SERVER_VERSION,
+        os_platform: platform,
+        metadata,
+        timestamp: new Date().toISOString(),
+      }),
+    }).catch(() => {}); // Silently fail - telemetry should never break the app
+  } catch {
+    // Ignore telemetry errors
+  }
+}
+
+type SqlTagFn = <T = Record<string, string | number | boolean | null>>(
+  strings: TemplateStringsArray,
+  ...values: (string | number | boolean | null)[]
+) => T[];
+
+// --- Cache helpers using Durable Object SQLite tagged template ---
+function cacheGet(sql: SqlTagFn, key: string): { data: string; ts: number } | null {
+  const rows = sql<{ data: string; ts: number }>`SELECT data, ts FROM cache WHERE key = ${key}`;
+  if (rows.length === 0) return null;
+  const row = rows[0];
+  if (Date.now() - row.ts > CACHE_TTL_MS) {
+    sql`DELETE FROM cache WHERE key = ${key}`;
+    return null;
+  }
+  return row;
+}
+
+function cacheSet(sql: SqlTagFn, key: string, data: string): void {
+  if (data.length > MAX_CACHEABLE_BODY_BYTES) return;
+
+  const ts = Date.now();
+  try {
+    sql`INSERT OR REPLACE INTO cache (key, data, ts) VALUES (${key}, ${data}, ${ts})`;
+  } catch {
+    // Cache writes should never take down a verification request.
+  }
+}
+
+// --- Outbound request guard ---
+// Every fetch made on behalf of a caller goes through guardedFetch so the free
+// tier cannot be used to reach loopback, private, link-local, or metadata hosts.
+const MAX_OUTBOUND_REDIRECTS = 10;
+const DEFAULT_FETCH_TIMEOUT_MS = 10 * 1000;
+const MIN_FETCH_TIMEOUT_MS = 1000;
+const MAX_FETCH_TIMEOUT_MS = 30 * 1000;
+const MONITOR_FETCH_TIMEOUT_MS = 15 * 1000;
+const DNS_OVER_HTTPS_URL = "https://cloudflare-dns.com/dns-query";
+const DNS_CACHE_MIN_TTL_MS = 30 * 1000;
+const DNS_CACHE_MAX_TTL_MS = 5 * 60 * 1000;
+const BLOCKED_HOSTNAMES = ["localhost", "metadata", "metadata.google.internal", "instance-data"];
+const BLOCKED_HOSTNAME_SUFFIXES = [".localhost", ".local", ".localdomain", ".internal", ".intranet", ".lan", ".home.arpa"];
+const BLOCKED_IPV4_RANGES: [base: string, prefixLength: number, category: string][] = [
+  ["0.0.0.0", 8, "unspecified"],
+  ["10.0.0.0", 8, "private"],
+  ["100.64.0.0", 10, "carrier-grade NAT"],
+  ["127.0.0.0", 8, "loopback"],
+  ["169.254.0.0", 16, "link-local"],
+  ["172.16.0.0", 12, "private"],
+  ["192.0.0.0", 24, "reserved"],
+  ["192.0.2.0", 24, "documentation"],
+  ["192.88.99.0", 24, "reserved"],
+  ["192.168.0.0", 16, "private"],
+  ["198.18.0.0", 15, "benchmarking"],
+  ["198.51.100.0", 24, "documentation"],
+  ["203.0.113.0", 24, "documentation"],
+  ["224.0.0.0", 4, "multicast"],
+  ["240.0.0.0", 4, "reserved"],
+];
+
+class OutboundRequestError extends Error {
+  constructor(readonly code: OutboundRequestErrorCode, message: string) {
+    super(message);
+    this.name = "OutboundRequestError";
+  }
+}
+
+const dnsCache = new Map<string, { addresses: string[]; expiresAt: number }>();
+
+function parseIpv4(value: string): number | null {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(value);
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  if (octets.some((octet) => octet > 255)) return null;
+  return ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+}
+
+function parseIpv6(value: string): number[] | null {
+  let text = value.toLowerCase().replace(/^\[|\]$/g, "");
+  const zoneIndex = text.indexOf("%");
+  if (zoneIndex >= 0) text = text.slice(0, zoneIndex);
+  if (!text.includes(":")) return null;
+
+  // Rewrite an embedded dotted IPv4 tail (::ffff:1.2.3.4) as two hex groups.
+  const lastColon = text.lastIndexOf(":");
+  const tail = text.slice(lastColon + 1);
+  if (tail.includes(".")) {
+    const ipv4 = parseIpv4(tail);
+    if (ipv4 === null) return null;
+    text = `${text.slice(0, lastColon + 1)}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
   }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
 }
 
-function normalizeJsonRpcId(value: unknown): number | string | null {
-  if (typeof value === "number" || typeof value === "string") {
-    return value;
+function classifyIpv4(address: number): string | null {
+  for (const [base, prefixLength, category] of BLOCKED_IPV4_RANGES) {
+    const shift = 32 - prefixLength;
+    if (address >>> shift === parseIpv4(base)! >>> shift) return category;
   }
   return null;
 }
 
-function jsonError(
-  status: number,
-  error: string,
-  message: string,
-  details: Record<string, unknown> = {},
-  requestId?: number | string | null,
-): Response {
-  const hasRequestId = requestId !== undefined;
-  const normalizedRequestId = normalizeJsonRpcId(requestId);
-  return jsonResponse(
-    hasRequestId
-      ? {
-          jsonrpc: "2.0",
-          error: {
-            code: getJsonRpcErrorCode(status),
-            message,
-            data: {
-              error,
-              status,
-              ...details,
-            },
-          },
-          id: normalizedRequestId,
-        }
-      : {
-          error,
-          message,
-          status,
-          ...details,
-        },
-    { status },
-  );
+function classifyIpv6(groups: number[]): string | null {
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups;
+  const embeddedIpv4 = ((g6 << 16) | g7) >>> 0;
+
+  if (groups.every((group) => group === 0)) return "unspecified";
+  if (groups.slice(0, 7).every((group) => group === 0) && g7 === 1) return "loopback";
+  // IPv4-mapped, IPv4-compatible, and NAT64 addresses inherit the class of the embedded IPv4 address.
+  if (g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0 && (g5 === 0xffff || g5 === 0)) {
+    return classifyIpv4(embeddedIpv4) ?? (g5 === 0 ? "reserved" : null);
+  }
+  if (g0 === 0x64 && g1 === 0xff9b && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0) {
+    return classifyIpv4(embeddedIpv4);
+  }
+  if (g0 === 0x2002) return classifyIpv4(((g1 << 16) | g2) >>> 0);
+  if ((g0 & 0xfe00) === 0xfc00) return "unique local";
+  if ((g0 & 0xffc0) === 0xfe80) return "link-local";
+  if ((g0 & 0xffc0) === 0xfec0) return "site-local";
+  if ((g0 & 0xff00) === 0xff00) return "multicast";
+  if (g0 === 0x2001 && g1 === 0x0db8) return "documentation";
+  if (g0 === 0x2001 && g1 < 0x0200) return "reserved";
+  if ((g0 & 0xe000) !== 0x2000) return "reserved";
+  return null;
 }
 
-function normalizeHttpUrlInput(input: string): string | null {
-  const trimmed = input.trim();
-  if (!trimmed) return null;
+/**
+ * Returns the blocked address category ("private", "loopback", ...) for an IP
+ * literal, null for a public address, and undefined when the value is not an IP.
+ */
+export function classifyIpAddress(value: string): string | null | undefined {
+  const ipv4 = parseIpv4(value);
+  if (ipv4 !== null) return classifyIpv4(ipv4);
+  const ipv6 = parseIpv6(value);
+  if (ipv6 !== null) return classifyIpv6(ipv6);
+  return undefined;
+}
 
-  const candidate = /^[a-zA-Z][a-zA-Z\d+.-]*:/.test(trimmed)
-    ? trimmed
-    : `https://${trimmed}`;
+async function resolveHostAddresses(hostname: string, signal?: AbortSignal | null): Promise<string[]> {
+  const cached = dnsCache.get(hostname);
+  if (cached && cached.expiresAt > Date.now()) return cached.addresses;
 
+  type DnsJsonAnswer = { Status?: number; Answer?: { type: number; TTL?: number; data: string }[] };
+  let answers: DnsJsonAnswer[];
   try {
-    const parsed = new URL(candidate);
-    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
-      return null;
+    answers = await Promise.all(["A", "AAAA"].map(async (type) => {
+      const resp = await fetch(`${DNS_OVER_HTTPS_URL}?name=${encodeURIComponent(hostname)}&type=${type}`, {
+        headers: { Accept: "application/dns-json" },
+        signal,
+      });
+      if (!resp.ok) throw new Error(`resolver returned HTTP ${resp.status}`);
+      return await resp.json() as DnsJsonAnswer;
+    }));
+  } catch (e) {
+    throw new OutboundRequestError(
+      "unresolvable_host",
+      `DNS lookup failed for ${hostname}: ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+
+  const records = answers.flatMap((answer) => answer.Answer ?? []).filter((record) => record.type === 1 || record.type === 28);
+  if (records.length === 0) {
+    throw new OutboundRequestError("unresolvable_host", `Could not resolve ${hostname} to an IP address.`);
+  }
+
+  const addresses = [...new Set(records.map((record) => record.data))];
+  const ttlMs = Math.min(...records.map((record) => (record.TTL ?? 0) * 1000));
+  dnsCache.set(hostname, {
+    addresses,
+    expiresAt: Date.now() + Math.min(Math.max(ttlMs, DNS_CACHE_MIN_TTL_MS), DNS_CACHE_MAX_TTL_MS),
+  });
+  return addresses;
+}
+
+/**
+ * Throws an OutboundRequestError unless the URL is http(s) and every address
+ * its host resolves to is publicly routable. Workers cannot pin the resolved
+ * address for the subsequent fetch, so this narrows rather than eliminates DNS
+ * rebinding; redirects are re-checked hop by hop in guardedFetch.
+ */
+export async function assertPublicDestination(url: URL, signal?: AbortSignal | null): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new OutboundRequestError("blocked_destination", `Refusing to fetch ${url.protocol} URLs; only http(s) is allowed.`);
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+  if (BLOCKED_HOSTNAMES.includes(hostname) || BLOCKED_HOSTNAME_SUFFIXES.some((suffix) => hostname.endsWith(suffix))) {
+    throw new OutboundRequestError("blocked_destination", `Refusing to fetch ${hostname}: internal hostname.`);
+  }
+
+  const literalCategory = classifyIpAddress(hostname);
+  if (literalCategory !== undefined) {
+    if (literalCategory !== null) {
+      throw new OutboundRequestError("blocked_destination", `Refusing to fetch ${hostname}: ${literalCategory} address.`);
     }
-    if (!parsed.hostname) {
-      return null;
+    return;
+  }
+
+  for (const address of await resolveHostAddresses(hostname, signal)) {
+    const category = classifyIpAddress(address);
+    if (category !== null) {
+      throw new OutboundRequestError(
+        "blocked_destination",
+        `Refusing to fetch ${hostname}: it resolves to ${address}, a ${category ?? "non-routable"} address.`,
+      );
     }
-    return parsed.toString();
-  } catch {
-    return null;
   }
 }
 
-function normalizeApiKeyRecord(data: unknown): ApiKeyRecord | null {
-  if (!data || typeof data !== "object") return null;
-  return data as ApiKeyRecord;
+function isRedirectStatus(status: number): boolean {
+  return status === 301 || status === 302 || status === 303 || status === 307 || status === 308;
 }
 
-function isStripeSubscriptionActive(status?: string): boolean {
-  return status === "active" || status === "trialing";
+interface RedirectHop {
+  url: string;
+  status: number;
+  location: string | null;
+  responseTimeMs: number;
 }
 
-function isBillingActive(record: ApiKeyRecord): boolean {
-  if (typeof record.subscriptionStatus === "string") {
-    return isStripeSubscriptionActive(record.subscriptionStatus);
-  }
-  if (typeof record.billingActive === "boolean") {
-    return record.billingActive;
+/**
+ * fetch() for caller-supplied URLs. Redirects are followed manually so every
+ * hop passes assertPublicDestination before it is requested. When `hops` is
+ * passed, each response (including the final one) is appended to it, so the
+ * chain is still available to the caller if a later hop throws.
+ */
+async function guardedFetch(input: string, init: RequestInit = {}, hops?: RedirectHop[]): Promise<Response> {
+  let currentUrl = new URL(input);
+  let method = (init.method ?? "GET").toUpperCase();
+  let body = init.body;
+  const headers = new Headers(init.headers);
+  const visited = new Set<string>();
+
+  for (let hop = 0; ; hop++) {
+    visited.add(`${method} ${currentUrl}`);
+    await assertPublicDestination(currentUrl, init.signal);
+    const start = Date.now();
+    const resp = await fetch(currentUrl.toString(), { ...init, method, body, headers, redirect: "manual" });
+    const location = resp.headers.get("location");
+    hops?.push({ url: currentUrl.toString(), status: resp.status, location, responseTimeMs: Date.now() - start });
+    if (!isRedirectStatus(resp.status) || !location) return resp;
+
+    await resp.body?.cancel();
+    if (hop >= MAX_OUTBOUND_REDIRECTS) {
+      throw new OutboundRequestError("too_many_redirects", `Too many redirects (more than ${MAX_OUTBOUND_REDIRECTS}).`);
+    }
+    if (resp.status === 303 || ((resp.status === 301 || resp.status === 302) && method === "POST")) {
+      method = "GET";
+      body = undefined;
+      headers.delete("content-type");
+    }
+    const nextUrl = resolveRedirectLocation(location, currentUrl);
+    if (!nextUrl) {
+      throw new Error(`Redirect from ${currentUrl} has an invalid Location header: ${location}`);
+    }
+    if (nextUrl.origin !== currentUrl.origin) {
+      // Like browsers, never forward credentials to a different origin.
+      for (const name of [...headers.keys()]) {
+        if (SENSITIVE_HEADER_PATTERN.test(name)) headers.delete(name);
+      }
+    }
+    currentUrl = nextUrl;
+    if (visited.has(`${method} ${currentUrl}`)) {
+      throw new OutboundRequestError("redirect_loop", `Redirect loop: ${currentUrl} was already visited.`);
+    }
   }
-  return record.active === true;
 }
 
-function getProQuota(record: ApiKeyRecord): number {
-  return typeof record.monthlyQuota === "number" ? record.monthlyQuota : PAID_MONTHLY_LIMIT;
+// Approximates the registrable domain (example.co.uk, example.com) without a
+// public-suffix list; good enough to tell "same site" from "different site".
+function getSiteKey(hostname: string): string {
+  const labels = hostname.toLowerCase().replace(/\.$/, "").split(".");
+  if (classifyIpAddress(hostname) !== undefined || labels.length <= 2) return labels.join(".");
+  const [secondLevel, topLevel] = labels.slice(-2);
+  const keep = topLevel.length === 2 && secondLevel.length <= 3 ? 3 : 2;
+  return labels.slice(-keep).join(".");
 }
 
-function getUsageStorageKey(subjectType: "free" | "free_verify_claim" | "pro", month: string, subjectId: string): string {
-  return `usage:${subjectType}:${month}:${subjectId}`;
+/** The absolute URL a Location header points to, or null when the header is not a valid URL. */
+function resolveRedirectLocation(location: string, base: string | URL): URL | null {
+  try {
+    return new URL(location, base);
+  } catch {
+    return null;
+  }
 }
 
-function inferTrafficSource(request: Request): string {
-  const referrer = request.headers.get("referer") ?? request.headers.get("referrer") ?? "";
-  const userAgent = request.headers.get("user-agent") ?? "";
-  const composite = `${referrer} ${userAgent}`.toLowerCase();
+// A hop whose Location does not parse is kept in `hops` but cannot be classified.
+export function summarizeRedirectChain(hops: RedirectHop[], loopDetected: boolean) {
+  const transitions = hops.flatMap((hop) => {
+    const target = hop.location && isRedirectStatus(hop.status) ? resolveRedirectLocation(hop.location, hop.url) : null;
+    return target ? [[new URL(hop.url), target] as const] : [];
+  });
 
-  if (composite.includes("glama.ai")) return "glama";
-  if (composite.includes("smithery.ai")) return "smithery";
-  if (composite.includes("xpay")) return "xpay";
-  if (composite.includes("localhost") || composite.includes("127.0.0.1") || composite.includes("wrangler")) return "local";
-  if (!referrer) return "direct";
-  return "referral";
+  return {
+    hops,
+    count: transitions.length,
+    protocolDowngrade: transitions.some(([from, to]) => from.protocol === "https:" && to.protocol === "http:"),
+    crossDomain: transitions.some(([from, to]) => getSiteKey(from.hostname) !== getSiteKey(to.hostname)),
+    loopDetected,
+  };
 }
 
-async function sha256Hex(input: string): Promise<string> {
-  const bytes = new TextEncoder().encode(input);
-  const digest = await crypto.subtle.digest("SHA-256", bytes);
-  return Array.from(new Uint8Array(digest))
-    .map((value) => value.toString(16).padStart(2, "0"))
-    .join("");
+interface FetchTiming {
+  timeToHeadersMs: number;
+  timeToBodyMs: number;
+  bodyBytes: number;
 }
 
-function isLoopbackIp(value: string): boolean {
-  return value === "127.0.0.1" ||
-    value === "::1" ||
-    value === "::ffff:127.0.0.1";
+/**
+ * guardedFetch plus one deadline for the whole exchange (DNS checks, every
+ * redirect hop, and the body) and a timing breakdown. Aborts surface as an
+ * OutboundRequestError with code "timeout".
+ */
+async function timedFetch(
+  url: string,
+  init: RequestInit = {},
+  options: { timeoutMs?: number; hops?: RedirectHop[] } = {},
+): Promise<{ response: Response; body: string; timing: FetchTiming }> {
+  const timeoutMs = Math.min(Math.max(options.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS, MIN_FETCH_TIMEOUT_MS), MAX_FETCH_TIMEOUT_MS);
+  const signal = AbortSignal.timeout(timeoutMs);
+  const start = Date.now();
+  try {
+    const response = await guardedFetch(url, { ...init, signal }, options.hops);
+    const timeToHeadersMs = Date.now() - start;
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return {
+      response,
+      body: new TextDecoder().decode(bytes),
+      timing: { timeToHeadersMs, timeToBodyMs: Date.now() - start, bodyBytes: bytes.byteLength },
+    };
+  } catch (e) {
+    if (signal.aborted) {
+      throw new OutboundRequestError("timeout", `Request timed out after ${timeoutMs} ms.`);
+    }
+    throw e;
+  }
 }
 
-function isLocalRequest(request: Request, ip?: string): boolean {
-  const hostname = new URL(request.url).hostname;
-  return hostname === "localhost" ||
-    hostname === "127.0.0.1" ||
-    hostname === "::1" ||
-    (typeof ip === "string" && isLoopbackIp(ip));
+function describeOutboundError(error: unknown): { error: string; errorCode?: OutboundRequestErrorCode } {
+  if (error instanceof OutboundRequestError) {
+    return { error: error.message, errorCode: error.code };
+  }
+  return { error: error instanceof Error ? error.message : String(error) };
 }
 
-function getAnonymousClientSource(request: Request): { type: string; value: string } {
-  const anonymousClientId = request.headers.get("x-anonymous-client-id")?.trim();
-  const cfConnectingIp = request.headers.get("cf-connecting-ip")?.trim();
-  if (cfConnectingIp && !(anonymousClientId && isLocalRequest(request, cfConnectingIp))) {
-    return { type: "ip", value: cfConnectingIp };
+function formatOutboundError(error: unknown): string {
+  const { error: message, errorCode } = describeOutboundError(error);
+  return errorCode ? `${errorCode}: ${message}` : message;
+}
+
+// --- check_endpoint request options ---
+const CHECK_ENDPOINT_METHODS = ["GET", "HEAD", "OPTIONS", "POST"] as const;
+const MAX_CALLER_HEADERS = 20;
+const MAX_REQUEST_BODY_BYTES = 8 * 1024;
+const FORBIDDEN_REQUEST_HEADERS = [
+  "host",
+  "content-length",
+  "connection",
+  "keep-alive",
+  "transfer-encoding",
+  "te",
+  "trailer",
+  "upgrade",
+  "expect",
+  "forwarded",
+  // Many frameworks route a POST carrying these as PUT or DELETE, which would get around
+  // the read-only POST safe-list.
+  "x-http-method-override",
+  "x-http-method",
+  "x-method-override",
+];
+const FORBIDDEN_REQUEST_HEADER_PREFIXES = ["proxy-", "sec-", "cf-", "x-forwarded-", "x-real-ip"];
+const SENSITIVE_HEADER_PATTERN = /authorization|cookie|token|secret|password|passwd|api[-_]?key|session|signature|credential/i;
+// POST is only for probing read-only RPC endpoints, so it is limited to bodies whose
+// shape says they cannot write: a GraphQL query, or a JSON-RPC call to one of these methods.
+const SAFE_POST_BODY_KINDS = ["graphql_query", "json_rpc_read"] as const;
+const SAFE_JSON_RPC_METHODS = [
+  "initialize",
+  "ping",
+  "tools/list",
+  "resources/list",
+  "resources/templates/list",
+  "prompts/list",
+  "eth_chainId",
+  "eth_blockNumber",
+  "eth_getBalance",
+  "net_version",
+  "web3_clientVersion",
+];
+
+function redactHeaderValue(name: string, value: string): string {
+  if (!SENSITIVE_HEADER_PATTERN.test(name)) return value;
+  const scheme = /^(Bearer|Basic|Token|Digest)\s+/i.exec(value)?.[1];
+  return scheme ? `${scheme} [REDACTED]` : "[REDACTED]";
+}
+
+/**
+ * Which safe-listed kind of read-only request a POST body is, or null. A GraphQL
+ * document qualifies when it has no mutation or subscription once comments and
+ * string literals are removed; a JSON-RPC body must be a single call to a
+ * SAFE_JSON_RPC_METHODS method.
+ */
+export function getSafePostBodyKind(body: unknown): typeof SAFE_POST_BODY_KINDS[number] | null {
+  if (!body || typeof body !== "object" || Array.isArray(body)) return null;
+  const fields = body as Record<string, unknown>;
+  if (fields.jsonrpc === "2.0") {
+    return typeof fields.method === "string" && SAFE_JSON_RPC_METHODS.includes(fields.method) ? "json_rpc_read" : null;
   }
+  if (typeof fields.query !== "string") return null;
+  const document = fields.query
+    .replace(/"""[\s\S]*?"""|"(?:[^"\\\n]|\\.)*"/g, '""')
+    .replace(/#[^\n]*/g, "")
+    .trim();
+  if (!/^(?:\{|query\b|fragment\b)/.test(document) || /\b(?:mutation|subscription)\b/.test(document)) return null;
+  return "graphql_query";
+}
 
-  const xForwardedFor = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
-  if (xForwardedFor && !(anonymousClientId && isLocalRequest(request, xForwardedFor))) {
-    return { type: "ip", value: xForwardedFor };
+/**
+ * Validates check_endpoint's optional method, headers, and JSON body and
+ * returns the RequestInit to send plus a redacted summary for the output.
+ * POST is the only non-idempotent method and is only allowed with a
+ * safe-listed read-only JSON body.
+ */
+export function buildEndpointRequest(
+  method: typeof CHECK_ENDPOINT_METHODS[number],
+  callerHeaders: Record<string, string> | undefined,
+  jsonBody: unknown,
+):
+  | {
+      init: RequestInit;
+      summary: { method: string; headers: Record<string, string>; bodyBytes: number; bodyKind?: typeof SAFE_POST_BODY_KINDS[number] };
+    }
+  | { error: string } {
+  const entries = Object.entries(callerHeaders ?? {});
+  if (entries.length > MAX_CALLER_HEADERS) {
+    return { error: `At most ${MAX_CALLER_HEADERS} request headers can be supplied.` };
   }
 
-  const xRealIp = request.headers.get("x-real-ip")?.trim();
-  if (xRealIp && !(anonymousClientId && isLocalRequest(request, xRealIp))) {
-    return { type: "ip", value: xRealIp };
+  const headers = new Headers({ "User-Agent": "GroundTruth/0.3" });
+  for (const [name, value] of entries) {
+    const lowerName = name.toLowerCase();
+    if (!/^[!#$%&'*+.^_`|~0-9a-z-]+$/.test(lowerName) || /[\r\n]/.test(value)) {
+      return { error: `Invalid request header: ${name}` };
+    }
+    if (FORBIDDEN_REQUEST_HEADERS.includes(lowerName) || FORBIDDEN_REQUEST_HEADER_PREFIXES.some((prefix) => lowerName.startsWith(prefix))) {
+      return { error: `Request header ${name} cannot be set by the caller.` };
+    }
+    headers.set(name, value);
   }
 
-  if (anonymousClientId) {
-    return { type: "anonymous_client_id", value: anonymousClientId };
+  let body: string | undefined;
+  let bodyKind: typeof SAFE_POST_BODY_KINDS[number] | null = null;
+  if (jsonBody !== undefined) {
+    if (method !== "POST") {
+      return { error: "A request body can only be sent with method POST." };
+    }
+    bodyKind = getSafePostBodyKind(jsonBody);
+    if (!bodyKind) {
+      return {
+        error: "POST is limited to GraphQL queries and JSON-RPC calls to read-only methods " +
+          `(${SAFE_JSON_RPC_METHODS.join(", ")}). Mutations and other write requests are refused.`,
+      };
+    }
+    body = JSON.stringify(jsonBody);
+    if (new TextEncoder().encode(body).length > MAX_REQUEST_BODY_BYTES) {
+      return { error: `Request body exceeds ${MAX_REQUEST_BODY_BYTES} bytes.` };
+    }
+    headers.set("Content-Type", "application/json");
+  } else if (method === "POST") {
+    return { error: "POST requires a JSON body." };
   }
 
   return {
-    type: "user_agent",
-    value: request.headers.get("user-agent")?.trim() || "unknown-client",
+    init: { method, headers, body },
+    summary: {
+      method,
+      headers: Object.fromEntries([...headers].map(([name, value]) => [name, redactHeaderValue(name, value)])),
+      bodyBytes: body ? new TextEncoder().encode(body).length : 0,
+      ...(bodyKind ? { bodyKind } : {}),
+    },
   };
 }
 
-async function getApiKeyRecord(kv: KVNamespace, apiKey: string): Promise<ApiKeyRecord | null> {
+// --- CORS preflight probe ---
+const CORS_PROBE_METHODS = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE"] as const;
+const CORS_SAFELISTED_METHODS = new Set(["GET", "HEAD", "POST"]);
+const CORS_SAFELISTED_REQUEST_HEADERS = new Set(["accept", "accept-language", "content-language"]);
+// Content-Type is only safelisted with one of these media types; JSON APIs need it in Allow-Headers.
+const CORS_SAFELISTED_CONTENT_TYPES = new Set(["application/x-www-form-urlencoded", "multipart/form-data", "text/plain"]);
+const MAX_CORS_REQUEST_HEADERS = 20;
+// Sent in a second preflight to tell an allow-list apart from a server that echoes any Origin.
+const CORS_UNLISTED_PROBE_ORIGIN = "https://cors-probe.ground-truth.invalid";
+
+type CorsPolicy = "closed" | "allow_list" | "reflects_any_origin" | "wildcard" | "wildcard_with_credentials";
+
+function splitHeaderList(value: string | null): string[] {
+  return value ? value.split(",").map((token) => token.trim()).filter(Boolean) : [];
+}
+
+export function readCorsResponseHeaders(headers: Headers) {
+  const maxAge = Number.parseInt(headers.get("access-control-max-age") ?? "", 10);
+  return {
+    allowOrigin: headers.get("access-control-allow-origin"),
+    allowMethods: splitHeaderList(headers.get("access-control-allow-methods")),
+    allowHeaders: splitHeaderList(headers.get("access-control-allow-headers")),
+    allowCredentials: headers.get("access-control-allow-credentials")?.trim().toLowerCase() === "true",
+    maxAge: Number.isNaN(maxAge) ? null : maxAge,
+    varyOrigin: splitHeaderList(headers.get("vary")).some((name) => name === "*" || name.toLowerCase() === "origin"),
+  };
+}
+
+export function classifyCorsPolicy(
+  cors: ReturnType<typeof readCorsResponseHeaders>,
+  unlistedAllowOrigin: string | null,
+): CorsPolicy {
+  if (unlistedAllowOrigin === CORS_UNLISTED_PROBE_ORIGIN) return "reflects_any_origin";
+  if (cors.allowOrigin === "*") return cors.allowCredentials ? "wildcard_with_credentials" : "wildcard";
+  if (!cors.allowOrigin && !unlistedAllowOrigin) return "closed";
+  return "allow_list";
+}
+
+/**
+ * Applies the browser's CORS check for the probed origin, method, and headers.
+ * Wildcards in Allow-Methods and Allow-Headers only count for requests without
+ * credentials, and never cover Authorization. Content-Type counts as safelisted
+ * only when contentType is a form or plain-text media type.
+ */
+export function isCorsRequestAllowed(
+  cors: ReturnType<typeof readCorsResponseHeaders>,
+  origin: string,
+  method: string,
+  requestHeaders: string[],
+  credentials: boolean,
+  contentType: string | null = null,
+): boolean {
+  const originAllowed = credentials
+    ? cors.allowOrigin === origin && cors.allowCredentials
+    : cors.allowOrigin === "*" || cors.allowOrigin === origin;
+  const allowedMethods = cors.allowMethods.map((name) => name.toUpperCase());
+  const methodAllowed = CORS_SAFELISTED_METHODS.has(method)
+    || allowedMethods.includes(method)
+    || (!credentials && allowedMethods.includes("*"));
+  const allowedHeaders = cors.allowHeaders.map((name) => name.toLowerCase());
+  const headersAllowed = requestHeaders.every((name) => {
+    const lowerName = name.toLowerCase();
+    const safelisted = lowerName === "content-type"
+      ? CORS_SAFELISTED_CONTENT_TYPES.has(getMediaType(contentType) ?? "")
+      : CORS_SAFELISTED_REQUEST_HEADERS.has(lowerName);
+    return safelisted
+      || allowedHeaders.includes(lowerName)
+      || (!credentials && lowerName !== "authorization" && allowedHeaders.includes("*"));
+  });
+  return originAllowed && methodAllowed && headersAllowed;
+}
+
+// --- Well-known file discovery ---
+// Each check says what a real file looks like, so a soft 404 (a 200 HTML page
+// served for any path) is not reported as present.
+const WELL_KNOWN_FILE_CHECKS: { id: string; path: string; looksValid: (body: string, contentType: string) => boolean }[] = [
+  { id: "mcpServerCard", path: "/.well-known/mcp/server-card.json", looksValid: (body) => parseJsonObject(body) !== null },
+  {
+    id: "openidConfiguration",
+    path: "/.well-known/openid-configuration",
+    looksValid: (body) => typeof parseJsonObject(body)?.issuer === "string",
+  },
+  { id: "robotsTxt", path: "/robots.txt", looksValid: (body, contentType) => isPlainTextBody(body, contentType) },
+  { id: "llmsTxt", path: "/llms.txt", looksValid: (body, contentType) => isPlainTextBody(body, contentType) },
+  { id: "sitemapXml", path: "/sitemap.xml", looksValid: (body) => /<(?:urlset|sitemapindex)\b/i.test(body) },
+];
+
+function parseJsonObject(body: string): Record<string, unknown> | null {
   try {
-    const data = await kv.get(apiKey, "json");
-    return normalizeApiKeyRecord(data);
+    return asJsonRecord(JSON.parse(body));
   } catch {
     return null;
   }
 }
 
-async function saveApiKeyRecord(kv: KVNamespace, apiKey: string, record: ApiKeyRecord): Promise<void> {
-  await kv.put(apiKey, JSON.stringify(record));
+function isPlainTextBody(body: string, contentType: string): boolean {
+  return !/html/i.test(contentType) && !/^\s*<(?:!doctype|html)\b/i.test(body);
 }
 
-async function updateCustomerBillingState(
-  kv: KVNamespace,
-  customerId: string,
-  updates: Partial<ApiKeyRecord>,
-): Promise<void> {
-  const keysList = await kv.list({ prefix: "gt_live_" });
+type WellKnownProbe =
+  | { url: string; status: number; contentType: string; body: string; bytes: number }
+  | { url: string; error: string; errorCode?: OutboundRequestErrorCode };
 
-  for (const key of keysList.keys) {
-    const data = await getApiKeyRecord(kv, key.name);
-    if (!data || data.stripeCustomerId !== customerId) continue;
+async function probeWellKnownFile(origin: string, path: string, timeoutMs?: number): Promise<WellKnownProbe> {
+  const url = new URL(path, origin).toString();
+  try {
+    const { response, body, timing } = await timedFetch(url, { headers: { "User-Agent": "GroundTruth/0.4" } }, { timeoutMs });
+    return { url, status: response.status, contentType: response.headers.get("content-type") ?? "", body, bytes: timing.bodyBytes };
+  } catch (e: unknown) {
+    return { url, ...describeOutboundError(e) };
+  }
+}
 
-    await saveApiKeyRecord(kv, key.name, {
-      ...data,
-      ...updates,
-    });
+/**
+ * Looks for security.txt at /.well-known/security.txt, then at the legacy
+ * /security.txt, and probes the other well-known files in parallel.
+ */
+export async function inspectWellKnownFiles(origin: string, timeoutMs?: number) {
+  const [wellKnownSecurityTxt, legacySecurityTxt, ...probes] = await Promise.all([
+    probeWellKnownFile(origin, "/.well-known/security.txt", timeoutMs),
+    probeWellKnownFile(origin, "/security.txt", timeoutMs),
+    ...WELL_KNOWN_FILE_CHECKS.map(({ path }) => probeWellKnownFile(origin, path, timeoutMs)),
+  ]);
+
+  const securityTxtProbe = [wellKnownSecurityTxt, legacySecurityTxt].find(
+    (probe) => "body" in probe && probe.status === 200 && isPlainTextBody(probe.body, probe.contentType),
+  );
+  let securityTxt;
+  if (securityTxtProbe && "body" in securityTxtProbe) {
+    const parsed = parseSecurityTxt(securityTxtProbe.body, wellKnownSecurityTxt.url);
+    if (securityTxtProbe === legacySecurityTxt) {
+      parsed.warnings.unshift("Served only at /security.txt; RFC 9116 requires /.well-known/security.txt.");
+    }
+    if (!/^text\/plain\b/i.test(securityTxtProbe.contentType)) {
+      parsed.errors.unshift(`Content-Type is "${securityTxtProbe.contentType || "missing"}"; RFC 9116 requires text/plain.`);
+      parsed.valid = false;
+    }
+    if (new URL(securityTxtProbe.url).protocol !== "https:") {
+      parsed.errors.unshift("security.txt must be served over HTTPS.");
+      parsed.valid = false;
+    }
+    securityTxt = { found: true, url: securityTxtProbe.url, status: securityTxtProbe.status, ...parsed };
+  } else {
+    securityTxt = {
+      found: false,
+      url: wellKnownSecurityTxt.url,
+      ...("status" in wellKnownSecurityTxt ? { status: wellKnownSecurityTxt.status } : {}),
+      ...("error" in wellKnownSecurityTxt ? { error: wellKnownSecurityTxt.error, errorCode: wellKnownSecurityTxt.errorCode } : {}),
+    };
+  }
+
+  const files = Object.fromEntries(WELL_KNOWN_FILE_CHECKS.map(({ id, looksValid }, index) => {
+    const probe = probes[index];
+    if (!("body" in probe)) {
+      return [id, { url: probe.url, present: false, error: probe.error, errorCode: probe.errorCode }];
+    }
+    return [id, {
+      url: probe.url,
+      present: probe.status === 200 && looksValid(probe.body, probe.contentType),
+      status: probe.status,
+      contentType: probe.contentType || null,
+      bytes: probe.bytes,
+    }];
+  }));
+
+  return { securityTxt, files };
+}
+
+// --- Cached fetch wrapper ---
+// The status and the archivable headers of a cached body are kept under a sibling
+// cache key, so evidence archived from a cache hit still records what was served.
+interface CachedPageMeta {
+  status: number;
+  headers: Record<string, string>;
+}
+
+function getPageMetaCacheKey(url: string): string {
+  return `meta:${url}`;
+}
+
+interface CachedPage {
+  body: string;
+  fromCache: boolean;
+  ok: boolean;
+  fetchedAt: number;
+  status?: number;
+  headers?: Headers;
+  timing?: FetchTiming;
+}
+
+async function cachedFetch(
+  sql: SqlTagFn,
+  url: string,
+  timeoutMs?: number,
+): Promise<CachedPage> {
+  // Only successful responses are cached, so a cache hit is always ok. fetchedAt is
+  // when the cached body was first fetched.
+  const cached = cacheGet(sql, url);
+  if (cached) {
+    const metaEntry = cacheGet(sql, getPageMetaCacheKey(url));
+    const meta = metaEntry ? JSON.parse(metaEntry.data) as CachedPageMeta : null;
+    return {
+      body: cached.data,
+      fromCache: true,
+      ok: true,
+      fetchedAt: cached.ts,
+      ...(meta ? { status: meta.status, headers: new Headers(meta.headers) } : {}),
+    };
   }
+  const fetchedAt = Date.now();
+  const { response, body, timing } = await timedFetch(url, { headers: { "User-Agent": "GroundTruth/0.3" } }, { timeoutMs });
+  if (response.ok) {
+    cacheSet(sql, url, body);
+    const meta: CachedPageMeta = { status: response.status, headers: pickArchivedHeaders(response.headers) };
+    cacheSet(sql, getPageMetaCacheKey(url), JSON.stringify(meta));
+  }
+  return { body, fromCache: false, ok: response.ok, fetchedAt, status: response.status, headers: response.headers, timing };
+}
+
+// --- Evidence archive ---
+// With archive_evidence, check_pricing, verify_claim, verify_numeric_fact, and
+// assess_compliance_posture keep a copy of each page they read for the calling API key, so an answer can be
+// audited after the page changes. Expired rows are pruned whenever the key archives
+// more evidence. API key records carry no plan tier, so every key gets the same retention.
+const EVIDENCE_RETENTION_DAYS = 30;
+const MAX_EVIDENCE_TEXT_LENGTH = 200_000;
+// Headers that describe what was served. Cookies and anything caller-specific are not kept.
+const ARCHIVED_RESPONSE_HEADERS = [
+  "age", "cache-control", "cf-cache-status", "content-language", "content-length", "content-type",
+  "date", "etag", "expires", "last-modified", "server", "x-cache",
+];
+
+interface EvidenceRecord {
+  id: string;
+  owner_key_hash: string;
+  tool: string;
+  url: string;
+  fetched_at: number;
+  from_cache: number;
+  status: number | null;
+  content_hash: string;
+  text: string;
+  text_truncated: number;
+  headers: string | null;
+  archived_at: number;
+  expires_at: number;
+}
+
+/** Stores one fetched page and returns its evidence id, or null when it could not be stored. */
+type EvidenceArchiver = (url: string, page: CachedPage) => Promise<string | null>;
+
+function pickArchivedHeaders(headers: Headers): Record<string, string> {
+  return Object.fromEntries([...headers].filter(([name]) => ARCHIVED_RESPONSE_HEADERS.includes(name)));
+}
+
+function generateEvidenceId(): string {
+  const chars = "0123456789abcdefghijklmnopqrstuvwxyz";
+  let id = "ev_";
+  for (let i = 0; i < 20; i++) id += chars[Math.floor(Math.random() * chars.length)];
+  return id;
 }
 
-async function getUsageRecord(kv: KVNamespace, usageKey: string): Promise<UsageRecord | null> {
-  const data = await kv.get(usageKey, "json");
-  if (!data || typeof data !== "object") return null;
+/** Page text one block per line, the same text the claim and compliance tools read. */
+function normalizeEvidenceText(body: string): string {
+  const blocks = htmlToTextBlocks(body);
+  return blocks.length > 0 ? blocks.map((block) => block.text).join("\n") : body.replace(/\s+/g, " ").trim();
+}
 
-  const record = data as Partial<UsageRecord>;
-  return {
-    month: typeof record.month === "string" ? record.month : getCurrentUsageMonth(),
-    subjectType: record.subjectType === "pro" ? "pro" : "free",
-    subjectId: typeof record.subjectId === "string" ? record.subjectId : usageKey,
-    total: typeof record.total === "number" ? record.total : 0,
-    byTool: typeof record.byTool === "object" && record.byTool !== null
-      ? record.byTool as Record<string, number>
-      : {},
-    updatedAt: typeof record.updatedAt === "string" ? record.updatedAt : new Date().toISOString(),
+export function createEvidenceArchiver(
+  sql: SqlTagFn,
+  ownerKeyHash: string,
+  retentionDays: number,
+  tool: string,
+): EvidenceArchiver {
+  return async (url, page) => {
+    const fullText = normalizeEvidenceText(page.body);
+    const text = fullText.slice(0, MAX_EVIDENCE_TEXT_LENGTH);
+    const headers = page.headers ? JSON.stringify(pickArchivedHeaders(page.headers)) : null;
+    const id = generateEvidenceId();
+    const now = Date.now();
+    try {
+      sql`INSERT INTO evidence (id, owner_key_hash, tool, url, fetched_at, from_cache, status, content_hash, text, text_truncated, headers, archived_at, expires_at) VALUES (${id}, ${ownerKeyHash}, ${tool}, ${url}, ${page.fetchedAt}, ${page.fromCache ? 1 : 0}, ${page.status ?? null}, ${await sha256Hex(text)}, ${text}, ${text.length < fullText.length ? 1 : 0}, ${headers}, ${now}, ${now + retentionDays * 24 * 60 * 60 * 1000})`;
+      sql`DELETE FROM evidence WHERE owner_key_hash = ${ownerKeyHash} AND expires_at <= ${now}`;
+      return id;
+    } catch {
+      // Archiving is best effort; the verification result is still returned.
+      return null;
+    }
   };
 }
 
-async function checkUsageLimit(
-  kv: KVNamespace,
-  usageKey: string,
-  limit: number,
-): Promise<UsageLimitResult> {
-  const record = await getUsageRecord(kv, usageKey);
-  const used = record?.total ?? 0;
+/** Reads unexpired evidence archived by this key, re-hashing the stored text. Null when there is none. */
+export async function readEvidence(sql: SqlTagFn, ownerKeyHash: string, evidenceId: string, includeText: boolean, now = Date.now()) {
+  const [row] = sql<EvidenceRecord>`SELECT * FROM evidence WHERE id = ${evidenceId} AND owner_key_hash = ${ownerKeyHash} AND expires_at > ${now}`;
+  if (!row) return null;
   return {
-    allowed: used < limit,
-    used,
-    limit,
-    remaining: Math.max(limit - used, 0),
-    record,
+    evidenceId: row.id,
+    found: true,
+    tool: row.tool,
+    url: row.url,
+    fetchedAt: new Date(row.fetched_at).toISOString(),
+    fromCache: row.from_cache === 1,
+    status: row.status,
+    headers: row.headers ? JSON.parse(row.headers) as Record<string, string> : null,
+    contentHash: row.content_hash,
+    hashVerified: await sha256Hex(row.text) === row.content_hash,
+    textLength: row.text.length,
+    textTruncated: row.text_truncated === 1,
+    ...(includeText ? { text: row.text } : {}),
+    archivedAt: new Date(row.archived_at).toISOString(),
+    expiresAt: new Date(row.expires_at).toISOString(),
   };
 }
 
-async function incrementUsage(
-  kv: KVNamespace,
-  usageKey: string,
-  subjectType: "free" | "free_verify_claim" | "pro",
-  subjectId: string,
-  month: string,
-  toolName: string,
-): Promise<UsageRecord> {
-  const record = await getUsageRecord(kv, usageKey);
-  const nextRecord: UsageRecord = {
-    month,
-    subjectType,
-    subjectId,
-    total: (record?.total ?? 0) + 1,
-    byTool: {
-      ...(record?.byTool ?? {}),
-      [toolName]: ((record?.byTool ?? {})[toolName] ?? 0) + 1,
-    },
-    updatedAt: new Date().toISOString(),
-  };
+// --- Verification receipts ---
+// A receipt binds a paid tool's normalized inputs and output digest to this server.
+// It is signed over the canonical JSON of its payload, so anyone holding the public
+// key from RECEIPT_KEYS_PATH can check it without calling back.
+const RECEIPT_ALGORITHM = "Ed25519";
+const RECEIPT_VERSION = 1;
+const RECEIPT_KEYS_PATH = "/.well-known/ground-truth/receipt-keys.json";
+
+interface ReceiptPayload {
+  version: number;
+  tool: string;
+  inputs: Record<string, unknown>;
+  outputDigest: string;
+  evidence: { evidenceId: string; contentHash: string }[];
+  issuedAt: string;
+  serverVersion: string;
+  keyId: string;
+}
 
-  await kv.put(usageKey, JSON.stringify(nextRecord));
-  return nextRecord;
+interface VerificationReceipt {
+  algorithm: typeof RECEIPT_ALGORITHM;
+  payload: ReceiptPayload;
+  signature: string;
 }
 
-async function requireProAccess(
-  kv: KVNamespace,
-  request: Request,
-  toolName: string,
-  requestId?: number | string | null,
-): Promise<ProAccessContext | Response> {
-  const apiKey = request.headers.get("X-API-Key")?.trim();
-  if (!apiKey) {
-    return jsonError(
-      401,
-      "missing_api_key",
-      `Tool '${toolName}' requires a team API key.`,
-      {
-        tier: "team",
-        tool: toolName,
-      },
-      requestId,
-    );
-  }
+interface ReceiptSigningKey {
+  keyId: string;
+  publicJwk: JsonWebKey;
+  privateKey: CryptoKey;
+  publicKey: CryptoKey;
+}
 
-  const apiKeyRecord = await getApiKeyRecord(kv, apiKey);
-  if (!apiKeyRecord) {
-    return jsonError(
-      401,
-      "invalid_api_key",
-      "The provided API key is invalid.",
-      {
-        tier: "team",
-        tool: toolName,
-      },
-      requestId,
-    );
+/** JSON with object keys sorted at every level and undefined properties dropped. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((item) => canonicalJson(item ?? null)).join(",")}]`;
+  if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "null";
+  const entries = Object.entries(value)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(",")}}`;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(value)) return null;
+  try {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/") + "=".repeat((4 - (value.length % 4)) % 4));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
   }
+}
 
-  if (!isBillingActive(apiKeyRecord)) {
-    return jsonError(
-      402,
-      "billing_inactive",
-      "Billing is inactive for this API key.",
-      {
-        tier: "team",
-        tool: toolName,
-        subscriptionStatus: apiKeyRecord.subscriptionStatus ?? "inactive",
-      },
-      requestId,
-    );
+export async function importReceiptSigningKey(source: string): Promise<ReceiptSigningKey> {
+  let jwk: JsonWebKey;
+  try {
+    jwk = JSON.parse(source) as JsonWebKey;
+  } catch {
+    throw new Error("RECEIPT_SIGNING_KEY is not valid JSON");
+  }
+  if (jwk.kty !== "OKP" || jwk.crv !== "Ed25519" || !jwk.d || !jwk.x) {
+    throw new Error("RECEIPT_SIGNING_KEY must be an Ed25519 private key in JWK format");
   }
+  const publicJwk: JsonWebKey = { kty: "OKP", crv: "Ed25519", x: jwk.x };
+  const [privateKey, publicKey] = await Promise.all([
+    crypto.subtle.importKey("jwk", { ...publicJwk, d: jwk.d }, { name: RECEIPT_ALGORITHM }, false, ["sign"]),
+    crypto.subtle.importKey("jwk", publicJwk, { name: RECEIPT_ALGORITHM }, true, ["verify"]),
+  ]);
+  return { keyId: (await sha256Hex(jwk.x)).slice(0, 16), publicJwk, privateKey, publicKey };
+}
 
-  const month = getCurrentUsageMonth();
-  const subjectId = await sha256Hex(apiKey);
-  const usageKey = getUsageStorageKey("pro", month, subjectId);
-  const limit = getProQuota(apiKeyRecord);
-  const usage = await checkUsageLimit(kv, usageKey, limit);
+let receiptKeyCache: { source: string; key: Promise<ReceiptSigningKey> } | null = null;
 
-  if (!usage.allowed) {
-    return jsonError(
-      429,
-      "quota_exceeded",
-      `Monthly quota exceeded for ${month}. You have used ${usage.used} of ${limit} included calls.`,
-      {
-        tier: "paid",
-        tool: toolName,
-        month,
-        limit,
-        used: usage.used,
-        remaining: usage.remaining,
-      },
-      requestId,
-    );
+/** The server's receipt key, or null when RECEIPT_SIGNING_KEY is not configured. */
+function getReceiptSigningKey(env: Env): Promise<ReceiptSigningKey> | null {
+  const source = env.RECEIPT_SIGNING_KEY?.trim();
+  if (!source) return null;
+  if (receiptKeyCache?.source !== source) {
+    receiptKeyCache = { source, key: importReceiptSigningKey(source) };
   }
+  return receiptKeyCache.key;
+}
 
-  return {
-    apiKey,
-    apiKeyRecord,
-    limit,
-    month,
-    subjectId,
-    usageKey,
-  };
+/** SHA-256 of a tool result's canonical JSON, leaving out the receipt fields themselves. */
+export function getReceiptOutputDigest(result: Record<string, unknown>): Promise<string> {
+  return sha256Hex(canonicalJson(
+    Object.fromEntries(Object.entries(result).filter(([key]) => key !== "receipt" && key !== "receiptError")),
+  ));
 }
 
-// --- API Key helpers ---
-function generateApiKey(): string {
-  const chars = "0123456789abcdef";
-  let key = "gt_live_";
-  for (let i = 0; i < 32; i++) {
-    key += chars[Math.floor(Math.random() * chars.length)];
+function collectEvidenceIds(value: unknown, ids = new Set<string>()): Set<string> {
+  if (Array.isArray(value)) {
+    for (const item of value) collectEvidenceIds(item, ids);
+  } else if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      if (key === "evidenceId" && typeof item === "string") ids.add(item);
+      else collectEvidenceIds(item, ids);
+    }
   }
-  return key;
+  return ids;
 }
 
-// --- Remote telemetry logger ---
-type TelemetryMetadata = Record<string, string | number | boolean | null>;
+export async function signReceipt(key: ReceiptSigningKey, payload: ReceiptPayload): Promise<VerificationReceipt> {
+  const signature = await crypto.subtle.sign(RECEIPT_ALGORITHM, key.privateKey, new TextEncoder().encode(canonicalJson(payload)));
+  return { algorithm: RECEIPT_ALGORITHM, payload, signature: toBase64Url(new Uint8Array(signature)) };
+}
 
-async function logRemoteUsage(
-  tool: string,
-  success: boolean,
-  eventName = "tool_call_completed",
-  metadata: TelemetryMetadata = {},
-): Promise<void> {
-  if (!TELEMETRY_ENABLED) return;
-  
-  try {
-    const platform = workerProcess?.platform ?? "unknown";
-    
-    // Non-blocking fire-and-forget POST to Neon via HTTP proxy
-    // Use a lightweight edge function to insert into Postgres
-    fetch("https://ground-truth-dashboard.vercel.app/api/track", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        event_name: eventName,
-        tool_name: tool,
-        success,
-        server_version: SERVER_VERSION,
-        os_platform: platform,
-        metadata,
-        timestamp: new Date().toISOString(),
-      }),
-    }).catch(() => {}); // Silently fail - telemetry should never break the app
-  } catch {
-    // Ignore telemetry errors
-  }
+export async function verifyReceiptSignature(key: ReceiptSigningKey, payload: unknown, signature: string): Promise<boolean> {
+  const bytes = fromBase64Url(signature);
+  if (!bytes) return false;
+  return crypto.subtle.verify(RECEIPT_ALGORITHM, key.publicKey, bytes, new TextEncoder().encode(canonicalJson(payload)));
 }
 
-type SqlTagFn = <T = Record<string, string | number | boolean | null>>(
-  strings: TemplateStringsArray,
-  ...values: (string | number | boolean | null)[]
-) => T[];
+// --- Hypothesis test helpers ---
+const HYPOTHESIS_TEST_TYPES = [
+  "endpoint_exists",
+  "npm_count_above",
+  "npm_count_below",
+  "response_contains",
+  "status_code_is",
+  "header_equals",
+  "header_contains",
+  "json_path_equals",
+  "regex_match",
+  "latency_below",
+  "content_type_equals",
+] as const;
+// The original test types report a diagnostic string in actual; the rest report the
+// observed value itself and leave failures to error.
+const DIAGNOSTIC_HYPOTHESIS_TEST_TYPES = new Set<string>(["endpoint_exists", "npm_count_above", "npm_count_below", "response_contains"]);
+const MAX_HYPOTHESIS_REGEX_LENGTH = 200;
+// With one unbounded quantifier and at most 16 choice combinations, a failing match
+// still costs up to length² × 16 steps, about 200 ms at this length. The match runs
+// synchronously inside the shared Durable Object, so the body is cut short.
+const MAX_HYPOTHESIS_REGEX_BODY_LENGTH = 2_000;
+const MAX_HYPOTHESIS_REGEX_CHOICES = 16;
+const MAX_HYPOTHESIS_REGEX_MATCH_LENGTH = 200;
+
+type HypothesisValue = string | number | boolean | null | unknown[] | Record<string, unknown>;
+type JsonPathSegment = string | number;
 
-// --- Cache helpers using Durable Object SQLite tagged template ---
-function cacheGet(sql: SqlTagFn, key: string): string | null {
-  const rows = sql<{ data: string; ts: number }>`SELECT data, ts FROM cache WHERE key = ${key}`;
-  if (rows.length === 0) return null;
-  const row = rows[0];
-  if (Date.now() - row.ts > CACHE_TTL_MS) {
-    sql`DELETE FROM cache WHERE key = ${key}`;
-    return null;
+/**
+ * Parses the dot and bracket subset of JSONPath: $, .name, ['name'], ["name"], and [index],
+ * where a negative index counts from the end. Returns null for anything else, such as
+ * wildcards, slices, or filters.
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] | null {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith("$")) return null;
+  const segmentPattern = /\.([A-Za-z_$][\w$-]*)|\[(-?\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\]/y;
+  const segments: JsonPathSegment[] = [];
+  let index = 1;
+  while (index < trimmed.length) {
+    segmentPattern.lastIndex = index;
+    const match = segmentPattern.exec(trimmed);
+    if (!match) return null;
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push((match[3] ?? match[4]).replace(/\\(.)/g, "$1"));
+    index = segmentPattern.lastIndex;
   }
-  return row.data;
+  return segments;
 }
 
-function cacheSet(sql: SqlTagFn, key: string, data: string): void {
-  if (data.length > MAX_CACHEABLE_BODY_BYTES) return;
+export function resolveJsonPath(value: unknown, segments: JsonPathSegment[]): { found: boolean; value: unknown } {
+  let current = value;
+  for (const segment of segments) {
+    if (typeof segment === "number") {
+      if (!Array.isArray(current)) return { found: false, value: null };
+      const position = segment < 0 ? current.length + segment : segment;
+      if (position < 0 || position >= current.length) return { found: false, value: null };
+      current = current[position];
+    } else {
+      if (!current || typeof current !== "object" || Array.isArray(current) || !Object.hasOwn(current, segment)) {
+        return { found: false, value: null };
+      }
+      current = (current as Record<string, unknown>)[segment];
+    }
+  }
+  return { found: true, value: current };
+}
 
-  const ts = Date.now();
+/**
+ * Why a regex_match pattern is refused, or null when it compiles and stays inside the
+ * accepted subset, which bounds how much a failing match can backtrack:
+ * - quantifiers only follow a single character, escape, or class, since a quantified
+ *   group such as (a+)+ or (a|aa)+ backtracks exponentially
+ * - at most one unbounded quantifier (*, +, or {n,}), since .*.*.*x backtracks polynomially
+ * - optional and ranged repeats and alternatives multiply to at most 16 combinations,
+ *   since a?a?a?... doubles the work with each one
+ * - no backreferences or lookarounds
+ */
+export function getHypothesisRegexProblem(pattern: string): string | null {
   try {
-    sql`INSERT OR REPLACE INTO cache (key, data, ts) VALUES (${key}, ${data}, ${ts})`;
-  } catch {
-    // Cache writes should never take down a verification request.
+    new RegExp(pattern);
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
   }
+  let inClass = false;
+  let unbounded = 0;
+  let choices = 1;
+  // Alternative counts of the groups open at this point; the first entry is the whole pattern.
+  const alternatives = [1];
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    const rest = pattern.slice(index + 1);
+    if (char === "\\") {
+      if (!inClass && /^(?:[1-9]|k<)/.test(rest)) return "Backreferences are not allowed.";
+      index++;
+    } else if (inClass) {
+      if (char === "]") inClass = false;
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      if (/^\?<?[=!]/.test(rest)) return "Lookahead and lookbehind are not allowed.";
+      alternatives.push(1);
+      index += rest.match(/^\?(?::|<[^>]*>)/)?.[0].length ?? 0;
+    } else if (char === ")") {
+      if (/^[*+?{]/.test(rest)) {
+        return "Quantified groups such as (a+)+ or (a|b)* are not allowed. Quantify single characters or classes instead.";
+      }
+      choices *= alternatives.pop()!;
+    } else if (char === "|") {
+      alternatives[alternatives.length - 1] += 1;
+    } else {
+      const quantifier = /^(?:[*+?]|\{(\d+)(,(\d*))?\})/.exec(pattern.slice(index));
+      if (!quantifier) continue;
+      const [text, min, range, max] = quantifier;
+      if (text === "*" || text === "+" || (range && !max)) unbounded += 1;
+      else choices *= text === "?" ? 2 : range ? Number(max) - Number(min) + 1 : 1;
+      index += text.length - 1;
+      // A lazy modifier changes the order choices are tried in, not how many there are.
+      if (pattern[index + 1] === "?") index++;
+    }
+  }
+  choices *= alternatives[0];
+  if (unbounded > 1) return "Use at most one unbounded quantifier (*, +, or {n,}); bound the others, as in \\s{0,5}.";
+  if (choices > MAX_HYPOTHESIS_REGEX_CHOICES) {
+    return `Optional repeats, ranged repeats, and alternatives allow ${choices} combinations; at most ${MAX_HYPOTHESIS_REGEX_CHOICES} are allowed.`;
+  }
+  return null;
 }
 
-// --- Cached fetch wrapper ---
-async function cachedFetch(sql: SqlTagFn, url: string): Promise<{ body: string; fromCache: boolean }> {
-  const cached = cacheGet(sql, url);
-  if (cached) return { body: cached, fromCache: true };
-  const resp = await fetch(url, { headers: { "User-Agent": "GroundTruth/0.3" } });
-  const body = await resp.text();
-  if (resp.ok) cacheSet(sql, url, body);
-  return { body, fromCache: false };
+/** The media type of a Content-Type header, lowercased and without parameters. */
+function getMediaType(contentType: string | null): string | null {
+  return contentType?.split(";")[0].trim().toLowerCase() || null;
 }
 
 // --- Monitor helpers ---
@@ -1789,10 +6503,9 @@ async function runMonitorVerification(
     if (target_type === "url" || target_type === "endpoint") {
       const start = Date.now();
       try {
-        const resp = await fetch(target_value, {
+        const { response: resp, timing } = await timedFetch(target_value, {
           headers: { "User-Agent": "GroundTruth/0.4" },
-          signal: AbortSignal.timeout(15000),
-        });
+        }, { timeoutMs: MONITOR_FETCH_TIMEOUT_MS });
         const newValue = JSON.stringify({
           status: resp.status,
           accessible: resp.ok,
@@ -1802,9 +6515,9 @@ async function runMonitorVerification(
         const prev = sql<{ new_value: string | null }>`SELECT new_value FROM monitor_results WHERE monitor_id = ${monitor.id} ORDER BY run_at DESC LIMIT 1`;
         const oldValue = prev[0]?.new_value ?? null;
         const { changed, confidence } = detectMonitorChanges(oldValue, newValue);
-        return { status: "success", changed, oldValue, newValue, confidence, evidence, errorDetails: null, rawMetadata: { responseTimeMs: Date.now() - start } };
+        return { status: "success", changed, oldValue, newValue, confidence, evidence, errorDetails: null, rawMetadata: { responseTimeMs: timing.timeToHeadersMs, ...timing } };
       } catch (e) {
-        return { status: "error", changed: false, oldValue: null, newValue: "", confidence: 0, evidence: [], errorDetails: e instanceof Error ? e.message : String(e), rawMetadata: { responseTimeMs: Date.now() - start } };
+        return { status: "error", changed: false, oldValue: null, newValue: "", confidence: 0, evidence: [], errorDetails: formatOutboundError(e), rawMetadata: { responseTimeMs: Date.now() - start } };
       }
     }
 
@@ -1814,6 +6527,16 @@ async function runMonitorVerification(
       const newValue = JSON.stringify({
         pricesFound: signals.pricesFound,
         plansDetected: signals.plansDetected,
+        plans: signals.plans.map(({ name, price, contactSales }) => ({
+          name,
+          amount: price?.amount ?? null,
+          currency: price?.currency ?? null,
+          period: price?.period ?? null,
+          qualifier: price?.qualifier ?? null,
+          billing: price?.billing ?? null,
+          contactSales,
+        })),
+        annualDiscountPercent: signals.billing.annualDiscountPercent,
         hasFreeOption: signals.hasFreeOption,
         hasFreeTrial: signals.hasFreeTrial,
       });
@@ -1883,18 +6606,270 @@ async function runMonitorVerification(
       return { status: "success", changed, oldValue, newValue, confidence, evidence, errorDetails: null, rawMetadata: { fromCache, keywords } };
     }
 
-    return { status: "error", changed: false, oldValue: null, newValue: "", confidence: 0, evidence: [], errorDetails: `Unknown target_type: ${target_type}`, rawMetadata: {} };
-  } catch (e) {
-    return { status: "error", changed: false, oldValue: null, newValue: "", confidence: 0, evidence, errorDetails: e instanceof Error ? e.message : String(e), rawMetadata: {} };
+    return { status: "error", changed: false, oldValue: null, newValue: "", confidence: 0, evidence: [], errorDetails: `Unknown target_type: ${target_type}`, rawMetadata: {} };
+  } catch (e) {
+    return { status: "error", changed: false, oldValue: null, newValue: "", confidence: 0, evidence, errorDetails: formatOutboundError(e), rawMetadata: {} };
+  }
+}
+
+async function analyzePricingPage(
+  sql: SqlTagFn,
+  url: string,
+  timeoutMs?: number,
+  exchangeRates?: ExchangeRates,
+  archive?: EvidenceArchiver,
+) {
+  const page = await cachedFetch(sql, url, timeoutMs);
+  const evidenceId = archive ? await archive(url, page) : null;
+  return {
+    url,
+    cached: page.fromCache,
+    ...extractPricingSignals(page.body, exchangeRates),
+    ...(page.timing ? { timing: page.timing } : {}),
+    ...(evidenceId ? { evidenceId } : {}),
+  };
+}
+
+// --- Pricing history ---
+// Every keyed check_pricing result is stored as a compact plan list so price
+// changes can be reconstructed later without re-fetching the page.
+const MAX_PRICING_SNAPSHOTS_PER_URL = 500;
+
+interface PricingSnapshotRecord {
+  id: number;
+  owner_key_hash: string;
+  url: string;
+  captured_at: number;
+  plans: string;
+}
+
+interface PricingSnapshotPlan {
+  name: string;
+  amount: number | null;
+  currency: string | null;
+  period: BillingPeriod | null;
+  qualifier: PriceQualifier | null;
+  billing: BillingCadence | null;
+  contactSales: boolean;
+}
+
+function toPricingSnapshotPlans(plans: PricingPlan[]): PricingSnapshotPlan[] {
+  return plans.map(({ name, price, contactSales }) => ({
+    name,
+    amount: price?.amount ?? null,
+    currency: price?.currency ?? null,
+    period: price?.period ?? null,
+    qualifier: price?.qualifier ?? null,
+    billing: price?.billing ?? null,
+    contactSales,
+  }));
+}
+
+/** History key for a pricing URL: host case, the fragment, and a trailing slash do not start a separate history. */
+export function getPricingHistoryKey(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = "";
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith("/")) parsed.pathname = parsed.pathname.replace(/\/+$/, "") || "/";
+  return parsed.href;
+}
+
+/**
+ * Stores the scan unless its plans match the newest stored snapshot, so repeat
+ * scans of an unchanged page do not push real changes out of the retained window.
+ * Returns whether a row was written.
+ */
+export function recordPricingSnapshot(sql: SqlTagFn, ownerKeyHash: string, pageUrl: string, plans: PricingPlan[], now = Date.now()): boolean {
+  const url = getPricingHistoryKey(pageUrl);
+  const serialized = JSON.stringify(toPricingSnapshotPlans(plans));
+  const [latest] = sql<Pick<PricingSnapshotRecord, "plans">>`SELECT plans FROM pricing_snapshots WHERE owner_key_hash = ${ownerKeyHash} AND url = ${url} ORDER BY captured_at DESC, id DESC LIMIT 1`;
+  if (latest?.plans === serialized) return false;
+  sql`INSERT INTO pricing_snapshots (owner_key_hash, url, captured_at, plans) VALUES (${ownerKeyHash}, ${url}, ${now}, ${serialized})`;
+  sql`DELETE FROM pricing_snapshots WHERE owner_key_hash = ${ownerKeyHash} AND url = ${url} AND id NOT IN (
+    SELECT id FROM pricing_snapshots WHERE owner_key_hash = ${ownerKeyHash} AND url = ${url} ORDER BY captured_at DESC, id DESC LIMIT ${MAX_PRICING_SNAPSHOTS_PER_URL}
+  )`;
+  return true;
+}
+
+/**
+ * Compares two snapshots by plan name (case-insensitive). A price change is any
+ * change in amount, currency, period, or contact-sales status; delta is only
+ * computed when both sides are priced in the same currency and period.
+ */
+function diffPricingSnapshots(previous: PricingSnapshotPlan[], current: PricingSnapshotPlan[]) {
+  const byName = (plans: PricingSnapshotPlan[]) => new Map(plans.map((plan) => [plan.name.toLowerCase(), plan]));
+  const before = byName(previous);
+  const after = byName(current);
+  const summarize = ({ name, amount, currency, period, contactSales }: PricingSnapshotPlan) => ({ name, amount, currency, period, contactSales });
+
+  const priceChanges = [...after.entries()].flatMap(([key, plan]) => {
+    const old = before.get(key);
+    if (!old || (old.amount === plan.amount && old.currency === plan.currency && old.period === plan.period && old.contactSales === plan.contactSales)) {
+      return [];
+    }
+    const comparable = old.amount !== null && plan.amount !== null && old.currency === plan.currency && old.period === plan.period;
+    const delta = comparable ? +(plan.amount! - old.amount!).toFixed(2) : null;
+    return [{
+      plan: plan.name,
+      from: { amount: old.amount, currency: old.currency, period: old.period, contactSales: old.contactSales },
+      to: { amount: plan.amount, currency: plan.currency, period: plan.period, contactSales: plan.contactSales },
+      delta,
+      deltaPercent: comparable && old.amount! > 0 ? +((delta! / old.amount!) * 100).toFixed(1) : null,
+    }];
+  });
+
+  return {
+    addedPlans: [...after.entries()].filter(([key]) => !before.has(key)).map(([, plan]) => summarize(plan)),
+    removedPlans: [...before.entries()].filter(([key]) => !after.has(key)).map(([, plan]) => summarize(plan)),
+    priceChanges,
+  };
+}
+
+function buildPricingTimeline(rows: PricingSnapshotRecord[]) {
+  const snapshots = rows.map((row) => ({ capturedAt: row.captured_at, plans: JSON.parse(row.plans) as PricingSnapshotPlan[] }));
+  const changes = snapshots.slice(1).flatMap((snapshot, index) => {
+    const previous = snapshots[index];
+    const diff = diffPricingSnapshots(previous.plans, snapshot.plans);
+    if (diff.addedPlans.length === 0 && diff.removedPlans.length === 0 && diff.priceChanges.length === 0) return [];
+    return [{
+      capturedAt: new Date(snapshot.capturedAt).toISOString(),
+      previousCapturedAt: new Date(previous.capturedAt).toISOString(),
+      ...diff,
+    }];
+  });
+  return {
+    snapshots: snapshots.length,
+    firstCapturedAt: snapshots.length > 0 ? new Date(snapshots[0].capturedAt).toISOString() : null,
+    lastCapturedAt: snapshots.length > 0 ? new Date(snapshots[snapshots.length - 1].capturedAt).toISOString() : null,
+    currentPlans: snapshots[snapshots.length - 1]?.plans ?? [],
+    changes,
+    priceIncreases: changes.reduce((count, change) => count + change.priceChanges.filter((item) => (item.delta ?? 0) > 0).length, 0),
+  };
+}
+
+// --- Compliance crawl ---
+interface ComplianceCrawlPage {
+  url: string;
+  discoveredFrom: ComplianceCrawlSource;
+  pageType?: CompliancePageType;
+  matchedSignals?: string[];
+  negatedSignals?: string[];
+  cached?: boolean;
+  evidenceId?: string;
+  error?: string;
+  errorCode?: OutboundRequestErrorCode;
+}
+
+const COMPLIANCE_CLASS_RANK: Record<ComplianceMentionClass, number> = { certification_claim: 0, policy_mention: 1, incidental_mention: 2 };
+
+/**
+ * Scans the homepage (and the input URL, when it is not the homepage), then the
+ * highest-scoring same-site links from the homepage and sitemap.xml, until the page
+ * budget is spent. A signal is true when it is true on any page, and signalSources
+ * lists the pages it came from. Pages that fail or return an error status are
+ * reported but do not stop the crawl; only a failed homepage fetch throws.
+ */
+export async function crawlCompliancePages(
+  sql: SqlTagFn,
+  url: string,
+  maxPages: number,
+  timeoutMs?: number,
+  archive?: EvidenceArchiver,
+) {
+  const start = new URL(url);
+  const homepage = new URL("/", start).toString();
+  const home = await cachedFetch(sql, homepage, timeoutMs);
+
+  let sitemapChecked = false;
+  const candidates = discoverComplianceLinks(home.body, new URL(homepage));
+  try {
+    const sitemap = await cachedFetch(sql, new URL("/sitemap.xml", start).toString(), timeoutMs);
+    if (sitemap.ok) {
+      sitemapChecked = true;
+      candidates.push(...discoverSitemapComplianceUrls(sitemap.body, new URL(homepage)));
+    }
+  } catch {
+    // A missing or blocked sitemap only narrows discovery.
+  }
+
+  const queue: ComplianceCrawlCandidate[] = [];
+  const seen = new Set<string>();
+  const enqueue = (candidate: ComplianceCrawlCandidate) => {
+    const key = candidate.url.replace(/\/$/, "");
+    if (seen.has(key)) return;
+    seen.add(key);
+    queue.push(candidate);
+  };
+  if (start.toString() !== homepage) enqueue({ url: start.toString(), score: Infinity, discoveredFrom: "input" });
+  enqueue({ url: homepage, score: Infinity, discoveredFrom: "homepage" });
+  const candidatesFound = candidates.length;
+  // Stable sort keeps page order among equal scores, so header links beat deep sitemap entries.
+  candidates.sort((a, b) => b.score - a.score).forEach(enqueue);
+
+  const pages: ComplianceCrawlPage[] = [];
+  const evidence: (ComplianceEvidence & { url: string })[] = [];
+  let pageLength = 0;
+  for (const candidate of queue.slice(0, maxPages)) {
+    try {
+      const fetched = candidate.url === homepage ? home : await cachedFetch(sql, candidate.url, timeoutMs);
+      if (!fetched.ok) {
+        pages.push({ url: candidate.url, discoveredFrom: candidate.discoveredFrom, error: "Page returned an error status and was not scanned." });
+        continue;
+      }
+      const scan = extractComplianceSignals(fetched.body, candidate.url);
+      const evidenceId = archive ? await archive(candidate.url, fetched) : null;
+      pageLength += fetched.body.length;
+      evidence.push(...scan.evidence.map((item) => ({ ...item, url: candidate.url })));
+      pages.push({
+        url: candidate.url,
+        discoveredFrom: candidate.discoveredFrom,
+        pageType: scan.pageType,
+        matchedSignals: scan.matchedSignals,
+        negatedSignals: scan.negatedSignals,
+        cached: fetched.fromCache,
+        ...(evidenceId ? { evidenceId } : {}),
+      });
+    } catch (error: unknown) {
+      pages.push({ url: candidate.url, discoveredFrom: candidate.discoveredFrom, ...describeOutboundError(error) });
+    }
   }
-}
 
-async function analyzePricingPage(sql: SqlTagFn, url: string) {
-  const { body, fromCache } = await cachedFetch(sql, url);
+  const signalSources = Object.fromEntries(
+    COMPLIANCE_FRAMEWORKS.map(({ id }) => [
+      id,
+      pages.filter((page) => page.matchedSignals?.includes(id)).map((page) => page.url),
+    ]),
+  );
+  const signals = Object.fromEntries(
+    Object.entries(signalSources).map(([signal, sources]) => [signal, sources.length > 0]),
+  );
+  const matchedSignals = Object.entries(signals).filter(([, matched]) => matched).map(([signal]) => signal);
+  const negatedSignals = [...new Set(pages.flatMap((page) => page.negatedSignals ?? []))];
+  const incidentalSignals = [...new Set(evidence.map((item) => item.signal))]
+    .filter((signal) => !signals[signal] && !negatedSignals.includes(signal));
+  // Keep the strongest mentions of each signal across all pages.
+  const rankedEvidence = COMPLIANCE_FRAMEWORKS.flatMap(({ id }) => evidence
+    .filter((item) => item.signal === id)
+    .sort((a, b) => Number(a.negated) - Number(b.negated) || COMPLIANCE_CLASS_RANK[a.classification] - COMPLIANCE_CLASS_RANK[b.classification])
+    .slice(0, MAX_COMPLIANCE_EVIDENCE_PER_SIGNAL));
+
   return {
     url,
-    cached: fromCache,
-    ...extractPricingSignals(body),
+    cached: pages.every((page) => page.cached !== false),
+    matchedSignals,
+    signals,
+    signalSources,
+    negatedSignals,
+    incidentalSignals,
+    ...summarizeComplianceFrameworks(signals, evidence),
+    evidence: rankedEvidence,
+    pageLength,
+    crawl: {
+      pageBudget: maxPages,
+      pagesScanned: pages.filter((page) => page.error === undefined).length,
+      candidatesFound,
+      sitemapChecked,
+      pages,
+    },
   };
 }
 
@@ -1951,6 +6926,12 @@ export class GroundTruthMCP extends McpAgent<Env> {
     // Initialize monitor tables
     this.sql`CREATE TABLE IF NOT EXISTS monitors (id TEXT PRIMARY KEY, owner_key_hash TEXT NOT NULL, name TEXT NOT NULL, target_type TEXT NOT NULL, target_value TEXT NOT NULL, instructions TEXT, schedule TEXT NOT NULL DEFAULT 'manual', notification_destination TEXT, last_run_at INTEGER, last_run_status TEXT, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL, active INTEGER NOT NULL DEFAULT 1)`;
     this.sql`CREATE TABLE IF NOT EXISTS monitor_results (id TEXT PRIMARY KEY, monitor_id TEXT NOT NULL, owner_key_hash TEXT NOT NULL, run_at INTEGER NOT NULL, status TEXT NOT NULL, changed INTEGER NOT NULL DEFAULT 0, old_value TEXT, new_value TEXT, confidence REAL, evidence TEXT, error_details TEXT, raw_metadata TEXT)`;
+    // Initialize per-key pricing history for get_pricing_history
+    this.sql`CREATE TABLE IF NOT EXISTS pricing_snapshots (id INTEGER PRIMARY KEY AUTOINCREMENT, owner_key_hash TEXT NOT NULL, url TEXT NOT NULL, captured_at INTEGER NOT NULL, plans TEXT NOT NULL)`;
+    this.sql`CREATE INDEX IF NOT EXISTS pricing_snapshots_owner_url ON pricing_snapshots (owner_key_hash, url, captured_at)`;
+    // Initialize the opt-in evidence archive for get_evidence
+    this.sql`CREATE TABLE IF NOT EXISTS evidence (id TEXT PRIMARY KEY, owner_key_hash TEXT NOT NULL, tool TEXT NOT NULL, url TEXT NOT NULL, fetched_at INTEGER NOT NULL, from_cache INTEGER NOT NULL, status INTEGER, content_hash TEXT NOT NULL, text TEXT NOT NULL, text_truncated INTEGER NOT NULL DEFAULT 0, headers TEXT, archived_at INTEGER NOT NULL, expires_at INTEGER NOT NULL)`;
+    this.sql`CREATE INDEX IF NOT EXISTS evidence_owner_expires ON evidence (owner_key_hash, expires_at)`;
     const sql = this.sql.bind(this) as SqlTagFn;
     const logUsage = (tool: string, success: boolean) => {
       try { 
@@ -1962,135 +6943,783 @@ export class GroundTruthMCP extends McpAgent<Env> {
       } catch (_) {}
     };
 
-    const readOnlyNetworkToolAnnotations = {
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
-    } as const;
+    const readOnlyNetworkToolAnnotations = {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    } as const;
+
+    const outboundErrorCodeSchema = z.enum(OUTBOUND_REQUEST_ERROR_CODES).describe(
+      "Machine-readable reason the URL was not fetched. blocked_destination means the URL or one of its redirects pointed at a loopback, private, link-local, or otherwise reserved address; unresolvable_host means DNS returned no usable address; redirect_loop and too_many_redirects mean the redirect chain never settled; timeout means the response did not finish within timeout_ms.",
+    );
+
+    const fetchTimingSchema = z.object({
+      timeToHeadersMs: z.number().int().nonnegative().describe(
+        "Milliseconds until the final response headers arrived, including DNS checks and redirects.",
+      ),
+      timeToBodyMs: z.number().int().nonnegative().describe(
+        "Milliseconds until the full response body was read.",
+      ),
+      bodyBytes: z.number().int().nonnegative().describe(
+        "Size of the response body in bytes.",
+      ),
+    }).describe(
+      "Timing breakdown for the live fetch. Omitted when the body came from cache.",
+    );
+
+    const amountUsdSchema = z.number().nonnegative().optional().describe(
+      "amount converted with the caller's exchange_rates. Omitted when exchange_rates was not supplied or has no rate for the currency.",
+    );
+
+    const pricesSchema = z.array(z.object({
+      amount: z.number().nonnegative().describe("Numeric amount with locale grouping and decimal separators normalized."),
+      currency: z.string().nullable().describe("ISO 4217 currency code recognized from a symbol or code."),
+      raw: z.string().describe("Price text as it appeared on the page."),
+      amountUsd: amountUsdSchema,
+    })).describe(
+      "Distinct prices found anywhere on the page, parsed to numbers with their currency. Up to 20.",
+    );
+
+    const complianceCategorySchema = z.enum([
+      "attestation",
+      "certification",
+      "government_authorization",
+      "regulation",
+      "data_governance",
+      "product_security",
+      "security_program",
+    ]).describe("Catalog category, for grouping frameworks.");
+
+    const structuredSourceSchema = z.enum(["json_ld", "microdata"]).describe(
+      "Whether the item came from a JSON-LD script or from microdata attributes.",
+    );
+
+    const structuredRatingSchema = z.object({
+      value: z.number().describe("aggregateRating ratingValue."),
+      count: z.number().nullable().describe("reviewCount or ratingCount, when stated."),
+    }).nullable().describe("Aggregate rating published for the item, if any.");
+
+    const structuredOffersSchema = z.array(z.object({
+      itemName: z.string().nullable().describe("Name of the Product or SoftwareApplication the offer belongs to."),
+      name: z.string().nullable().describe("Offer name, often the plan name."),
+      amount: z.number().nullable().describe("price, or lowPrice for an AggregateOffer. Null when the offer has no parseable price."),
+      currency: z.string().nullable().describe("priceCurrency as an ISO 4217 code."),
+      amountUsd: amountUsdSchema,
+      period: z.enum(["month", "year"]).nullable().describe("Billing period from a UnitPriceSpecification, if stated."),
+      availability: z.string().nullable().describe("schema.org availability, such as InStock."),
+      url: z.string().nullable().describe("Offer URL, if stated."),
+      source: structuredSourceSchema,
+    })).describe(
+      "schema.org Offer objects the page publishes in JSON-LD or microdata. Site-declared, so stronger evidence than prices matched in page text. Up to 20.",
+    );
+
+    const usagePricingSchema = z.array(z.object({
+      amount: z.number().nonnegative().describe("Price per unitQuantity units."),
+      currency: z.string().nullable().describe("ISO 4217 currency code."),
+      raw: z.string().describe("Price text as it appeared on the page, such as \"$0.50 per 1K requests\"."),
+      amountUsd: amountUsdSchema,
+      unit: z.string().describe(
+        "Canonical unit: request, token, character, gb, mau, message, email, minute, event, credit, image, or page_view. TB and MB convert to gb and hours to minutes.",
+      ),
+      unitQuantity: z.number().positive().describe("Number of canonical units the amount buys, for example 1000 for \"per 1K\"."),
+      amountPerUnit: z.number().nonnegative().describe("amount / unitQuantity, the price of a single canonical unit."),
+      amountPerUnitUsd: z.number().nonnegative().optional().describe(
+        "amountPerUnit converted with the caller's exchange_rates. Omitted when amountUsd is omitted.",
+      ),
+    })).describe(
+      "Metered per-unit prices found on the page, up to 20.",
+    );
+
+    const volumeTiersSchema = z.array(z.object({
+      unit: z.string().nullable().describe("Canonical unit named in the table, if any."),
+      tiers: z.array(z.object({
+        from: z.number().nonnegative().describe("Start of the usage range."),
+        to: z.number().nullable().describe("End of the usage range, or null for an open-ended top tier such as \"10M+\"."),
+        amount: z.number().nonnegative().describe("Price listed for the range."),
+        currency: z.string().nullable().describe("ISO 4217 currency code, or null for a plain \"Free\" tier."),
+        raw: z.string().describe("Price cell text."),
+      })).describe("Tiers in table order, up to 20."),
+    })).describe(
+      "Tiered volume tables whose first column is a usage range (\"First 1M\", \"1M - 10M\", \"10M+\"), up to 5 tables.",
+    );
+
+    const contactSalesPlansSchema = z.array(z.string()).describe(
+      "Names of plans that exist but whose price is unpublished (\"Contact sales\", \"Custom\"). Report these as unpublished rather than leaving them out.",
+    );
+
+    const exchangeRatesSchema = z.record(z.string().regex(/^[A-Z]{3}$/), z.number().positive()).optional().describe(
+      "Optional static exchange-rate table: USD per one unit of each ISO currency, for example {\"EUR\": 1.08, \"GBP\": 1.27}. When supplied, prices in listed currencies also get amountUsd.",
+    );
+
+    const pricingPlansSchema = z.array(z.object({
+      name: z.string().describe("Plan name as shown on the card heading or table column."),
+      price: z.object({
+        amount: z.number().nonnegative().describe("Numeric price amount with locale separators normalized."),
+        currency: z.string().nullable().describe("ISO 4217 currency code, or null for a plain \"Free\" label."),
+        raw: z.string().describe("Price text as it appeared on the page."),
+        amountUsd: amountUsdSchema,
+        period: z.enum(["month", "year"]).nullable().describe("Billing period stated next to the price, if any."),
+        qualifier: z.enum(["per_seat", "usage"]).nullable().describe(
+          "per_seat for per-user or per-seat prices, usage for per-request, per-token, or similar unit prices.",
+        ),
+        billing: z.enum(["monthly", "annual"]).nullable().describe(
+          "How this price is billed: from \"billed annually\" style copy, a yearly period, or a match against the page's embedded price sets. A per-month price labeled annual is not the month-to-month price. Null when the page does not say.",
+        ),
+      }).nullable().describe("Price shown for this plan, or null when the plan shows \"Contact sales\" or \"Custom\" instead."),
+      contactSales: z.boolean().describe(
+        "True when the plan exists but its price is unpublished, shown as \"Contact sales\", \"Custom\", \"Let's talk\", or similar.",
+      ),
+      priceLabel: z.string().nullable().describe("Text shown in place of the price for contactSales plans."),
+      features: z.array(z.string()).describe("Feature bullets listed for the plan, up to 15."),
+      cta: z.string().nullable().describe("Call-to-action button or link text, such as \"Start free trial\"."),
+      source: z.enum(["card", "table", "structured_data"]).describe(
+        "Whether the plan came from a pricing card, a comparison table, or a schema.org offer with no matching visible plan.",
+      ),
+      confidence: z.number().min(0).max(1).describe(
+        "Heuristic confidence that this is a real plan with the right price, from 0 to 1. Plans whose name and amount match a schema.org offer on the page score at least 0.95.",
+      ),
+    })).describe(
+      "Plans extracted from pricing cards, comparison tables, and schema.org offers, each linked to its own price. Static HTML only; JavaScript-rendered cards are missed.",
+    );
+
+    const billingSchema = z.object({
+      toggleDetected: z.boolean().describe(
+        "True when at least one plan ships both a monthly and an annual price, as behind a monthly/annual toggle.",
+      ),
+      options: z.array(z.object({
+        plan: z.string().nullable().describe("Plan name from the embedded data, or null when the data does not name it."),
+        billing: z.enum(["monthly", "annual"]).describe("Whether this price is billed monthly or annually."),
+        amount: z.number().nonnegative().describe("Amount as stated in the page data."),
+        currency: z.string().nullable().describe("ISO 4217 currency code, when the page data states one."),
+        amountUsd: amountUsdSchema,
+        perMonth: z.number().nonnegative().nullable().describe(
+          "Effective monthly cost. For annual prices, the yearly total divided by 12. Null when an annual amount cannot be told apart as yearly or per-month.",
+        ),
+        perYear: z.number().nonnegative().nullable().describe("Effective yearly cost, or null when unknown."),
+        source: z.enum(["next_data", "json_ld", "data_attribute"]).describe(
+          "Where the price was found: Next.js __NEXT_DATA__ props, a JSON-LD Offer, or data-* attributes.",
+        ),
+      })).describe("Monthly and annual prices found in page data, up to 24."),
+      discounts: z.array(z.object({
+        plan: z.string().nullable().describe("Plan the discount applies to."),
+        monthlyPerMonth: z.number().nonnegative().describe("Month-to-month price."),
+        annualPerMonth: z.number().nonnegative().describe("Effective monthly price when billed annually."),
+        discountPercent: z.number().min(0).max(100).describe("Implied annual discount, 1 - annualPerMonth / monthlyPerMonth, in percent."),
+      })).describe("Per-plan discounts implied by plans that ship both price sets."),
+      annualDiscountPercent: z.number().nullable().describe(
+        "Largest implied annual discount across plans, or null when no plan ships both price sets.",
+      ),
+      advertisedAnnualDiscountPercent: z.number().nullable().describe(
+        "Discount claimed in visible toggle copy such as \"Annual (save 20%)\", or null when none was found.",
+      ),
+    }).describe(
+      "Monthly and annual price sets shipped with the page, as behind a billing toggle, and the annual discount they imply.",
+    );
+
+    const timeoutMsSchema = z.number().int().min(MIN_FETCH_TIMEOUT_MS).max(MAX_FETCH_TIMEOUT_MS).default(DEFAULT_FETCH_TIMEOUT_MS).describe(
+      `Per-request timeout in milliseconds, covering redirects and the full body. Defaults to ${DEFAULT_FETCH_TIMEOUT_MS} and is capped at ${MAX_FETCH_TIMEOUT_MS}.`,
+    );
+
+    const archiveEvidenceSchema = z.boolean().default(false).describe(
+      "Store the normalized text, SHA-256 content hash, fetch time, and response headers of each page read, " +
+      "for later retrieval with get_evidence. Requires a team API key; evidence is kept for 30 days.",
+    );
+    const evidenceIdSchema = z.string().describe(
+      "Id of the archived copy of this page, for get_evidence. Present only when archive_evidence was set and the page was stored.",
+    );
+    const evidenceErrorSchema = z.string().describe(
+      "Why archive_evidence could not be honored, such as a missing or inactive team API key. The result itself is unaffected.",
+    );
+
+    // archive_evidence needs the caller's own active team key: evidence is stored and
+    // retrieved per key, and kept for EVIDENCE_RETENTION_DAYS.
+    const openEvidenceArchive = async (extra: unknown, tool: string): Promise<{ archive?: EvidenceArchiver; evidenceError?: string }> => {
+      const apiKey = getExtraHeader(extra, "X-API-Key");
+      if (!apiKey) return { evidenceError: `missing_api_key: archive_evidence on ${tool} requires a team API key` };
+      try {
+        const record = await getApiKeyRecord(this.env.API_KEYS, apiKey);
+        if (!record || !isBillingActive(record)) {
+          return { evidenceError: `billing_inactive: archive_evidence on ${tool} requires an active team plan` };
+        }
+        return { archive: createEvidenceArchiver(sql, await sha256Hex(apiKey), EVIDENCE_RETENTION_DAYS, tool) };
+      } catch (e) {
+        return { evidenceError: e instanceof Error ? e.message : String(e) };
+      }
+    };
+
+    const receiptRequestSchema = z.boolean().default(false).describe(
+      "Attach a receipt signed with the server's Ed25519 key. It covers the tool name, normalized inputs, a SHA-256 digest " +
+      `of this result, archived evidence hashes, the time, and the server version. Check it with verify_receipt or the public key at ${RECEIPT_KEYS_PATH}.`,
+    );
+    const receiptSchema = z.object({
+      algorithm: z.literal(RECEIPT_ALGORITHM),
+      payload: z.object({
+        version: z.number().int(),
+        tool: z.string(),
+        inputs: z.record(z.string(), z.unknown()).describe("Tool arguments after defaults were applied, without receipt."),
+        outputDigest: z.string().describe("Hex SHA-256 of this result as canonical JSON, leaving out receipt and receiptError."),
+        evidence: z.array(z.object({ evidenceId: z.string(), contentHash: z.string() })).describe(
+          "Content hashes of the pages archived with archive_evidence during this call.",
+        ),
+        issuedAt: z.string(),
+        serverVersion: z.string(),
+        keyId: z.string().describe("First 16 hex characters of the SHA-256 of the public key's x value."),
+      }),
+      signature: z.string().describe("Base64url Ed25519 signature over the canonical JSON of payload: keys sorted, no whitespace."),
+    });
+
+    const attachReceipt = async (tool: string, inputs: Record<string, unknown>, result: Record<string, unknown>): Promise<Record<string, unknown>> => {
+      const keyPromise = getReceiptSigningKey(this.env);
+      if (!keyPromise) {
+        return { ...result, receiptError: "receipts_unavailable: this server has no receipt signing key configured" };
+      }
+      try {
+        const key = await keyPromise;
+        const evidence = [...collectEvidenceIds(result)].flatMap((evidenceId) => {
+          const [row] = sql<Pick<EvidenceRecord, "content_hash">>`SELECT content_hash FROM evidence WHERE id = ${evidenceId}`;
+          return row ? [{ evidenceId, contentHash: row.content_hash }] : [];
+        });
+        const receipt = await signReceipt(key, {
+          version: RECEIPT_VERSION,
+          tool,
+          inputs,
+          outputDigest: await getReceiptOutputDigest(result),
+          evidence,
+          issuedAt: new Date().toISOString(),
+          serverVersion: SERVER_VERSION,
+          keyId: key.keyId,
+        });
+        return { ...result, receipt };
+      } catch (e) {
+        return { ...result, receiptError: e instanceof Error ? e.message : String(e) };
+      }
+    };
+
+    // Every paid tool takes `receipt`. The handler never sees it; the receipt is signed
+    // over the parsed arguments and the handler's result once it returns.
+    const registerPaidTool = <InputArgs extends z.ZodRawShape, OutputArgs extends z.ZodRawShape>(
+      name: (typeof PAID_TOOLS)[number],
+      config: { title: string; description: string; inputSchema: InputArgs; outputSchema: OutputArgs; annotations?: ToolAnnotations; _meta?: Record<string, unknown> },
+      cb: ToolCallback<InputArgs>,
+    ) => this.server.registerTool<z.ZodRawShape, z.ZodRawShape>(
+      name,
+      {
+        ...config,
+        inputSchema: { ...config.inputSchema, receipt: receiptRequestSchema },
+        outputSchema: {
+          ...config.outputSchema,
+          receipt: receiptSchema.optional().describe("Signed receipt, present when receipt was set and signing succeeded."),
+          receiptError: z.string().optional().describe("Why a requested receipt could not be signed. The result itself is unaffected."),
+        },
+      },
+      async (args, extra) => {
+        const { receipt, ...inputs } = args as Record<string, unknown>;
+        const result = await (cb as (args: Record<string, unknown>, extra: unknown) => CallToolResult | Promise<CallToolResult>)(inputs, extra);
+        if (!receipt || !result.structuredContent) return result;
+        return structuredToolResult(await attachReceipt(name, inputs, result.structuredContent));
+      },
+    );
+    
+    // Helper to add x402 metadata to paid tools when Monetization Gateway is enabled
+    function getPaidToolMetadata(toolName: string): Record<string, unknown> {
+      if (!X402_PAYMENT_ENABLED) return {};
+      
+      const priceUSD = X402_TOOL_PRICES_USD[toolName as keyof typeof X402_TOOL_PRICES_USD];
+      const normalizedNetwork = normalizeX402Network(X402_NETWORK_CONFIG);
+      
+      if (!priceUSD) return {};
+      
+      return {
+        _meta: {
+          "agents-x402/paymentRequired": true,
+          "agents-x402/priceUSD": priceUSD,
+          "agents-x402/network": normalizedNetwork,
+          "agents-x402/asset": normalizedNetwork === "eip155:84532" ? "Test USDC" : "USDC",
+          "agents-x402/payTo": X402_RECIPIENT_CONFIG,
+          "agents-x402/priceCurrency": "USD",
+        },
+      };
+    }
+
+    // ───────────────────────────────────────────────
+    // FREE: check_endpoint
+    // ───────────────────────────────────────────────
+    this.server.registerTool(
+      "check_endpoint",
+      {
+        title: "Endpoint Reachability Check",
+        description:
+          "Perform one live fetch against a public URL or API endpoint before you " +
+          "recommend it, document it, or build on top of it. Use this when the question " +
+          "is simply whether an endpoint currently responds and what kind of response " +
+          "it returns. It reports HTTP status, content type, elapsed time, likely " +
+          "auth/rate-limit signals, and a short response sample. The request is a GET " +
+          "by default; method, headers, and a JSON body can be set for APIs that only " +
+          "answer HEAD/OPTIONS or need an Accept header. POST is limited to GraphQL " +
+          "queries and JSON-RPC calls to read-only methods such as tools/list or " +
+          "eth_blockNumber. A successful result only proves basic reachability at " +
+          "fetch time. Set follow_redirects to see every redirect hop, including " +
+          "protocol downgrades and cross-domain hops. Do not use it to validate " +
+          "authenticated flows, write operations, JavaScript execution, or deeper " +
+          "business logic.",
+        inputSchema: {
+          url: z.string().trim().min(1).describe(
+            "Public http(s) URL or bare domain to probe. Bare domains like google.com are accepted and normalized to https:// automatically.",
+          ),
+          follow_redirects: z.boolean().default(false).describe(
+            "When true, follow redirects hop by hop and return the full chain with per-hop status, Location header, and timing. When false, redirects are still followed but only the final response is reported.",
+          ),
+          method: z.enum(CHECK_ENDPOINT_METHODS).default("GET").describe(
+            "HTTP method to send. POST requires a JSON body that is a GraphQL query or a JSON-RPC call to a read-only method.",
+          ),
+          headers: z.record(z.string(), z.string()).optional().describe(
+            "Extra request headers, for example {\"Accept\": \"application/json\"}. Up to 20. Hop-by-hop, Host, proxy, forwarding, and method-override headers are rejected. Values of credential-like headers are redacted in the output and are not forwarded across origins on redirect.",
+          ),
+          body: z.union([z.record(z.string(), z.unknown()), z.array(z.unknown())]).optional().describe(
+            "JSON body for POST requests, sent with Content-Type: application/json. At most 8 KB once serialized. " +
+            `Only {"query": "..."} GraphQL queries and {"jsonrpc": "2.0", "method": ...} calls to ${SAFE_JSON_RPC_METHODS.join(", ")} are accepted.`,
+          ),
+          timeout_ms: timeoutMsSchema,
+        },
+        outputSchema: {
+          inputUrl: z.string().describe(
+            "Original user input when normalization changed it, for example when https:// was added.",
+          ).optional(),
+          url: z.string().describe(
+            "Normalized URL that was actually fetched.",
+          ),
+          accessible: z.boolean().describe(
+            "True when the endpoint returned a 2xx HTTP status.",
+          ),
+          status: z.number().int().describe(
+            "HTTP status code returned by the endpoint, when a response was received.",
+          ).optional(),
+          contentType: z.string().nullable().describe(
+            "Response Content-Type header, if present.",
+          ).optional(),
+          responseTimeMs: z.number().int().nonnegative().describe(
+            "Milliseconds until the final response headers arrived, including redirects; same as timing.timeToHeadersMs. On failure, the time until the request gave up.",
+          ).optional(),
+          timing: fetchTimingSchema.optional(),
+          authRequired: z.boolean().describe(
+            "True when the server responded with 401 or 403, which usually means credentials are required.",
+          ).optional(),
+          rateLimited: z.boolean().describe(
+            "True when the server responded with 429 Too Many Requests.",
+          ).optional(),
+          sampleResponse: z.string().describe(
+            "First 1,000 characters of the response body for quick inspection. Use this as a debugging hint only; it may be truncated and should not be treated as a complete page capture.",
+          ).optional(),
+          error: z.string().describe(
+            "Validation or network error when the request could not be completed.",
+          ).optional(),
+          errorCode: outboundErrorCodeSchema.optional(),
+          finalUrl: z.string().describe(
+            "URL of the response that ended the redirect chain. Only returned when follow_redirects is true.",
+          ).optional(),
+          request: z.object({
+            method: z.string().describe("HTTP method that was sent."),
+            headers: z.record(z.string(), z.string()).describe(
+              "Request headers that were sent, with credential-like values redacted.",
+            ),
+            bodyBytes: z.number().int().nonnegative().describe(
+              "Size of the JSON request body in bytes, or 0 when no body was sent.",
+            ),
+            bodyKind: z.enum(SAFE_POST_BODY_KINDS).optional().describe(
+              "Which safe-listed read-only request the POST body was accepted as.",
+            ),
+          }).describe(
+            "The request that was actually sent.",
+          ).optional(),
+          redirects: z.object({
+            hops: z.array(z.object({
+              url: z.string().describe("URL requested at this hop."),
+              status: z.number().int().describe("HTTP status returned at this hop."),
+              location: z.string().nullable().describe("Raw Location header returned at this hop, if any."),
+              responseTimeMs: z.number().int().nonnegative().describe("Time until this hop's response headers arrived."),
+            })).describe(
+              "Every request made, in order, ending with the final response or the hop before a failure.",
+            ),
+            count: z.number().int().nonnegative().describe(
+              "Number of redirects that were followed or attempted.",
+            ),
+            protocolDowngrade: z.boolean().describe(
+              "True when any hop redirected from https to http.",
+            ),
+            crossDomain: z.boolean().describe(
+              "True when any hop redirected to a different registrable domain.",
+            ),
+            loopDetected: z.boolean().describe(
+              "True when the chain redirected back to a URL it had already visited.",
+            ),
+          }).describe(
+            "Redirect chain details. Only returned when follow_redirects is true.",
+          ).optional(),
+        },
+        annotations: readOnlyNetworkToolAnnotations,
+      },
+      async ({ url, follow_redirects, method, headers, body: requestBody, timeout_ms }) => {
+        const normalizedUrl = normalizeHttpUrlInput(url);
+        if (!normalizedUrl) {
+          logUsage("check_endpoint", false);
+          return structuredToolResult({
+            url,
+            accessible: false,
+            error: "Invalid URL. Use a public http(s) URL or a bare domain like google.com.",
+          });
+        }
+
+        const endpointRequest = buildEndpointRequest(method, headers, requestBody);
+        if ("error" in endpointRequest) {
+          logUsage("check_endpoint", false);
+          return structuredToolResult({
+            url,
+            accessible: false,
+            error: endpointRequest.error,
+          });
+        }
+
+        const start = Date.now();
+        const hops: RedirectHop[] = [];
+        try {
+          const { response: resp, body, timing } = await timedFetch(normalizedUrl, endpointRequest.init, {
+            timeoutMs: timeout_ms,
+            hops,
+          });
+          const sample = body.slice(0, 1000);
+          logUsage("check_endpoint", true);
+
+          return structuredToolResult({
+            ...(normalizedUrl !== url ? { inputUrl: url } : {}),
+            url: normalizedUrl,
+            accessible: resp.ok,
+            status: resp.status,
+            contentType: resp.headers.get("content-type"),
+            responseTimeMs: timing.timeToHeadersMs,
+            timing,
+            authRequired: resp.status === 401 || resp.status === 403,
+            rateLimited: resp.status === 429,
+            sampleResponse: sample,
+            request: endpointRequest.summary,
+            ...(follow_redirects
+              ? { finalUrl: hops[hops.length - 1]?.url ?? normalizedUrl, redirects: summarizeRedirectChain(hops, false) }
+              : {}),
+          });
+        } catch (e: unknown) {
+          logUsage("check_endpoint", false);
+          const outboundError = describeOutboundError(e);
+          return structuredToolResult({
+            ...(normalizedUrl !== url ? { inputUrl: url } : {}),
+            url: normalizedUrl,
+            accessible: false,
+            ...outboundError,
+            responseTimeMs: Date.now() - start,
+            request: endpointRequest.summary,
+            ...(follow_redirects
+              ? { redirects: summarizeRedirectChain(hops, outboundError.errorCode === "redirect_loop") }
+              : {}),
+          });
+        }
+      }
+    );
+
+    // ───────────────────────────────────────────────
+    // FREE: check_cors
+    // ───────────────────────────────────────────────
+    this.server.registerTool(
+      "check_cors",
+      {
+        title: "CORS Preflight Probe",
+        description:
+          "Send a CORS preflight (OPTIONS) to a public endpoint with a chosen Origin, " +
+          "method, and request headers before you tell someone a browser app can call " +
+          "that API directly. It reports the Access-Control-Allow-* response headers, " +
+          "whether a browser would allow the request, and classifies the policy as " +
+          "closed, allow_list, reflects_any_origin, wildcard, or wildcard_with_credentials. " +
+          "A second preflight from an unlisted origin is sent to detect servers that echo " +
+          "any Origin. It does not send the actual request, so it cannot confirm that the " +
+          "endpoint's real response also carries CORS headers.",
+        inputSchema: {
+          url: z.string().trim().min(1).describe(
+            "Public http(s) URL or bare domain to probe. Bare domains are normalized to https:// automatically.",
+          ),
+          origin: z.string().trim().min(1).default("https://example.com").describe(
+            "Origin the browser app would run on, for example https://app.example.com. Only scheme, host, and port are used.",
+          ),
+          method: z.enum(CORS_PROBE_METHODS).default("GET").describe(
+            "Method the browser app would use, sent as Access-Control-Request-Method.",
+          ),
+          request_headers: z.array(z.string().trim().regex(/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/)).max(MAX_CORS_REQUEST_HEADERS).default([]).describe(
+            "Header names the browser app would send, for example [\"authorization\", \"content-type\"]. Sent as Access-Control-Request-Headers.",
+          ),
+          credentials: z.boolean().default(false).describe(
+            "Whether the browser app would send cookies or HTTP auth (fetch credentials: 'include'). Credentialed requests cannot use wildcards.",
+          ),
+          content_type: z.string().trim().min(1).max(200).optional().describe(
+            "Content-Type the browser app would send, for example application/json. Content-Type needs no preflight approval only for " +
+            "text/plain, application/x-www-form-urlencoded, and multipart/form-data; otherwise, or when omitted, a content-type " +
+            "entry in request_headers must appear in Access-Control-Allow-Headers.",
+          ),
+          timeout_ms: timeoutMsSchema.describe(
+            `Timeout in milliseconds for each preflight. Defaults to ${DEFAULT_FETCH_TIMEOUT_MS} and is capped at ${MAX_FETCH_TIMEOUT_MS}.`,
+          ),
+        },
+        outputSchema: {
+          inputUrl: z.string().optional().describe(
+            "Original user input when normalization changed it.",
+          ),
+          url: z.string().describe(
+            "Normalized URL that was probed.",
+          ),
+          origin: z.string().describe(
+            "Origin sent in the preflight.",
+          ),
+          method: z.string().describe(
+            "Method sent as Access-Control-Request-Method.",
+          ),
+          requestHeaders: z.array(z.string()).describe(
+            "Header names sent as Access-Control-Request-Headers.",
+          ),
+          status: z.number().int().optional().describe(
+            "HTTP status of the preflight response.",
+          ),
+          preflightOk: z.boolean().optional().describe(
+            "True when the preflight returned a 2xx status without redirecting. Browsers fail preflights that redirect or return other statuses.",
+          ),
+          redirected: z.boolean().optional().describe(
+            "True when the preflight was answered with a redirect.",
+          ),
+          allowOrigin: z.string().nullable().optional().describe(
+            "Access-Control-Allow-Origin returned for the requested origin.",
+          ),
+          allowMethods: z.array(z.string()).optional().describe(
+            "Methods listed in Access-Control-Allow-Methods.",
+          ),
+          allowHeaders: z.array(z.string()).optional().describe(
+            "Headers listed in Access-Control-Allow-Headers.",
+          ),
+          allowCredentials: z.boolean().optional().describe(
+            "True when Access-Control-Allow-Credentials is true.",
+          ),
+          maxAge: z.number().int().nullable().optional().describe(
+            "Access-Control-Max-Age in seconds, if set.",
+          ),
+          varyOrigin: z.boolean().optional().describe(
+            "True when Vary includes Origin. Servers that pick Allow-Origin per request need this to stay cache-safe.",
+          ),
+          policy: z.enum(["closed", "allow_list", "reflects_any_origin", "wildcard", "wildcard_with_credentials"]).optional().describe(
+            "closed: no Allow-Origin for either probe. allow_list: specific origins only. reflects_any_origin: an unlisted origin was echoed back. wildcard: Allow-Origin is *. wildcard_with_credentials: * together with Allow-Credentials: true, which browsers reject for credentialed requests.",
+          ),
+          browserAllowed: z.boolean().optional().describe(
+            "True when a browser on origin would be allowed to send this method, these headers, and (if requested) credentials.",
+          ),
+          timing: fetchTimingSchema.optional(),
+          error: z.string().optional().describe(
+            "Validation or network error when the preflight could not be completed.",
+          ),
+          errorCode: outboundErrorCodeSchema.optional(),
+        },
+        annotations: readOnlyNetworkToolAnnotations,
+      },
+      async ({ url, origin, method, request_headers, credentials, content_type, timeout_ms }) => {
+        const normalizedUrl = normalizeHttpUrlInput(url);
+        let normalizedOrigin: string | null = null;
+        try {
+          const parsedOrigin = new URL(origin);
+          if (parsedOrigin.protocol === "http:" || parsedOrigin.protocol === "https:") {
+            normalizedOrigin = parsedOrigin.origin;
+          }
+        } catch {
+          normalizedOrigin = null;
+        }
+        const base = { origin: normalizedOrigin ?? origin, method, requestHeaders: request_headers };
+        if (!normalizedUrl || !normalizedOrigin) {
+          logUsage("check_cors", false);
+          return structuredToolResult({
+            url,
+            ...base,
+            error: !normalizedUrl
+              ? "Invalid URL. Use a public http(s) URL or a bare domain like google.com."
+              : "Invalid origin. Use an http(s) origin such as https://app.example.com.",
+          });
+        }
+
+        const sendPreflight = (probeOrigin: string, hops?: RedirectHop[]) => {
+          const headers = new Headers({
+            "User-Agent": "GroundTruth/0.4",
+            Origin: probeOrigin,
+            "Access-Control-Request-Method": method,
+          });
+          if (request_headers.length > 0) {
+            headers.set("Access-Control-Request-Headers", request_headers.map((name) => name.toLowerCase()).join(","));
+          }
+          return timedFetch(normalizedUrl, { method: "OPTIONS", headers }, { timeoutMs: timeout_ms, hops });
+        };
 
-    const registerPaidTool = this.server.registerTool.bind(this.server);
-    
-    // Helper to add x402 metadata to paid tools when Monetization Gateway is enabled
-    function getPaidToolMetadata(toolName: string): Record<string, unknown> {
-      if (!X402_PAYMENT_ENABLED) return {};
-      
-      const priceUSD = X402_TOOL_PRICES_USD[toolName as keyof typeof X402_TOOL_PRICES_USD];
-      const normalizedNetwork = normalizeX402Network(X402_NETWORK_CONFIG);
-      
-      if (!priceUSD) return {};
-      
-      return {
-        _meta: {
-          "agents-x402/paymentRequired": true,
-          "agents-x402/priceUSD": priceUSD,
-          "agents-x402/network": normalizedNetwork,
-          "agents-x402/asset": normalizedNetwork === "eip155:84532" ? "Test USDC" : "USDC",
-          "agents-x402/payTo": X402_RECIPIENT_CONFIG,
-          "agents-x402/priceCurrency": "USD",
-        },
-      };
-    }
+        try {
+          const hops: RedirectHop[] = [];
+          const { response: resp, timing } = await sendPreflight(normalizedOrigin, hops);
+          const cors = readCorsResponseHeaders(resp.headers);
+          let unlistedAllowOrigin: string | null = null;
+          try {
+            const unlisted = await sendPreflight(CORS_UNLISTED_PROBE_ORIGIN);
+            unlistedAllowOrigin = unlisted.response.headers.get("access-control-allow-origin");
+          } catch {
+            // Without the second probe, reflection simply cannot be detected.
+          }
+          const redirected = hops.length > 1;
+          const preflightOk = resp.ok && !redirected;
+          logUsage("check_cors", true);
+          return structuredToolResult({
+            ...(normalizedUrl !== url ? { inputUrl: url } : {}),
+            url: normalizedUrl,
+            ...base,
+            status: resp.status,
+            preflightOk,
+            redirected,
+            ...cors,
+            policy: classifyCorsPolicy(cors, unlistedAllowOrigin),
+            browserAllowed: preflightOk && isCorsRequestAllowed(cors, normalizedOrigin, method, request_headers, credentials, content_type ?? null),
+            timing,
+          });
+        } catch (e: unknown) {
+          logUsage("check_cors", false);
+          return structuredToolResult({
+            ...(normalizedUrl !== url ? { inputUrl: url } : {}),
+            url: normalizedUrl,
+            ...base,
+            ...describeOutboundError(e),
+          });
+        }
+      },
+    );
 
     // ───────────────────────────────────────────────
-    // FREE: check_endpoint
+    // FREE: extract_structured_data
     // ───────────────────────────────────────────────
     this.server.registerTool(
-      "check_endpoint",
+      "extract_structured_data",
       {
-        title: "Endpoint Reachability Check",
+        title: "Structured Data Extraction",
         description:
-          "Perform one live, unauthenticated fetch against a public URL or API endpoint " +
-          "before you recommend it, document it, or build on top of it. Use this when " +
-          "the question is simply whether an endpoint currently responds and what kind " +
-          "of response it returns. It reports HTTP status, content type, elapsed time, " +
-          "likely auth/rate-limit signals, and a short response sample. A successful " +
-          "result only proves basic reachability at fetch time. Do not use it to " +
-          "validate authenticated flows, POST side effects, JavaScript execution, " +
-          "or deeper business logic.",
+          "Fetch a public page and read the structured data it publishes for search " +
+          "engines and link previews: schema.org JSON-LD, microdata, and OpenGraph/Twitter " +
+          "meta tags. Use this before quoting a product name, price, publisher, app " +
+          "category, or FAQ answer, because site-declared facts are more reliable than " +
+          "text scraped from the layout. It returns typed summaries for Product, Offer, " +
+          "Organization, SoftwareApplication, and FAQPage items plus the raw meta tags. " +
+          "Structured data can be stale or differ from what the page shows, and data " +
+          "injected by JavaScript after load is missed. Results are cached for 5 minutes.",
         inputSchema: {
           url: z.string().trim().min(1).describe(
-            "Public http(s) URL or bare domain to probe. Bare domains like google.com are accepted and normalized to https:// automatically.",
+            "Public http(s) URL or bare domain to read. Bare domains are normalized to https:// automatically.",
           ),
+          timeout_ms: timeoutMsSchema,
         },
         outputSchema: {
-          inputUrl: z.string().describe(
-            "Original user input when normalization changed it, for example when https:// was added.",
-          ).optional(),
+          inputUrl: z.string().optional().describe(
+            "Original user input when normalization changed it.",
+          ),
           url: z.string().describe(
-            "Normalized URL that was actually fetched.",
+            "Normalized URL that was read.",
           ),
-          accessible: z.boolean().describe(
-            "True when the endpoint returned a 2xx HTTP status.",
+          cached: z.boolean().optional().describe(
+            "True when the page body came from the 5-minute cache instead of a new fetch.",
           ),
-          status: z.number().int().describe(
-            "HTTP status code returned by the endpoint, when a response was received.",
-          ).optional(),
-          contentType: z.string().nullable().describe(
-            "Response Content-Type header, if present.",
-          ).optional(),
-          responseTimeMs: z.number().int().nonnegative().describe(
-            "Elapsed request time in milliseconds.",
-          ).optional(),
-          authRequired: z.boolean().describe(
-            "True when the server responded with 401 or 403, which usually means credentials are required.",
-          ).optional(),
-          rateLimited: z.boolean().describe(
-            "True when the server responded with 429 Too Many Requests.",
-          ).optional(),
-          sampleResponse: z.string().describe(
-            "First 1,000 characters of the response body for quick inspection. Use this as a debugging hint only; it may be truncated and should not be treated as a complete page capture.",
-          ).optional(),
-          error: z.string().describe(
-            "Validation or network error when the request could not be completed.",
-          ).optional(),
+          types: z.array(z.string()).optional().describe(
+            "Distinct schema.org types found in JSON-LD and microdata, including nested ones.",
+          ),
+          jsonLdBlocks: z.number().int().nonnegative().optional().describe(
+            "Number of application/ld+json script blocks on the page.",
+          ),
+          invalidJsonLdBlocks: z.number().int().nonnegative().optional().describe(
+            "JSON-LD blocks that were not valid JSON and were skipped.",
+          ),
+          microdataItems: z.number().int().nonnegative().optional().describe(
+            "Number of top-level microdata items (itemscope elements not nested in another item).",
+          ),
+          products: z.array(z.object({
+            name: z.string().nullable().describe("Product name."),
+            brand: z.string().nullable().describe("Brand name."),
+            description: z.string().nullable().describe("Product description, up to 500 characters."),
+            sku: z.string().nullable().describe("Product SKU."),
+            rating: structuredRatingSchema,
+            source: structuredSourceSchema,
+          })).optional().describe(
+            "Product items. Their offers are listed in offers.",
+          ),
+          offers: structuredOffersSchema.optional(),
+          organizations: z.array(z.object({
+            name: z.string().nullable().describe("Organization name."),
+            url: z.string().nullable().describe("Organization URL."),
+            logo: z.string().nullable().describe("Logo URL."),
+            sameAs: z.array(z.string()).describe("Profile links, such as social accounts, up to 20."),
+            email: z.string().nullable().describe("Contact email, if published."),
+            telephone: z.string().nullable().describe("Contact telephone, if published."),
+            source: structuredSourceSchema,
+          })).optional().describe(
+            "Organization and common subtype items, such as Corporation or LocalBusiness.",
+          ),
+          softwareApplications: z.array(z.object({
+            name: z.string().nullable().describe("Application name."),
+            applicationCategory: z.string().nullable().describe("applicationCategory, such as BusinessApplication."),
+            operatingSystem: z.string().nullable().describe("operatingSystem, such as Web or iOS."),
+            rating: structuredRatingSchema,
+            source: structuredSourceSchema,
+          })).optional().describe(
+            "SoftwareApplication, WebApplication, and MobileApplication items. Their offers are listed in offers.",
+          ),
+          faqs: z.array(z.object({
+            question: z.string().describe("Question text."),
+            answer: z.string().nullable().describe("Accepted answer with HTML tags removed, up to 500 characters."),
+            source: structuredSourceSchema,
+          })).optional().describe(
+            "Questions from FAQPage items, up to 30.",
+          ),
+          openGraph: z.record(z.string(), z.string()).optional().describe(
+            "OpenGraph meta tags keyed by property, such as og:title and product:price:amount.",
+          ),
+          twitter: z.record(z.string(), z.string()).optional().describe(
+            "Twitter card meta tags keyed by name, such as twitter:card.",
+          ),
+          timing: fetchTimingSchema.optional(),
+          error: z.string().optional().describe(
+            "Validation or fetch error when the page could not be read.",
+          ),
+          errorCode: outboundErrorCodeSchema.optional(),
         },
         annotations: readOnlyNetworkToolAnnotations,
       },
-      async ({ url }) => {
+      async ({ url, timeout_ms }) => {
         const normalizedUrl = normalizeHttpUrlInput(url);
         if (!normalizedUrl) {
-          logUsage("check_endpoint", false);
+          logUsage("extract_structured_data", false);
           return structuredToolResult({
             url,
-            accessible: false,
             error: "Invalid URL. Use a public http(s) URL or a bare domain like google.com.",
           });
         }
 
-        const start = Date.now();
         try {
-          const resp = await fetch(normalizedUrl, {
-            headers: { "User-Agent": "GroundTruth/0.3" },
-          });
-          const elapsed = Date.now() - start;
-          const body = await resp.text();
-          const sample = body.slice(0, 1000);
-          logUsage("check_endpoint", true);
-
+          const { body, fromCache, timing } = await cachedFetch(sql, normalizedUrl, timeout_ms);
+          logUsage("extract_structured_data", true);
           return structuredToolResult({
             ...(normalizedUrl !== url ? { inputUrl: url } : {}),
             url: normalizedUrl,
-            accessible: resp.ok,
-            status: resp.status,
-            contentType: resp.headers.get("content-type"),
-            responseTimeMs: elapsed,
-            authRequired: resp.status === 401 || resp.status === 403,
-            rateLimited: resp.status === 429,
-            sampleResponse: sample,
+            cached: fromCache,
+            ...extractStructuredData(body),
+            ...(timing ? { timing } : {}),
           });
         } catch (e: unknown) {
-          const message = e instanceof Error ? e.message : String(e);
-          logUsage("check_endpoint", false);
+          logUsage("extract_structured_data", false);
           return structuredToolResult({
             ...(normalizedUrl !== url ? { inputUrl: url } : {}),
             url: normalizedUrl,
-            accessible: false,
-            error: message,
-            responseTimeMs: Date.now() - start,
+            ...describeOutboundError(e),
           });
         }
-      }
+      },
     );
 
     // ───────────────────────────────────────────────
@@ -2198,9 +7827,21 @@ export class GroundTruthMCP extends McpAgent<Env> {
           "Fetch a public pricing page and extract first-pass pricing signals before " +
           "you quote plan costs, free tiers, or plan names. Use this when you already " +
           "have a likely pricing URL and need a quick live scan of visible page text. " +
-          "It returns price-like strings, heuristic plan labels, free or free-trial " +
-          "signals, and cache information. It does not map prices to exact plans, " +
-          "normalize currencies, execute checkout flows, or guarantee that a price " +
+          "It returns structured plans (name, price, billing period, per-seat or usage " +
+          "qualifier, feature bullets, CTA, and a confidence score) read from pricing " +
+          "cards and comparison tables, plus the older flat price-like strings, heuristic " +
+          "plan labels, free or free-trial signals, and cache information. Prices in " +
+          "common currency symbols and ISO codes are parsed with locale-aware separators " +
+          "and converted to USD when you pass exchange_rates. When the page ships both " +
+          "monthly and annual prices (Next.js data, JSON-LD offers, or data attributes " +
+          "behind a billing toggle), each is labeled and the implied annual discount is " +
+          "reported, so an annual-billed monthly rate is not mistaken for the " +
+          "month-to-month price. schema.org offers published in JSON-LD or microdata " +
+          "are returned as structuredOffers and used to corroborate plans. Metered prices " +
+          "(per 1K requests, per GB, per token, per MAU) are normalized to a canonical unit, " +
+          "tiered volume tables are read, and plans priced as \"Contact sales\" or " +
+          "\"Custom\" are flagged as unpublished. It does not fetch live " +
+          "exchange rates, execute checkout flows, or guarantee that a price " +
           "applies to a specific region or customer type. JavaScript-rendered, " +
           "logged-in, or heavily obfuscated pricing details can be missed. Results " +
           "are cached for 5 minutes.",
@@ -2208,6 +7849,9 @@ export class GroundTruthMCP extends McpAgent<Env> {
           url: z.string().url().describe(
             "Public pricing or plans URL to analyze. Prefer the specific pricing page, for example https://stripe.com/pricing, rather than a generic homepage.",
           ),
+          exchange_rates: exchangeRatesSchema,
+          timeout_ms: timeoutMsSchema,
+          archive_evidence: archiveEvidenceSchema,
         },
         outputSchema: {
           url: z.string().describe(
@@ -2217,11 +7861,18 @@ export class GroundTruthMCP extends McpAgent<Env> {
             "True when the page body came from the 5-minute cache instead of a new fetch.",
           ).optional(),
           pricesFound: z.array(z.string()).describe(
-            "Distinct price-like strings extracted from the page text. These are not linked back to specific plans or billing conditions.",
+            "Distinct price-like strings extracted from the page text. Kept for backward compatibility; use plans for prices linked to a plan and billing period.",
           ).optional(),
+          prices: pricesSchema.optional(),
           plansDetected: z.array(z.string()).describe(
             "Lowercased heuristic plan labels detected from the page text. They are useful hints, not authoritative plan identifiers.",
           ).optional(),
+          plans: pricingPlansSchema.optional(),
+          billing: billingSchema.optional(),
+          structuredOffers: structuredOffersSchema.optional(),
+          contactSalesPlans: contactSalesPlansSchema.optional(),
+          usagePricing: usagePricingSchema.optional(),
+          volumeTiers: volumeTiersSchema.optional(),
           hasFreeOption: z.boolean().describe(
             "True when the page contains signals that a free plan or $0 option exists somewhere on the page. This is a page-level signal, not proof that the offer is currently self-serve or globally available.",
           ).optional(),
@@ -2231,23 +7882,41 @@ export class GroundTruthMCP extends McpAgent<Env> {
           pageLength: z.number().int().nonnegative().describe(
             "Size of the fetched page body in characters.",
           ).optional(),
+          timing: fetchTimingSchema.optional(),
+          historyRecorded: z.boolean().describe(
+            "True when this scan was stored for get_pricing_history. Requires an X-API-Key header, and at least one detected plan. Scans whose plans match the key's last stored scan are not stored again.",
+          ).optional(),
+          evidenceId: evidenceIdSchema.optional(),
+          evidenceError: evidenceErrorSchema.optional(),
           error: z.string().describe(
             "Fetch or parsing error when the pricing page could not be analyzed.",
           ).optional(),
+          errorCode: outboundErrorCodeSchema.optional(),
         },
         annotations: readOnlyNetworkToolAnnotations,
         ...getPaidToolMetadata("check_pricing"),
       },
-      async ({ url }) => {
+      async ({ url, exchange_rates, timeout_ms, archive_evidence }, extra) => {
+        const { archive, evidenceError } = archive_evidence ? await openEvidenceArchive(extra, "check_pricing") : {};
         try {
-          const analysis = await analyzePricingPage(sql, url);
+          const analysis = await analyzePricingPage(sql, url, timeout_ms, exchange_rates, archive);
+          // Keyed scans feed get_pricing_history. Scans with no plans are skipped so a
+          // transient extraction miss does not show up as every plan being removed. Cached
+          // results are stored too: the page cache is shared by every key, so another key's
+          // recent scan must not hide this one. Repeats are dropped per key by plan comparison.
+          const apiKey = getExtraHeader(extra, "X-API-Key");
+          let historyRecorded = false;
+          if (apiKey && analysis.plans.length > 0) {
+            historyRecorded = recordPricingSnapshot(sql, await sha256Hex(apiKey), url, analysis.plans);
+          }
           logUsage("check_pricing", true);
-          return structuredToolResult(analysis);
+          return structuredToolResult({ ...analysis, historyRecorded, ...(evidenceError ? { evidenceError } : {}) });
         } catch (e: unknown) {
           logUsage("check_pricing", false);
           return structuredToolResult({
             url,
-            error: e instanceof Error ? e.message : String(e),
+            ...describeOutboundError(e),
+            ...(evidenceError ? { evidenceError } : {}),
           });
         }
       },
@@ -2264,13 +7933,18 @@ export class GroundTruthMCP extends McpAgent<Env> {
           "Fetch a public URL and inspect security-relevant response headers before " +
           "you claim that a product or endpoint has a strong browser-facing security " +
           "baseline. Use this for quick due diligence on public apps and docs sites. " +
-          "It checks for common headers such as HSTS, CSP, X-Frame-Options, " +
-          "Referrer-Policy, Permissions-Policy, and X-Content-Type-Options. It does " +
+          "It parses and grades common headers such as HSTS, CSP, X-Frame-Options, " +
+          "Referrer-Policy, Permissions-Policy, and X-Content-Type-Options, and flags " +
+          "deprecated or version-leaking headers such as X-Powered-By, Server, and " +
+          "X-XSS-Protection. Each finding has a severity and a short remediation. Cookies " +
+          "set by the response are listed with their attributes (values redacted) and " +
+          "unsafe combinations are flagged. It does " +
           "not replace a real security review, authenticated testing, or vulnerability scanning.",
         inputSchema: {
           url: z.string().trim().min(1).describe(
             "Public http(s) URL or bare domain to inspect. Bare domains are normalized to https:// automatically.",
           ),
+          timeout_ms: timeoutMsSchema,
         },
         outputSchema: {
           inputUrl: z.string().optional().describe(
@@ -2286,13 +7960,13 @@ export class GroundTruthMCP extends McpAgent<Env> {
             "HTTP status code returned by the endpoint.",
           ),
           https: z.boolean().describe(
-            "True when the normalized URL used https.",
+            "True when the normalized URL used https. This reflects the URL scheme only; use inspect_tls for HTTP-to-HTTPS redirects, HSTS preload eligibility, and mixed content.",
           ),
           presentCount: z.number().int().nonnegative().optional().describe(
             "Number of tracked security headers that were present.",
           ),
           score: z.enum(["strong", "moderate", "weak"]).optional().describe(
-            "Heuristic security-header score based on how many tracked headers were present.",
+            "Heuristic grade from the weighted findings: strong means no high-severity finding and at most 3 risk points, moderate means at most 8 risk points, weak otherwise.",
           ),
           headers: z.object({
             strictTransportSecurity: z.string().nullable(),
@@ -2309,13 +7983,54 @@ export class GroundTruthMCP extends McpAgent<Env> {
           missingRecommended: z.array(z.string()).optional().describe(
             "Tracked headers that were not present on the response.",
           ),
+          findings: z.array(z.object({
+            header: z.string().describe(
+              "Tracked header key, such as contentSecurityPolicy, or the raw name of a leaky header such as x-powered-by.",
+            ),
+            severity: z.enum(["high", "medium", "low", "info"]).describe(
+              "How much the finding weakens the page's browser-facing protection.",
+            ),
+            issue: z.string().describe("What is wrong with the header value, or what is missing."),
+            remediation: z.string().describe("Short fix to apply."),
+          })).optional().describe(
+            "Graded problems found in header values, missing headers, and deprecated or version-leaking headers.",
+          ),
+          riskPoints: z.number().int().nonnegative().optional().describe(
+            "Sum of finding weights (high 3, medium 2, low 1, info 0) used to derive score.",
+          ),
+          cookies: z.array(z.object({
+            name: z.string().describe("Cookie name."),
+            value: z.string().describe("Always [REDACTED] for non-empty values; cookie values are never returned."),
+            secure: z.boolean().describe("True when the Secure attribute is set."),
+            httpOnly: z.boolean().describe("True when the HttpOnly attribute is set."),
+            sameSite: z.string().nullable().describe("SameSite attribute value (Strict, Lax, or None), or null when absent."),
+            domain: z.string().nullable().describe("Domain attribute, or null for a host-only cookie."),
+            path: z.string().nullable().describe("Path attribute, if set."),
+            expires: z.string().nullable().describe("Expires attribute as an ISO timestamp, if set and parseable."),
+            maxAge: z.number().int().nullable().describe("Max-Age attribute in seconds, if set."),
+            persistent: z.boolean().describe("True when Expires or Max-Age is set; false for browser-session cookies."),
+            looksLikeSession: z.boolean().describe(
+              "True when the name suggests authentication state, such as session, sid, auth, or token.",
+            ),
+            findings: z.array(z.object({
+              severity: z.enum(["high", "medium", "low", "info"]),
+              issue: z.string(),
+              remediation: z.string(),
+            })).describe(
+              "Unsafe attribute combinations for this cookie. Empty when none were found.",
+            ),
+          })).optional().describe(
+            "Every cookie the final response set, with values redacted. Cookies set on redirect hops are not included.",
+          ),
+          timing: fetchTimingSchema.optional(),
           error: z.string().optional().describe(
             "Validation or network error when the request could not be completed.",
           ),
+          errorCode: outboundErrorCodeSchema.optional(),
         },
         annotations: readOnlyNetworkToolAnnotations,
       },
-      async ({ url }) => {
+      async ({ url, timeout_ms }) => {
         const normalizedUrl = normalizeHttpUrlInput(url);
         if (!normalizedUrl) {
           logUsage("inspect_security_headers", false);
@@ -2328,9 +8043,9 @@ export class GroundTruthMCP extends McpAgent<Env> {
         }
 
         try {
-          const resp = await fetch(normalizedUrl, {
+          const { response: resp, timing } = await timedFetch(normalizedUrl, {
             headers: { "User-Agent": "GroundTruth/0.3" },
-          });
+          }, { timeoutMs: timeout_ms });
           const summary = getSecurityHeaderSummary(resp.headers);
           logUsage("inspect_security_headers", true);
           return structuredToolResult({
@@ -2340,6 +8055,7 @@ export class GroundTruthMCP extends McpAgent<Env> {
             status: resp.status,
             https: new URL(normalizedUrl).protocol === "https:",
             ...summary,
+            timing,
           });
         } catch (error: unknown) {
           logUsage("inspect_security_headers", false);
@@ -2348,9 +8064,290 @@ export class GroundTruthMCP extends McpAgent<Env> {
             url: normalizedUrl,
             accessible: false,
             https: new URL(normalizedUrl).protocol === "https:",
-            error: error instanceof Error ? error.message : String(error),
+            ...describeOutboundError(error),
+          });
+        }
+      },
+    );
+
+    // ───────────────────────────────────────────────
+    // FREE: inspect_tls
+    // ───────────────────────────────────────────────
+    this.server.registerTool(
+      "inspect_tls",
+      {
+        title: "HTTPS Posture Inspection",
+        description:
+          "Check how a public site enforces HTTPS before you claim it meets a vendor " +
+          "due-diligence baseline. It requests the http:// variant to see whether it " +
+          "redirects to HTTPS, fetches the https:// variant, parses " +
+          "Strict-Transport-Security for HSTS preload eligibility, and lists http:// " +
+          "subresources referenced from the HTML (mixed content). A successful HTTPS " +
+          "fetch means the runtime accepted the certificate chain, but the Workers " +
+          "runtime does not expose issuer, subject, or expiry details. Mixed-content " +
+          "detection reads static HTML only and does not execute JavaScript.",
+        inputSchema: {
+          url: z.string().trim().min(1).describe(
+            "Public URL or bare domain to inspect. Both the http:// and https:// variants of the same host and path are requested.",
+          ),
+          timeout_ms: timeoutMsSchema.describe(
+            `Timeout in milliseconds for each of the two requests, covering redirects and the full body. Defaults to ${DEFAULT_FETCH_TIMEOUT_MS} and is capped at ${MAX_FETCH_TIMEOUT_MS}.`,
+          ),
+        },
+        outputSchema: {
+          inputUrl: z.string().optional().describe(
+            "Original user input when normalization changed it.",
+          ),
+          url: z.string().describe(
+            "https:// URL that was inspected.",
+          ),
+          httpsAvailable: z.boolean().describe(
+            "True when the https:// URL returned an HTTP response.",
+          ),
+          status: z.number().int().optional().describe(
+            "HTTP status code of the https:// response.",
+          ),
+          httpRedirect: z.object({
+            url: z.string().describe("http:// URL that was requested."),
+            status: z.number().int().optional().describe("HTTP status of the first response to the http:// request."),
+            redirectsToHttps: z.boolean().describe(
+              "True when the http:// request ended on an https:// URL after following redirects.",
+            ),
+            sameHostFirstHop: z.boolean().describe(
+              "True when the first redirect goes straight to https:// on the same host, as HSTS preload requires.",
+            ),
+            finalUrl: z.string().optional().describe("URL where the http:// redirect chain ended."),
+            error: z.string().optional().describe("Network error when the http:// variant could not be fetched."),
+            errorCode: outboundErrorCodeSchema.optional(),
+          }).describe(
+            "How the plain-HTTP variant of the URL behaves.",
+          ),
+          hsts: z.object({
+            present: z.boolean().describe("True when the https:// response sent Strict-Transport-Security."),
+            raw: z.string().nullable().describe("Raw Strict-Transport-Security header value."),
+            valid: z.boolean().describe("True when the header has exactly one numeric max-age and no duplicate directives."),
+            maxAge: z.number().int().nonnegative().nullable().describe("Parsed max-age in seconds."),
+            includeSubDomains: z.boolean().describe("True when the includeSubDomains directive is present."),
+            preload: z.boolean().describe("True when the preload directive is present."),
+            preloadEligible: z.boolean().describe(
+              "True when the site meets the hstspreload.org submission requirements checked here.",
+            ),
+            preloadIssues: z.array(z.string()).describe(
+              "Requirements that are not met. Empty when preloadEligible is true.",
+            ),
+          }).optional().describe(
+            "Parsed HSTS policy and preload eligibility. Only returned when the https:// URL responded.",
+          ),
+          mixedContent: z.object({
+            activeCount: z.number().int().nonnegative().describe(
+              "Distinct http:// URLs loaded by scripts, stylesheets, preloads, frames, embeds, or objects. Browsers block these.",
+            ),
+            passiveCount: z.number().int().nonnegative().describe(
+              "Distinct http:// URLs loaded by images, icons, audio, video, or tracks. Browsers may upgrade or warn on these.",
+            ),
+            active: z.array(z.string()).describe("Up to 20 active mixed-content URLs."),
+            passive: z.array(z.string()).describe("Up to 20 passive mixed-content URLs."),
+          }).optional().describe(
+            "http:// subresources referenced from the https:// HTML body. Only returned when the https:// URL responded.",
+          ),
+          insecureForms: z.object({
+            count: z.number().int().nonnegative().describe("Distinct http:// form actions."),
+            actions: z.array(z.string()).describe("Up to 20 http:// form actions."),
+          }).optional().describe(
+            "Forms on the https:// page that submit to http://, sending their data unencrypted. Only returned when the https:// URL responded.",
+          ),
+          certificate: z.object({
+            validatedByRuntime: z.boolean().describe(
+              "True when the https:// fetch succeeded, which means the runtime accepted the certificate chain and hostname.",
+            ),
+            detailsAvailable: z.boolean().describe(
+              "False on this runtime: issuer, subject, and expiry are not exposed to outbound fetches.",
+            ),
+          }).describe(
+            "What can be said about the server certificate.",
+          ),
+          timing: fetchTimingSchema.optional(),
+          error: z.string().optional().describe(
+            "Validation or network error when the https:// variant could not be fetched.",
+          ),
+          errorCode: outboundErrorCodeSchema.optional(),
+        },
+        annotations: readOnlyNetworkToolAnnotations,
+      },
+      async ({ url, timeout_ms }) => {
+        const normalizedUrl = normalizeHttpUrlInput(url);
+        if (!normalizedUrl) {
+          logUsage("inspect_tls", false);
+          return structuredToolResult({
+            url,
+            httpsAvailable: false,
+            httpRedirect: { url, redirectsToHttps: false, sameHostFirstHop: false },
+            certificate: { validatedByRuntime: false, detailsAvailable: false },
+            error: "Invalid URL. Use a public http(s) URL or a bare domain like google.com.",
+          });
+        }
+
+        const httpsUrl = new URL(normalizedUrl);
+        httpsUrl.protocol = "https:";
+        const httpUrl = new URL(normalizedUrl);
+        httpUrl.protocol = "http:";
+        const requestInit = { headers: { "User-Agent": "GroundTruth/0.4" } };
+
+        const hops: RedirectHop[] = [];
+        let httpRedirect: {
+          url: string;
+          status?: number;
+          redirectsToHttps: boolean;
+          sameHostFirstHop: boolean;
+          finalUrl?: string;
+          error?: string;
+          errorCode?: OutboundRequestErrorCode;
+        };
+        try {
+          await timedFetch(httpUrl.toString(), requestInit, { timeoutMs: timeout_ms, hops });
+          const firstHop = hops[0];
+          const firstLocation = firstHop?.location ? new URL(firstHop.location, firstHop.url) : null;
+          const finalUrl = hops[hops.length - 1]?.url ?? httpUrl.toString();
+          httpRedirect = {
+            url: httpUrl.toString(),
+            status: firstHop?.status,
+            redirectsToHttps: new URL(finalUrl).protocol === "https:",
+            sameHostFirstHop: firstLocation?.protocol === "https:" && firstLocation.hostname === httpUrl.hostname,
+            finalUrl,
+          };
+        } catch (e: unknown) {
+          httpRedirect = {
+            url: httpUrl.toString(),
+            redirectsToHttps: false,
+            sameHostFirstHop: false,
+            ...describeOutboundError(e),
+          };
+        }
+
+        try {
+          const { response: resp, body, timing } = await timedFetch(httpsUrl.toString(), requestInit, {
+            timeoutMs: timeout_ms,
+          });
+          const hsts = parseStrictTransportSecurity(resp.headers.get("strict-transport-security"));
+          const preloadIssues = getHstsPreloadIssues(httpsUrl.hostname, hsts, httpRedirect);
+          logUsage("inspect_tls", true);
+          return structuredToolResult({
+            ...(normalizedUrl !== url ? { inputUrl: url } : {}),
+            url: httpsUrl.toString(),
+            httpsAvailable: true,
+            status: resp.status,
+            httpRedirect,
+            hsts: { ...hsts, preloadEligible: preloadIssues.length === 0, preloadIssues },
+            mixedContent: findMixedContent(body),
+            insecureForms: findInsecureFormActions(body),
+            certificate: { validatedByRuntime: true, detailsAvailable: false },
+            timing,
+          });
+        } catch (e: unknown) {
+          logUsage("inspect_tls", false);
+          return structuredToolResult({
+            ...(normalizedUrl !== url ? { inputUrl: url } : {}),
+            url: httpsUrl.toString(),
+            httpsAvailable: false,
+            httpRedirect,
+            certificate: { validatedByRuntime: false, detailsAvailable: false },
+            ...describeOutboundError(e),
+          });
+        }
+      },
+    );
+
+    // ───────────────────────────────────────────────
+    // FREE: inspect_well_known
+    // ───────────────────────────────────────────────
+    const wellKnownFileSchema = z.object({
+      url: z.string().describe("URL that was requested."),
+      present: z.boolean().describe(
+        "True when the URL returned 200 with content in the expected format. A 200 HTML page served for any path is not counted.",
+      ),
+      status: z.number().int().optional().describe("HTTP status of the final response."),
+      contentType: z.string().nullable().optional().describe("Content-Type of the response."),
+      bytes: z.number().int().nonnegative().optional().describe("Response body size in bytes."),
+      error: z.string().optional().describe("Network error when the file could not be requested."),
+      errorCode: outboundErrorCodeSchema.optional(),
+    });
+
+    this.server.registerTool(
+      "inspect_well_known",
+      {
+        title: "Well-Known File Discovery",
+        description:
+          "Check a domain's security.txt and other well-known files before you tell someone " +
+          "how to report a vulnerability or what a vendor publishes for agents. It fetches " +
+          "/.well-known/security.txt (falling back to the legacy /security.txt) and parses it " +
+          "per RFC 9116: Contact, Expires, Encryption, Policy, Preferred-Languages, Canonical, " +
+          "Acknowledgments, Hiring, and whether it carries an OpenPGP signature. Expired, " +
+          "unsigned, or malformed files are flagged with specific errors and warnings. It also " +
+          "reports whether /.well-known/mcp/server-card.json, /.well-known/openid-configuration, " +
+          "/robots.txt, /llms.txt, and /sitemap.xml are present. Signatures are detected, not verified.",
+        inputSchema: {
+          url: z.string().trim().min(1).describe(
+            "Domain or any URL on the site, such as example.com. Only the origin is used.",
+          ),
+          timeout_ms: timeoutMsSchema.describe(
+            `Timeout in milliseconds for each request. The files are requested in parallel. Defaults to ${DEFAULT_FETCH_TIMEOUT_MS} and is capped at ${MAX_FETCH_TIMEOUT_MS}.`,
+          ),
+        },
+        outputSchema: {
+          inputUrl: z.string().optional().describe(
+            "Original user input when normalization changed it.",
+          ),
+          origin: z.string().describe("Origin the files were requested from."),
+          securityTxt: z.object({
+            found: z.boolean().describe("True when a plain-text security.txt was returned at either location."),
+            url: z.string().describe("Where the file was found, or the /.well-known/ URL when it was not."),
+            status: z.number().int().optional().describe("HTTP status of the response."),
+            valid: z.boolean().optional().describe("True when no RFC 9116 requirement checked here is violated."),
+            expired: z.boolean().nullable().optional().describe("True when Expires is in the past. Null when Expires is missing or unparseable."),
+            signed: z.boolean().optional().describe("True when the file is wrapped in an OpenPGP cleartext signature. The signature is not verified."),
+            contact: z.array(z.string()).optional().describe("Contact URIs, in preference order."),
+            expires: z.string().nullable().optional().describe("Raw Expires value."),
+            encryption: z.array(z.string()).optional().describe("Encryption key URIs."),
+            policy: z.array(z.string()).optional().describe("Disclosure policy URIs."),
+            preferredLanguages: z.array(z.string()).optional().describe("Language tags from Preferred-Languages."),
+            acknowledgments: z.array(z.string()).optional().describe("Acknowledgments page URIs."),
+            canonical: z.array(z.string()).optional().describe("Canonical URIs for the file."),
+            hiring: z.array(z.string()).optional().describe("Security job posting URIs."),
+            errors: z.array(z.string()).optional().describe("RFC 9116 violations, such as a missing Contact or an expired file."),
+            warnings: z.array(z.string()).optional().describe("Recommendations that are not met, such as a missing signature."),
+            error: z.string().optional().describe("Network error when the file could not be requested."),
+            errorCode: outboundErrorCodeSchema.optional(),
+          }).optional().describe("Parsed security.txt."),
+          files: z.object({
+            mcpServerCard: wellKnownFileSchema.describe("/.well-known/mcp/server-card.json, present when it is a JSON object."),
+            openidConfiguration: wellKnownFileSchema.describe("/.well-known/openid-configuration, present when it is JSON with an issuer."),
+            robotsTxt: wellKnownFileSchema.describe("/robots.txt, present when it is not HTML."),
+            llmsTxt: wellKnownFileSchema.describe("/llms.txt, present when it is not HTML."),
+            sitemapXml: wellKnownFileSchema.describe("/sitemap.xml, present when it holds a urlset or sitemapindex."),
+          }).optional().describe("Presence of other well-known files."),
+          error: z.string().optional().describe("Validation error when the input is not a usable URL or domain."),
+        },
+        annotations: readOnlyNetworkToolAnnotations,
+      },
+      async ({ url, timeout_ms }) => {
+        const normalizedUrl = normalizeHttpUrlInput(url);
+        if (!normalizedUrl) {
+          logUsage("inspect_well_known", false);
+          return structuredToolResult({
+            origin: url,
+            error: "Invalid URL. Use a public http(s) URL or a bare domain like google.com.",
           });
         }
+
+        const origin = new URL(normalizedUrl).origin;
+        const { securityTxt, files } = await inspectWellKnownFiles(origin, timeout_ms);
+        logUsage("inspect_well_known", true);
+        return structuredToolResult({
+          ...(normalizedUrl !== url ? { inputUrl: url } : {}),
+          origin,
+          securityTxt,
+          files,
+        });
       },
     );
 
@@ -2382,17 +8379,91 @@ export class GroundTruthMCP extends McpAgent<Env> {
             "Current server version.",
           ),
         },
-        annotations: readOnlyNetworkToolAnnotations,
+        annotations: readOnlyNetworkToolAnnotations,
+      },
+      async () => {
+        logUsage("list_resources", true);
+        return structuredToolResult({
+          freeTools: FREE_TOOLS,
+          paidTools: PAID_TOOLS,
+          monitorTools: MONITOR_TOOLS,
+          serverVersion: SERVER_VERSION,
+        });
+      }
+    );
+
+    // ───────────────────────────────────────────────
+    // FREE: verify_receipt
+    // ───────────────────────────────────────────────
+    this.server.registerTool(
+      "verify_receipt",
+      {
+        title: "Receipt Verification",
+        description:
+          "Check a receipt returned by a paid tool called with receipt: true. Verifies the Ed25519 signature " +
+          "against this server's key and, when the original result is supplied, that it still hashes to the " +
+          `receipt's outputDigest. The same check can be done offline with the public key at ${RECEIPT_KEYS_PATH}.`,
+        inputSchema: {
+          receipt: z.object({
+            algorithm: z.string().optional(),
+            payload: z.record(z.string(), z.unknown()),
+            signature: z.string(),
+          }).describe("The receipt object exactly as the paid tool returned it."),
+          result: z.record(z.string(), z.unknown()).optional().describe(
+            "The tool result the receipt came with. Every field except receipt and receiptError is hashed.",
+          ),
+        },
+        outputSchema: {
+          valid: z.boolean().describe(
+            "True when the signature is valid, it was made with this server's key, and the result, if supplied, matches outputDigest.",
+          ),
+          signatureValid: z.boolean(),
+          keyKnown: z.boolean().describe("True when the receipt's keyId is this server's current receipt key."),
+          outputDigestMatches: z.boolean().nullable().describe("Whether the supplied result matches outputDigest, or null when no result was supplied."),
+          keyId: z.string().nullable(),
+          tool: z.string().nullable(),
+          issuedAt: z.string().nullable(),
+          serverVersion: z.string().nullable(),
+          error: z.string().optional(),
+        },
+        annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+      },
+      async ({ receipt, result }) => {
+        const payload = receipt.payload;
+        const claimed = {
+          keyId: typeof payload.keyId === "string" ? payload.keyId : null,
+          tool: typeof payload.tool === "string" ? payload.tool : null,
+          issuedAt: typeof payload.issuedAt === "string" ? payload.issuedAt : null,
+          serverVersion: typeof payload.serverVersion === "string" ? payload.serverVersion : null,
+        };
+        const invalid = { valid: false, signatureValid: false, keyKnown: false, outputDigestMatches: null, ...claimed };
+        if (receipt.algorithm !== undefined && receipt.algorithm !== RECEIPT_ALGORITHM) {
+          logUsage("verify_receipt", true);
+          return structuredToolResult({ ...invalid, error: `unsupported_algorithm: receipts are signed with ${RECEIPT_ALGORITHM}` });
+        }
+        const keyPromise = getReceiptSigningKey(this.env);
+        if (!keyPromise) {
+          logUsage("verify_receipt", false);
+          return structuredToolResult({ ...invalid, error: "receipts_unavailable: this server has no receipt signing key configured" });
+        }
+        try {
+          const key = await keyPromise;
+          const signatureValid = await verifyReceiptSignature(key, payload, receipt.signature);
+          const keyKnown = claimed.keyId === key.keyId;
+          const outputDigestMatches = result ? await getReceiptOutputDigest(result) === payload.outputDigest : null;
+          logUsage("verify_receipt", true);
+          return structuredToolResult({
+            valid: signatureValid && keyKnown && outputDigestMatches !== false,
+            signatureValid,
+            keyKnown,
+            outputDigestMatches,
+            ...claimed,
+          });
+        } catch (e) {
+          logUsage("verify_receipt", false);
+          return structuredToolResult({ ...invalid, error: e instanceof Error ? e.message : String(e) });
+        }
       },
-      async () => {
-        logUsage("list_resources", true);
-        return structuredToolResult({
-          freeTools: FREE_TOOLS,
-          paidTools: PAID_TOOLS,
-          monitorTools: MONITOR_TOOLS,
-          serverVersion: SERVER_VERSION,
-        });
-      }
     );
 
     // ───────────────────────────────────────────────
@@ -2406,8 +8477,9 @@ export class GroundTruthMCP extends McpAgent<Env> {
           "Compare two to five public pricing pages side by side before you make " +
           "competitive pricing or packaging claims. Use this when you want a quick, " +
           "live comparison of visible prices, free-plan signals, and plan-name hints " +
-          "across vendors. The output is heuristic and page-level: it does not map " +
-          "every price to every plan or normalize regional billing differences.",
+          "across vendors. Each page includes structured plans linked to their prices " +
+          "where cards or tables could be read. The output is heuristic: plans rendered " +
+          "by JavaScript are missed, and regional billing differences are not normalized.",
         inputSchema: {
           pages: z.array(z.object({
             name: z.string().trim().min(1).describe(
@@ -2419,6 +8491,8 @@ export class GroundTruthMCP extends McpAgent<Env> {
           })).min(2).max(5).describe(
             "Two to five named pricing pages to compare side by side.",
           ),
+          exchange_rates: exchangeRatesSchema,
+          timeout_ms: timeoutMsSchema,
         },
         outputSchema: {
           pages: z.array(z.object({
@@ -2432,11 +8506,18 @@ export class GroundTruthMCP extends McpAgent<Env> {
               "True when this page body came from the 5-minute cache.",
             ),
             pricesFound: z.array(z.string()).optional().describe(
-              "Distinct price-like strings extracted from this page. These are page-level hints and are not mapped to specific plans.",
+              "Distinct price-like strings extracted from this page. Kept for backward compatibility; use plans for prices linked to a plan.",
             ),
+            prices: pricesSchema.optional(),
             plansDetected: z.array(z.string()).optional().describe(
               "Lowercased heuristic plan labels detected on this page, such as free, pro, team, or enterprise.",
             ),
+            plans: pricingPlansSchema.optional(),
+            billing: billingSchema.optional(),
+            structuredOffers: structuredOffersSchema.optional(),
+            contactSalesPlans: contactSalesPlansSchema.optional(),
+            usagePricing: usagePricingSchema.optional(),
+            volumeTiers: volumeTiersSchema.optional(),
             hasFreeOption: z.boolean().optional().describe(
               "True when this page contains visible text suggesting a free plan, free tier, or $0 option.",
             ),
@@ -2446,9 +8527,11 @@ export class GroundTruthMCP extends McpAgent<Env> {
             pageLength: z.number().int().nonnegative().optional().describe(
               "Size of this fetched page body in characters.",
             ),
+            timing: fetchTimingSchema.optional(),
             error: z.string().optional().describe(
               "Fetch or parsing error for this specific pricing page when it could not be analyzed.",
             ),
+            errorCode: outboundErrorCodeSchema.optional(),
           })).describe(
             "Per-page pricing signals returned in input order.",
           ),
@@ -2465,6 +8548,9 @@ export class GroundTruthMCP extends McpAgent<Env> {
             pagesWithFreeTrial: z.number().int().nonnegative().describe(
               "Number of pages with page-level text suggesting a free trial.",
             ),
+            pagesWithStructuredPlans: z.number().int().nonnegative().describe(
+              "Number of pages where at least one plan could be linked to its price.",
+            ),
           }).describe(
             "Aggregate counts across all compared pricing pages.",
           ),
@@ -2472,12 +8558,12 @@ export class GroundTruthMCP extends McpAgent<Env> {
         annotations: readOnlyNetworkToolAnnotations,
         ...getPaidToolMetadata("compare_pricing_pages"),
       },
-      async ({ pages }) => {
+      async ({ pages, exchange_rates, timeout_ms }) => {
         const results = [];
 
         for (const page of pages) {
           try {
-            const analysis = await analyzePricingPage(sql, page.url);
+            const analysis = await analyzePricingPage(sql, page.url, timeout_ms, exchange_rates);
             results.push({
               name: page.name,
               ...analysis,
@@ -2486,7 +8572,7 @@ export class GroundTruthMCP extends McpAgent<Env> {
             results.push({
               name: page.name,
               url: page.url,
-              error: error instanceof Error ? error.message : String(error),
+              ...describeOutboundError(error),
             });
           }
         }
@@ -2505,6 +8591,9 @@ export class GroundTruthMCP extends McpAgent<Env> {
             pagesWithFreeTrial: results.filter(
               (page) => "hasFreeTrial" in page && page.hasFreeTrial === true,
             ).length,
+            pagesWithStructuredPlans: results.filter(
+              (page) => "plans" in page && Array.isArray(page.plans) && page.plans.length > 0,
+            ).length,
           },
         });
       },
@@ -2646,12 +8735,20 @@ export class GroundTruthMCP extends McpAgent<Env> {
         title: "Claim Support Check",
         description:
           "Check whether a factual claim is supported by a specific set of public " +
-          "evidence URLs that you already have. For each source, the tool performs a " +
-          "case-insensitive keyword match over the fetched page body, then marks that " +
-          "source as supporting the claim when at least half of the supplied keywords " +
-          "appear. Use this for evidence-backed claim checks on known pages, not for " +
-          "open-ended search, semantic reasoning, or contradiction extraction. The " +
-          "aggregate verdict is driven only by the per-page keyword support ratio. " +
+          "evidence URLs that you already have. For each source, the page text is split " +
+          "into sentences and each sentence is scored on how many of the keywords it contains, " +
+          "with numbers counting double, and how close together they are. When keywords are " +
+          "omitted they are derived from the claim: numbers with units, named entities, and " +
+          "key phrases, reported in keywordsUsed. Sentences with negation (\"no longer\", " +
+          "\"does not\") or hedging (\"coming soon\", \"beta\") are flagged and cannot support " +
+          "the claim. A source supports the claim when its best affirmative passage contains " +
+          "at least half of the keywords, or when its JSON-LD, microdata, or OpenGraph meta " +
+          "does, which counts as stronger evidence. A source contradicts the claim only when " +
+          "its top passage states the opposite or gives different numbers next to the claim's " +
+          "keywords; pages that do not address the claim are irrelevant and failed fetches " +
+          "unreachable, and neither counts against it. The top passages are returned per source. " +
+          "Use this for evidence-backed claim checks on known pages, not for " +
+          "open-ended search or semantic reasoning. " +
           "Fetched pages are cached for 5 minutes.",
         inputSchema: {
           claim: z.string().trim().min(5).describe(
@@ -2660,14 +8757,32 @@ export class GroundTruthMCP extends McpAgent<Env> {
           evidence_urls: z.array(z.string().url()).min(1).max(10).describe(
             "One to ten public documentation, pricing, policy, or support URLs that are likely to contain direct evidence for the claim.",
           ),
-          keywords: z.array(z.string().trim().min(1)).min(1).max(20).describe(
-            "Keywords or short phrases that should appear on supporting pages. Matching is case-insensitive substring matching, so choose phrases that are likely to appear verbatim.",
+          keywords: z.array(z.string().trim().min(1)).min(1).max(20).optional().describe(
+            "Keywords or short phrases that should appear on supporting pages. Matching is case-insensitive substring matching, so choose phrases that are likely to appear verbatim. " +
+            "Omit to derive numbers, named entities, and key phrases from the claim, which avoids biasing the check toward the claim's exact wording.",
           ),
+          timeout_ms: timeoutMsSchema,
+          archive_evidence: archiveEvidenceSchema,
         },
         outputSchema: {
           claim: z.string().describe(
             "Claim that was evaluated.",
           ),
+          keywordSource: z.enum(["supplied", "derived"]).describe(
+            "supplied when the caller passed keywords, derived when they were extracted from the claim.",
+          ),
+          keywordsUsed: z.array(z.object({
+            term: z.string().describe("Text matched case-insensitively against page text and structured data."),
+            kind: z.enum(["number", "entity", "phrase", "term"]).describe(
+              "number for numeric facts, entity for capitalized names, phrase or term for other content words. Supplied keywords are number or term.",
+            ),
+            weight: z.number().positive().describe(
+              `Weight in passage and structured-data coverage; numbers count ${CLAIM_NUMBER_KEYWORD_WEIGHT}, everything else 1.`,
+            ),
+            unit: z.string().describe("Unit that followed a derived number in the claim, such as per month or gb.").optional(),
+          })).describe(
+            "Keywords the sources were checked against.",
+          ),
           sources: z.array(z.object({
             url: z.string().describe(
               "Evidence URL that was checked.",
@@ -2679,20 +8794,64 @@ export class GroundTruthMCP extends McpAgent<Env> {
               "True when the page body came from the 5-minute cache.",
             ).optional(),
             keywordsMatched: z.array(z.string()).describe(
-              "Subset of supplied keywords that were found on the page.",
+              "Subset of keywords that were found on the page.",
             ).optional(),
             keywordsTotal: z.number().int().nonnegative().describe(
               "Total number of keywords the tool looked for on this page.",
             ).optional(),
+            structuredKeywordsMatched: z.array(z.string()).describe(
+              "Subset of keywords found in the page's JSON-LD, microdata, or OpenGraph/Twitter meta.",
+            ).optional(),
+            structuredFacts: z.array(z.object({
+              type: z.string().describe("Schema.org type or meta family, such as Offer, FAQPage, or OpenGraph."),
+              property: z.string().describe("Property the value came from, such as price or og:title."),
+              value: z.string().describe("Fact text that matched a keyword."),
+            })).describe(
+              "Structured-data facts that matched at least one keyword, up to 10.",
+            ).optional(),
             matchRatio: z.number().min(0).max(1).describe(
-              "Matched-keyword ratio for this source, from 0 to 1.",
+              "Share of keywords found anywhere on the page, from 0 to 1. Informational; support is decided per passage.",
+            ).optional(),
+            passages: z.array(z.object({
+              text: z.string().describe("Sentence from the page text, up to 500 characters."),
+              score: z.number().min(0).max(1).describe(
+                "Weighted share of keywords in the sentence, reduced by up to a fifth when they are spread over more than 120 characters.",
+              ),
+              keywordsMatched: z.array(z.string()).describe("Keywords found in the sentence."),
+              negated: z.boolean().describe("True when negation such as not, no longer, or discontinued applies to a matched keyword."),
+              hedged: z.boolean().describe("True when a hedge such as coming soon, beta, planned, or may applies to a matched keyword."),
+            })).describe(
+              "Up to 3 best-scoring sentences, affirmative ones first at equal score.",
             ).optional(),
+            bestPassageScore: z.number().min(0).max(1).describe(
+              "Score of the best unhedged sentence whose polarity matches the claim, or 0.",
+            ).optional(),
+            stance: z.enum(["supporting", "contradicting", "irrelevant", "unreachable"]).describe(
+              "supporting when the source backs the claim; contradicting only when a strong passage states the opposite or gives different numbers next to the claim's keywords; " +
+              "irrelevant when the page was read but does not settle the claim; unreachable when it could not be fetched or returned a non-2xx status.",
+            ),
             supports: z.boolean().describe(
-              "True when the page met the current support threshold of at least half of the supplied keywords.",
+              `True when stance is supporting: the best passage matching the claim's polarity scores at least ${CLAIM_PASSAGE_SUPPORT_THRESHOLD}, matches at least two keywords, is not outscored by an opposing or hedged passage, and states no conflicting numbers; or structured data covers at least half of the keyword weight.`,
             ),
+            supportBasis: z.enum(["structured_data", "page_text"]).nullable().describe(
+              "structured_data when the page's own structured data covers at least half of the keyword weight, page_text when only a page-text passage is strong enough, null when the source does not support the claim.",
+            ).optional(),
+            contradiction: z.object({
+              kind: z.enum(["opposing_passage", "conflicting_number"]).describe(
+                "opposing_passage when the top passage states the opposite of the claim, conflicting_number when a passage covering the claim's wording gives different numbers.",
+              ),
+              passage: z.string().describe("Sentence that conflicts with the claim."),
+              claimNumbers: z.array(z.string()).describe("Numbers found in the claim, empty for opposing_passage."),
+              pageNumbers: z.array(z.string()).describe("Numbers next to the claim's keywords in the passage, empty for opposing_passage."),
+            }).nullable().describe(
+              "Evidence behind a contradicting stance, null otherwise.",
+            ).optional(),
+            timing: fetchTimingSchema.optional(),
+            evidenceId: evidenceIdSchema.optional(),
             error: z.string().describe(
               "Fetch error when the evidence page could not be checked.",
             ).optional(),
+            errorCode: outboundErrorCodeSchema.optional(),
           })).describe(
             "Per-source evidence results.",
           ),
@@ -2700,64 +8859,292 @@ export class GroundTruthMCP extends McpAgent<Env> {
             supporting: z.number().int().nonnegative().describe(
               "Number of sources marked as supporting the claim.",
             ),
+            structuredSupporting: z.number().int().nonnegative().describe(
+              "Number of supporting sources backed by structured data rather than page text alone.",
+            ),
             contradicting: z.number().int().nonnegative().describe(
-              "Number of sources not marked as supporting the claim.",
+              "Number of sources with evidence that actively conflicts with the claim.",
+            ),
+            irrelevant: z.number().int().nonnegative().describe(
+              "Number of sources that were read but neither support nor contradict the claim.",
+            ),
+            unreachable: z.number().int().nonnegative().describe(
+              "Number of sources that could not be fetched or returned a non-2xx status.",
             ),
             total: z.number().int().nonnegative().describe(
               "Total number of evidence sources checked.",
             ),
             confidence: z.number().min(0).max(1).describe(
-              "Share of sources that supported the claim.",
+              `Weighted share of support among sources that supported or contradicted the claim, with sources supported only by page text counting ${PAGE_TEXT_SUPPORT_WEIGHT}. 0 when no source addressed the claim; irrelevant and unreachable sources do not lower it.`,
             ),
             summary: z.enum(["CONFIRMED", "UNCONFIRMED", "LIKELY TRUE", "LIKELY FALSE"]).describe(
-              "High-level verdict derived from the supporting-source ratio: all sources supporting => CONFIRMED, none => UNCONFIRMED, majority => LIKELY TRUE, otherwise LIKELY FALSE.",
+              "Verdict derived from source stances: no supporting or contradicting source => UNCONFIRMED, support with no contradiction => CONFIRMED, more supporting than contradicting => LIKELY TRUE, otherwise LIKELY FALSE.",
             ),
           }).describe(
             "Aggregate verdict across all supplied sources.",
           ),
+          evidenceError: evidenceErrorSchema.optional(),
         },
         annotations: readOnlyNetworkToolAnnotations,
         ...getPaidToolMetadata("verify_claim"),
       },
-      async ({ claim, evidence_urls, keywords }) => {
+      async ({ claim, evidence_urls, keywords, timeout_ms, archive_evidence }, extra) => {
+        const { archive, evidenceError } = archive_evidence ? await openEvidenceArchive(extra, "verify_claim") : {};
+        const keywordSource = keywords?.length ? "supplied" as const : "derived" as const;
+        const claimKeywords = keywords?.length ? keywords.map(toClaimKeyword) : deriveClaimKeywords(claim);
+        const terms = claimKeywords.map((keyword) => keyword.term);
         const sources = [];
         for (const url of evidence_urls) {
           try {
-            const { body, fromCache } = await cachedFetch(sql, url);
+            const page = await cachedFetch(sql, url, timeout_ms);
+            const { body, fromCache, ok, timing } = page;
+            const evidenceId = archive ? await archive(url, page) : null;
+            if (!ok) {
+              sources.push({
+                url,
+                accessible: true,
+                cached: fromCache,
+                stance: "unreachable" as const,
+                supports: false,
+                supportBasis: null,
+                contradiction: null,
+                error: "Evidence page returned a non-2xx status, so its text was not evaluated.",
+                ...(timing ? { timing } : {}),
+                ...(evidenceId ? { evidenceId } : {}),
+              });
+              continue;
+            }
             const bodyLower = body.toLowerCase();
-            const keywordHits = keywords.filter((kw: string) => bodyLower.includes(kw.toLowerCase()));
+            const facts = structuredDataFacts(extractStructuredData(body));
+            const factMatches = (kw: string) => facts.filter((fact) => fact.value.toLowerCase().includes(kw.toLowerCase()));
+            const structuredHits = terms.filter((kw) => factMatches(kw).length > 0);
+            const keywordHits = terms.filter((kw) => bodyLower.includes(kw.toLowerCase()) || structuredHits.includes(kw));
+            const { passages, bestPassageScore, stance, contradiction } = findClaimPassages(body, claimKeywords, claim);
+            const structuredCoverage = sumClaimKeywordWeights(claimKeywords.filter((keyword) => structuredHits.includes(keyword.term)))
+              / sumClaimKeywordWeights(claimKeywords);
+            const supportBasis = structuredCoverage >= 0.5 ? "structured_data" as const
+              : stance === "supporting" ? "page_text" as const
+              : null;
             sources.push({
               url,
               accessible: true,
               cached: fromCache,
               keywordsMatched: keywordHits,
-              keywordsTotal: keywords.length,
-              matchRatio: +(keywordHits.length / keywords.length).toFixed(2),
-              supports: keywordHits.length >= keywords.length * 0.5,
+              structuredKeywordsMatched: structuredHits,
+              structuredFacts: [...new Set(structuredHits.flatMap(factMatches))].slice(0, MAX_CLAIM_STRUCTURED_FACTS),
+              keywordsTotal: terms.length,
+              matchRatio: +(keywordHits.length / terms.length).toFixed(2),
+              passages,
+              bestPassageScore,
+              stance: supportBasis !== null ? "supporting" as const : stance,
+              supports: supportBasis !== null,
+              supportBasis,
+              contradiction: supportBasis !== null ? null : contradiction,
+              ...(timing ? { timing } : {}),
+              ...(evidenceId ? { evidenceId } : {}),
             });
           } catch (e: unknown) {
             sources.push({
               url,
               accessible: false,
-              error: e instanceof Error ? e.message : String(e),
+              ...describeOutboundError(e),
+              stance: "unreachable" as const,
               supports: false,
+              supportBasis: null,
+              contradiction: null,
             });
           }
         }
-        const supporting = sources.filter(s => s.supports).length;
+        const stances = sources.map(s => s.stance);
+        const countStance = (stance: string) => stances.filter(s => s === stance).length;
+        const supporting = countStance("supporting");
+        const contradicting = countStance("contradicting");
+        const structuredSupporting = sources.filter(s => s.supportBasis === "structured_data").length;
+        const weightedSupport = structuredSupporting + (supporting - structuredSupporting) * PAGE_TEXT_SUPPORT_WEIGHT;
         logUsage("verify_claim", true);
         return structuredToolResult({
           claim,
+          keywordSource,
+          keywordsUsed: claimKeywords,
           sources,
           verdict: {
             supporting,
-            contradicting: sources.length - supporting,
+            structuredSupporting,
+            contradicting,
+            irrelevant: countStance("irrelevant"),
+            unreachable: countStance("unreachable"),
+            total: sources.length,
+            confidence: supporting + contradicting === 0 ? 0 : +(weightedSupport / (weightedSupport + contradicting)).toFixed(2),
+            summary: summarizeClaimVerdict(supporting, contradicting),
+          },
+          ...(evidenceError ? { evidenceError } : {}),
+        });
+      },
+    );
+
+    // ───────────────────────────────────────────────
+    // PAID $0.05: verify_numeric_fact
+    // ───────────────────────────────────────────────
+    registerPaidTool(
+      "verify_numeric_fact",
+      {
+        title: "Numeric Fact Check",
+        description:
+          "Check a numeric fact, such as a fee, quota, limit, or price, against a specific " +
+          "set of public evidence URLs. Give the subject (\"Stripe\", \"free tier\"), the metric " +
+          "(\"card transaction fee\", \"requests\"), and the expected value with its unit. " +
+          "Each page is split into sentences paired with their section heading; sentences " +
+          "that mention the metric are ranked by how many subject and metric terms they " +
+          "contain, and numbers in the most relevant ones are compared with the expected " +
+          "value. Units are normalized before comparing: k/M/B magnitudes, cents and dollars, " +
+          "percent, KB to TB, and per-month versus per-year figures at 12 months per year. " +
+          "Each source reports the values found, whether they fall within tolerance, and the " +
+          "surrounding passage. Use verify_claim for claims that are not about a number. " +
+          "Fetched pages are cached for 5 minutes.",
+        inputSchema: {
+          subject: z.string().trim().min(1).max(200).describe(
+            "What the number belongs to, for example 'Stripe' or 'free tier'.",
+          ),
+          metric: z.string().trim().min(1).max(200).describe(
+            "What is being measured, for example 'card transaction fee' or 'requests'. Sentences must mention at least one of its words.",
+          ),
+          expected_value: z.number().finite().describe(
+            "Expected number, for example 2.9 or 10000.",
+          ),
+          unit: z.string().trim().max(50).optional().describe(
+            "Unit of expected_value, for example '%', '¢', '$ per month', 'k requests per month', or 'GB'. Omit to compare against any number.",
+          ),
+          tolerance: z.number().nonnegative().optional().describe(
+            "Largest accepted difference, in the same unit as expected_value. Defaults to 0.",
+          ),
+          evidence_urls: z.array(z.string().url()).min(1).max(10).describe(
+            "One to ten public pricing, documentation, or policy URLs likely to state the number.",
+          ),
+          timeout_ms: timeoutMsSchema,
+          archive_evidence: archiveEvidenceSchema,
+        },
+        outputSchema: {
+          subject: z.string().describe("Subject that was checked."),
+          metric: z.string().describe("Metric that was checked."),
+          expected: z.object({
+            value: z.number().describe("expected_value as supplied."),
+            unit: z.string().nullable().describe("unit as supplied, or null."),
+            normalizedValue: z.number().describe(
+              "Expected value after applying magnitude and currency scale, such as 0.3 for 30 ¢.",
+            ),
+            normalizedUnit: z.string().nullable().describe(
+              "Normalized unit: USD, EUR, GBP, JPY, %, GB, or a singular count word such as request, with /month or /year when a period was given. Null for a bare number.",
+            ),
+            tolerance: z.number().nonnegative().describe("Tolerance in the normalized unit."),
+          }).describe(
+            "Expected value the sources were compared against.",
+          ),
+          sources: z.array(z.object({
+            url: z.string().describe("Evidence URL that was checked."),
+            accessible: z.boolean().describe("True when the evidence page could be fetched."),
+            cached: z.boolean().describe("True when the page body came from the 5-minute cache.").optional(),
+            status: z.enum(["match", "mismatch", "not_found", "unreachable"]).describe(
+              "match when a comparable value in the most relevant sentences is within tolerance, mismatch when comparable values there all fall outside it, " +
+              "not_found when no sentence mentioning the metric has a comparable value, unreachable when the page could not be fetched or returned a non-2xx status.",
+            ),
+            values: z.array(z.object({
+              text: z.string().describe("The number as written on the page, with up to three following words."),
+              value: z.number().describe("Value after applying magnitude and currency scale, in the page's own period."),
+              unit: z.string().nullable().describe("Normalized unit read on the page, null when none followed the number."),
+              comparedValue: z.number().describe("Value converted to the expected unit's period, as compared."),
+              difference: z.number().describe("comparedValue minus the normalized expected value."),
+              withinTolerance: z.boolean().describe("True when the absolute difference is at most the tolerance."),
+              passage: z.string().describe("Sentence the number came from, up to 500 characters."),
+              heading: z.string().nullable().describe("Heading of the section the sentence sits in, or null."),
+            })).describe(
+              `Up to ${MAX_NUMERIC_FACT_VALUES} comparable values, those from the most relevant sentences first and matches ahead of mismatches.`,
+            ).optional(),
+            timing: fetchTimingSchema.optional(),
+            evidenceId: evidenceIdSchema.optional(),
+            error: z.string().describe("Fetch error when the evidence page could not be checked.").optional(),
+            errorCode: outboundErrorCodeSchema.optional(),
+          })).describe(
+            "Per-source results.",
+          ),
+          verdict: z.object({
+            matching: z.number().int().nonnegative().describe("Number of sources whose value matches within tolerance."),
+            mismatching: z.number().int().nonnegative().describe("Number of sources that state a different value."),
+            notFound: z.number().int().nonnegative().describe("Number of sources read without a comparable value."),
+            unreachable: z.number().int().nonnegative().describe("Number of sources that could not be fetched or returned a non-2xx status."),
+            total: z.number().int().nonnegative().describe("Total number of evidence sources checked."),
+            summary: z.enum(["CONFIRMED", "UNCONFIRMED", "LIKELY TRUE", "LIKELY FALSE"]).describe(
+              "Same rules as verify_claim with matches as support and mismatches as contradictions: none of either => UNCONFIRMED, matches only => CONFIRMED, more matches than mismatches => LIKELY TRUE, otherwise LIKELY FALSE.",
+            ),
+          }).describe(
+            "Aggregate verdict across all supplied sources.",
+          ),
+          evidenceError: evidenceErrorSchema.optional(),
+        },
+        annotations: readOnlyNetworkToolAnnotations,
+        ...getPaidToolMetadata("verify_numeric_fact"),
+      },
+      async ({ subject, metric, expected_value, unit, tolerance, evidence_urls, timeout_ms, archive_evidence }, extra) => {
+        const { archive, evidenceError } = archive_evidence ? await openEvidenceArchive(extra, "verify_numeric_fact") : {};
+        const [, symbol = "", unitText = ""] = (unit ?? "").match(/^\s*([$€£¥]?)(.*)$/) ?? [];
+        const expected = parseNumericQuantity(expected_value, symbol, ` ${unitText}`);
+        const normalizedTolerance = (tolerance ?? 0) * expected.scale;
+        const sources = [];
+        for (const url of evidence_urls) {
+          try {
+            const page = await cachedFetch(sql, url, timeout_ms);
+            const { body, fromCache, ok, timing } = page;
+            const evidenceId = archive ? await archive(url, page) : null;
+            if (!ok) {
+              sources.push({
+                url,
+                accessible: true,
+                cached: fromCache,
+                status: "unreachable" as const,
+                error: "Evidence page returned a non-2xx status, so its text was not evaluated.",
+                ...(timing ? { timing } : {}),
+                ...(evidenceId ? { evidenceId } : {}),
+              });
+              continue;
+            }
+            const { status, values } = findNumericFact(body, subject, metric, expected, normalizedTolerance);
+            sources.push({
+              url,
+              accessible: true,
+              cached: fromCache,
+              status,
+              values,
+              ...(timing ? { timing } : {}),
+              ...(evidenceId ? { evidenceId } : {}),
+            });
+          } catch (e: unknown) {
+            sources.push({ url, accessible: false, ...describeOutboundError(e), status: "unreachable" as const });
+          }
+        }
+        const statuses = sources.map(s => s.status);
+        const countStatus = (status: string) => statuses.filter(s => s === status).length;
+        const matching = countStatus("match");
+        const mismatching = countStatus("mismatch");
+        logUsage("verify_numeric_fact", true);
+        return structuredToolResult({
+          subject,
+          metric,
+          expected: {
+            value: expected_value,
+            unit: unit || null,
+            normalizedValue: +expected.value.toFixed(6),
+            normalizedUnit: formatNumericUnit(expected),
+            tolerance: +normalizedTolerance.toFixed(6),
+          },
+          sources,
+          verdict: {
+            matching,
+            mismatching,
+            notFound: countStatus("not_found"),
+            unreachable: countStatus("unreachable"),
             total: sources.length,
-            confidence: +(supporting / sources.length).toFixed(2),
-            summary: supporting === sources.length ? "CONFIRMED" :
-                     supporting === 0 ? "UNCONFIRMED" :
-                     supporting >= sources.length * 0.5 ? "LIKELY TRUE" : "LIKELY FALSE",
+            summary: summarizeClaimVerdict(matching, mismatching),
           },
+          ...(evidenceError ? { evidenceError } : {}),
         });
       },
     );
@@ -2772,13 +9159,30 @@ export class GroundTruthMCP extends McpAgent<Env> {
         description:
           "Scan a public security, trust, compliance, or legal page for common " +
           "enterprise buying signals before you claim a vendor supports a particular " +
-          "compliance posture. It looks for public references to SOC 2, ISO 27001, " +
-          "GDPR, HIPAA, DPA terms, subprocessors, SSO, SCIM, encryption, and data " +
-          "residency language. This is a signal scanner, not proof of certification or legal sufficiency.",
+          "compliance posture. It checks a catalog of frameworks and controls: SOC 1/2/3, " +
+          "ISO 27001/27017/27018/27701/42001, PCI DSS, FedRAMP (with level), HITRUST, CSA STAR, " +
+          "TISAX, Cyber Essentials, GDPR, CCPA/CPRA, HIPAA, Data Privacy Framework listing, DPA " +
+          "terms, subprocessors, SSO, SCIM, encryption, data residency, bug bounty or vulnerability " +
+          "disclosure programs, and security.txt links. Each framework carries its category and " +
+          "jurisdiction so results can be grouped. Each mention is returned with its surrounding snippet and position, " +
+          "classified as a certification claim, policy mention, or incidental mention, and checked for " +
+          "negation such as \"we are not HIPAA compliant\". Footer and navigation links do not set a " +
+          "signal to true. Set crawl to treat the URL as a domain: likely trust, security, privacy, " +
+          "DPA, and subprocessor pages are discovered from homepage links and sitemap.xml, scanned " +
+          "within a page budget, and aggregated with the pages each signal came from. " +
+          "This is a signal scanner, not proof of certification or legal sufficiency.",
         inputSchema: {
           url: z.string().url().describe(
-            "Public trust, security, compliance, or policy URL to scan.",
+            "Public trust, security, compliance, or policy URL to scan. In crawl mode, any URL on the vendor's site; the crawl starts from its homepage.",
+          ),
+          crawl: z.boolean().default(false).describe(
+            "When true, discover likely trust and legal pages from homepage links and sitemap.xml and aggregate signals across them.",
           ),
+          max_pages: z.number().int().min(1).max(MAX_COMPLIANCE_CRAWL_PAGES).default(DEFAULT_COMPLIANCE_CRAWL_PAGES).describe(
+            "Crawl mode page budget: the most pages fetched and scanned, including the homepage and the input URL.",
+          ),
+          timeout_ms: timeoutMsSchema,
+          archive_evidence: archiveEvidenceSchema,
         },
         outputSchema: {
           url: z.string().describe(
@@ -2788,69 +9192,117 @@ export class GroundTruthMCP extends McpAgent<Env> {
             "True when the page body came from the 5-minute cache.",
           ),
           matchedSignals: z.array(z.string()).optional().describe(
-            "Signal names that were detected on the page.",
+            "Signal names whose boolean in signals is true.",
           ),
-          signals: z.object({
-            soc2: z.boolean().describe(
-              "True when the page references SOC 2 or SOC2 compliance language.",
-            ),
-            iso27001: z.boolean().describe(
-              "True when the page references ISO 27001 certification or compliance language.",
-            ),
-            gdpr: z.boolean().describe(
-              "True when the page references GDPR or the General Data Protection Regulation.",
-            ),
-            hipaa: z.boolean().describe(
-              "True when the page references HIPAA compliance language.",
-            ),
-            dpa: z.boolean().describe(
-              "True when the page references a data processing agreement or DPA.",
-            ),
-            subprocessorList: z.boolean().describe(
-              "True when the page references subprocessors or a subprocessor list.",
-            ),
-            sso: z.boolean().describe(
-              "True when the page references SSO or single sign-on.",
-            ),
-            scim: z.boolean().describe(
-              "True when the page references SCIM provisioning.",
-            ),
-            encryption: z.boolean().describe(
-              "True when the page references encryption, data encrypted at rest, or data encrypted in transit.",
-            ),
-            dataResidency: z.boolean().describe(
-              "True when the page references data residency, data regions, or regional storage controls.",
+          signals: z.record(z.string(), z.boolean()).optional().describe(
+            "One boolean per catalog framework, keyed by id (soc2, pciDss, fedramp, ccpa, securityTxt, and so on). True when at least one mention is in the page body, is not negated, and is a certification claim or policy mention. A footer link or \"we are not HIPAA compliant\" leaves it false; links to a bug bounty platform or security.txt count anywhere on the page.",
+          ),
+          frameworks: z.array(z.object({
+            id: z.string().describe("Catalog id, matching a key of signals."),
+            name: z.string().describe("Display name, such as PCI DSS."),
+            category: complianceCategorySchema,
+            jurisdiction: z.string().describe("Governing jurisdiction: an ISO 3166 code such as US, US-CA, DE, or GB, or EU, EU-US, or global."),
+            detected: z.boolean().describe("Same as the framework's value in signals."),
+            negated: z.boolean().describe("True when any mention was negated or only planned."),
+            level: z.string().nullable().describe("Level, type, or tier stated next to a supporting mention, such as FedRAMP Moderate, SOC 2 Type II, PCI DSS Level 1, TISAX AL3, or Cyber Essentials Plus."),
+          })).optional().describe("Every catalog framework mentioned on the page, with catalog metadata for grouping."),
+          detectedByCategory: z.record(z.string(), z.array(z.string())).optional().describe(
+            "Ids of detected frameworks grouped by category.",
+          ),
+          pageType: z.enum(["trust_center", "compliance", "security", "privacy_policy", "legal", "other"]).optional().describe(
+            "Page type inferred from the URL path, title, and first heading. On privacy_policy and legal pages, body mentions count as policy mentions without first-party wording.",
+          ),
+          negatedSignals: z.array(z.string()).optional().describe(
+            "Signals with at least one negated or only planned mention, such as \"we are not HIPAA compliant\" or \"working towards ISO 27001\".",
+          ),
+          incidentalSignals: z.array(z.string()).optional().describe(
+            "Signals mentioned only in footers, navigation, or passing text, and never negated.",
+          ),
+          evidence: z.array(z.object({
+            signal: z.string().describe("Signal name, matching a key of signals."),
+            url: z.string().optional().describe("Crawl mode only: page the mention was found on."),
+            snippet: z.string().describe("Up to 120 characters of page text either side of the match."),
+            position: z.number().int().nonnegative().describe("Character offset of the match in the page text."),
+            region: z.enum(["main", "footer", "navigation"]).describe("Part of the page the match sits in."),
+            classification: z.enum(["certification_claim", "policy_mention", "incidental_mention"]).describe(
+              "certification_claim when an attestation, certification, government authorization, or regulation appears with certified, compliant, audit, or report wording; policy_mention for first-party or policy prose, or a security-program link anywhere; incidental_mention for footer, navigation, or passing text.",
             ),
-          }).optional().describe(
-            "Boolean scan results for common enterprise compliance and security signals.",
+            negated: z.boolean().describe("True when the clause negates the signal or describes it as planned or in progress."),
+            level: z.string().nullable().describe("Level, type, or tier stated in the same clause, if the framework has one."),
+          })).optional().describe(
+            "Up to 5 mentions per signal, in page order, so a reviewer can check each boolean against the text. In crawl mode, the strongest 5 across all pages.",
           ),
+          signalSources: z.record(z.string(), z.array(z.string())).optional().describe(
+            "Crawl mode only: for each signal, the URLs of the pages where it was true.",
+          ),
+          crawl: z.object({
+            pageBudget: z.number().int().describe("max_pages used for this crawl."),
+            pagesScanned: z.number().int().nonnegative().describe("Pages fetched and scanned without error."),
+            candidatesFound: z.number().int().nonnegative().describe("Same-site trust or legal links found before deduplication and the page budget."),
+            sitemapChecked: z.boolean().describe("True when /sitemap.xml was fetched and read. Nested sitemap indexes are not followed."),
+            pages: z.array(z.object({
+              url: z.string(),
+              discoveredFrom: z.enum(["input", "homepage", "link", "sitemap"]),
+              pageType: z.enum(["trust_center", "compliance", "security", "privacy_policy", "legal", "other"]).optional(),
+              matchedSignals: z.array(z.string()).optional(),
+              negatedSignals: z.array(z.string()).optional(),
+              cached: z.boolean().optional(),
+              evidenceId: evidenceIdSchema.optional(),
+              error: z.string().optional(),
+              errorCode: outboundErrorCodeSchema.optional(),
+            })).describe("Every page the crawl fetched, in scan order."),
+          }).optional().describe("Crawl mode only: which pages were discovered and scanned."),
           pageLength: z.number().int().nonnegative().optional().describe(
             "Size of the fetched page body in characters.",
           ),
+          timing: fetchTimingSchema.optional(),
+          evidenceId: evidenceIdSchema.optional(),
+          evidenceError: evidenceErrorSchema.optional(),
           error: z.string().optional().describe(
             "Fetch or parsing error when the page could not be analyzed.",
           ),
+          errorCode: outboundErrorCodeSchema.optional(),
         },
         annotations: readOnlyNetworkToolAnnotations,
         ...getPaidToolMetadata("assess_compliance_posture"),
       },
-      async ({ url }) => {
+      async ({ url, crawl, max_pages, timeout_ms, archive_evidence }, extra) => {
+        const { archive, evidenceError } = archive_evidence ? await openEvidenceArchive(extra, "assess_compliance_posture") : {};
+        const archiveResult = evidenceError ? { evidenceError } : {};
         try {
-          const { body, fromCache } = await cachedFetch(sql, url);
-          const { signals, matchedSignals } = extractComplianceSignals(body);
+          if (crawl) {
+            const result = await crawlCompliancePages(sql, url, max_pages ?? DEFAULT_COMPLIANCE_CRAWL_PAGES, timeout_ms, archive);
+            logUsage("assess_compliance_posture", true);
+            return structuredToolResult({ ...result, ...archiveResult });
+          }
+          const page = await cachedFetch(sql, url, timeout_ms);
+          const { body, fromCache, timing } = page;
+          const evidenceId = archive ? await archive(url, page) : null;
+          const { pageType, signals, matchedSignals, negatedSignals, incidentalSignals, frameworks, detectedByCategory, evidence } =
+            extractComplianceSignals(body, url);
           logUsage("assess_compliance_posture", true);
           return structuredToolResult({
             url,
             cached: fromCache,
             matchedSignals,
             signals,
+            pageType,
+            negatedSignals,
+            incidentalSignals,
+            frameworks,
+            detectedByCategory,
+            evidence,
             pageLength: body.length,
+            ...(timing ? { timing } : {}),
+            ...(evidenceId ? { evidenceId } : {}),
+            ...archiveResult,
           });
         } catch (error: unknown) {
           logUsage("assess_compliance_posture", false);
           return structuredToolResult({
             url,
-            error: error instanceof Error ? error.message : String(error),
+            ...describeOutboundError(error),
+            ...archiveResult,
           });
         }
       },
@@ -2866,8 +9318,10 @@ export class GroundTruthMCP extends McpAgent<Env> {
         description:
           "Run a small verification plan made of concrete live checks and summarize " +
           "whether a hypothesis is supported. Use this when one conclusion depends " +
-          "on multiple simple checks such as endpoint reachability, npm search counts, " +
-          "or whether a page contains an exact substring. This is a coordination tool, " +
+          "on multiple simple checks such as endpoint reachability, exact status codes, " +
+          "response headers, content type, a JSON field's value, latency, npm search " +
+          "counts, or whether a page contains an exact substring or regex match. Each " +
+          "result reports the observed value in actual. This is a coordination tool, " +
           "not an open-ended research agent: every test must be explicitly defined in " +
           "advance, and tests run in order with no branching or early exit. The final " +
           "verdict is mechanical: all tests passing => SUPPORTED, zero passing => " +
@@ -2933,10 +9387,128 @@ export class GroundTruthMCP extends McpAgent<Env> {
                   "Exact case-sensitive text to search for in the fetched response body.",
                 ),
               }),
+              z.object({
+                description: z.string().trim().min(3).describe(
+                  "Short explanation of what this status code check is meant to prove.",
+                ),
+                type: z.literal("status_code_is").describe(
+                  "Perform one unauthenticated GET request and pass when the final HTTP status, after redirects, equals status.",
+                ),
+                url: z.string().url().describe(
+                  "Public URL to probe.",
+                ),
+                status: z.number().int().min(100).max(599).describe(
+                  "Expected HTTP status code, for example 401 for an endpoint that should require auth.",
+                ),
+              }),
+              z.object({
+                description: z.string().trim().min(3).describe(
+                  "Short explanation of what this header check is meant to prove.",
+                ),
+                type: z.literal("header_equals").describe(
+                  "Perform one unauthenticated GET request and pass when the response header equals value exactly, ignoring surrounding whitespace.",
+                ),
+                url: z.string().url().describe(
+                  "Public URL whose response header should be checked.",
+                ),
+                header: z.string().trim().min(1).max(100).describe(
+                  "Header name, matched without case, for example 'Access-Control-Allow-Origin'.",
+                ),
+                value: z.string().describe(
+                  "Expected header value, compared case-sensitively.",
+                ),
+              }),
+              z.object({
+                description: z.string().trim().min(3).describe(
+                  "Short explanation of what this header check is meant to prove.",
+                ),
+                type: z.literal("header_contains").describe(
+                  "Perform one unauthenticated GET request and pass when the response header contains the substring using case-sensitive matching.",
+                ),
+                url: z.string().url().describe(
+                  "Public URL whose response header should be checked.",
+                ),
+                header: z.string().trim().min(1).max(100).describe(
+                  "Header name, matched without case, for example 'Strict-Transport-Security'.",
+                ),
+                substring: z.string().min(1).describe(
+                  "Text the header value must contain, for example 'max-age='.",
+                ),
+              }),
+              z.object({
+                description: z.string().trim().min(3).describe(
+                  "Short explanation of what this JSON field check is meant to prove.",
+                ),
+                type: z.literal("json_path_equals").describe(
+                  "Fetch a public URL, parse the body as JSON, and pass when the value at path deeply equals expected. Object key order is ignored.",
+                ),
+                url: z.string().url().describe(
+                  "Public URL that returns JSON.",
+                ),
+                path: z.string().trim().refine((value) => parseJsonPath(value) !== null, {
+                  message: "Use $ followed by .name, ['name'], or [index] segments. Wildcards, slices, and filters are not supported.",
+                }).describe(
+                  "JSONPath to a single value, for example '$.data[0].status' or \"$['rate-limit'].remaining\".",
+                ),
+                expected: z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(z.unknown()), z.record(z.string(), z.unknown())]).describe(
+                  "Expected JSON value at path.",
+                ),
+              }),
+              z.object({
+                description: z.string().trim().min(3).describe(
+                  "Short explanation of what this pattern check is meant to prove.",
+                ),
+                type: z.literal("regex_match").describe(
+                  `Fetch a public URL and pass when the regular expression matches within the first ${MAX_HYPOTHESIS_REGEX_BODY_LENGTH.toLocaleString("en-US")} characters of the body.`,
+                ),
+                url: z.string().url().describe(
+                  "Public URL whose response body should match the pattern.",
+                ),
+                pattern: z.string().min(1).max(MAX_HYPOTHESIS_REGEX_LENGTH).superRefine((value, ctx) => {
+                  const problem = getHypothesisRegexProblem(value);
+                  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+                }).describe(
+                  `JavaScript regular expression source, up to ${MAX_HYPOTHESIS_REGEX_LENGTH} characters, without slashes. Refused: quantified groups such as (a+)+, more than one unbounded quantifier (*, +, {n,}), more than ${MAX_HYPOTHESIS_REGEX_CHOICES} combinations of optional or ranged repeats and alternatives, backreferences, and lookarounds.`,
+                ),
+                flags: z.string().regex(/^(?!.*(.).*\1)[ims]*$/, "Use any of the flags i, m, and s, each at most once.").default("").describe(
+                  "Regex flags: i (ignore case), m (multiline), s (dot matches newlines).",
+                ),
+              }),
+              z.object({
+                description: z.string().trim().min(3).describe(
+                  "Short explanation of what this latency check is meant to prove.",
+                ),
+                type: z.literal("latency_below").describe(
+                  "Perform one unauthenticated GET request and pass when the time to response headers, including redirects, is below threshold_ms.",
+                ),
+                url: z.string().url().describe(
+                  "Public URL to time.",
+                ),
+                threshold_ms: z.number().int().min(1).max(MAX_FETCH_TIMEOUT_MS).describe(
+                  "Latency the response must beat, in milliseconds.",
+                ),
+              }),
+              z.object({
+                description: z.string().trim().min(3).describe(
+                  "Short explanation of what this content type check is meant to prove.",
+                ),
+                type: z.literal("content_type_equals").describe(
+                  "Perform one unauthenticated GET request and pass when the response media type equals content_type. Parameters such as charset and letter case are ignored.",
+                ),
+                url: z.string().url().describe(
+                  "Public URL to probe.",
+                ),
+                content_type: z.string().trim().min(3).describe(
+                  "Expected media type, for example 'application/json'.",
+                ),
+              }),
             ]),
           ).min(1).max(10).describe(
             "Ordered list of one to ten checks to run. Each test object uses only the fields required by its type.",
           ),
+          timeout_ms: timeoutMsSchema.describe(
+            `Per-request timeout in milliseconds applied to each URL-based test, covering redirects and the full body. Defaults to ${DEFAULT_FETCH_TIMEOUT_MS} and is capped at ${MAX_FETCH_TIMEOUT_MS}.`,
+          ),
         },
         outputSchema: {
           hypothesis: z.string().describe(
@@ -2946,15 +9518,27 @@ export class GroundTruthMCP extends McpAgent<Env> {
             description: z.string().describe(
               "Human-readable explanation of the check.",
             ),
-            type: z.enum(["endpoint_exists", "npm_count_above", "npm_count_below", "response_contains"]).describe(
+            type: z.enum(HYPOTHESIS_TEST_TYPES).describe(
               "Test type that was executed.",
             ),
             passed: z.boolean().describe(
               "True when the test condition was satisfied.",
             ),
-            actual: z.union([z.string(), z.number(), z.null()]).describe(
-              "Observed value or diagnostic string that explains the result. The format varies by test type and is meant for human interpretation, not strict machine parsing.",
+            actual: z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(z.unknown()), z.record(z.string(), z.unknown())]).describe(
+              "Observed value. status_code_is: the status number. header_equals and header_contains: the header value, or null when absent. " +
+              "json_path_equals: the JSON value at path, or null when the path matched nothing. regex_match: the matched text, or null. " +
+              "latency_below: milliseconds to response headers. content_type_equals: the media type, or null. npm counts: the result count. " +
+              "endpoint_exists and response_contains: a diagnostic string. When a check fails to run, the new types report null and " +
+              "the original types report the error message.",
             ),
+            expected: z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(z.unknown()), z.record(z.string(), z.unknown())]).optional().describe(
+              "Value the observation was compared against: the status, header value or substring, JSON value, pattern, threshold, or media type. Omitted for endpoint_exists.",
+            ),
+            timing: fetchTimingSchema.optional(),
+            error: z.string().optional().describe(
+              "Why the check could not be evaluated, such as a network failure, a body that is not JSON, or a JSONPath that matched nothing.",
+            ),
+            errorCode: outboundErrorCodeSchema.optional(),
           })).describe(
             "Per-test execution results in input order.",
           ),
@@ -2975,18 +9559,25 @@ export class GroundTruthMCP extends McpAgent<Env> {
         annotations: readOnlyNetworkToolAnnotations,
         ...getPaidToolMetadata("test_hypothesis"),
       },
-      async ({ hypothesis, tests }) => {
+      async ({ hypothesis, tests, timeout_ms }) => {
+        const liveFetch = (url: string) => timedFetch(url, {
+          headers: { "User-Agent": "GroundTruth/0.3" },
+        }, { timeoutMs: timeout_ms });
         const results = [];
         for (const test of tests) {
           let passed: boolean | null = null;
-          let actual: string | number | null = null;
+          let actual: HypothesisValue = null;
+          let expected: HypothesisValue | undefined;
+          let timing: FetchTiming | undefined;
+          let error: string | undefined;
+          let errorCode: OutboundRequestErrorCode | undefined;
 
           try {
             switch (test.type) {
               case "endpoint_exists": {
-                const resp = await fetch(test.url, {
-                  headers: { "User-Agent": "GroundTruth/0.3" },
-                });
+                const fetched = await liveFetch(test.url);
+                const resp = fetched.response;
+                timing = fetched.timing;
                 passed = resp.ok;
                 actual = `status ${resp.status}`;
                 break;
@@ -2995,6 +9586,7 @@ export class GroundTruthMCP extends McpAgent<Env> {
               case "npm_count_below": {
                 const data = await searchNpm(sql, test.query, 1);
                 const total = data.total ?? 0;
+                expected = test.threshold;
                 actual = total;
                 passed = test.type === "npm_count_above"
                   ? total > test.threshold
@@ -3002,15 +9594,84 @@ export class GroundTruthMCP extends McpAgent<Env> {
                 break;
               }
               case "response_contains": {
-                const { body } = await cachedFetch(sql, test.url);
+                const fetched = await cachedFetch(sql, test.url, timeout_ms);
+                const body = fetched.body;
+                timing = fetched.timing;
+                expected = test.substring;
                 passed = body.includes(test.substring);
                 actual = `${body.length} chars, contains=${passed}`;
                 break;
               }
+              case "status_code_is": {
+                expected = test.status;
+                const fetched = await liveFetch(test.url);
+                timing = fetched.timing;
+                actual = fetched.response.status;
+                passed = actual === test.status;
+                break;
+              }
+              case "header_equals":
+              case "header_contains": {
+                expected = test.type === "header_equals" ? test.value : test.substring;
+                const fetched = await liveFetch(test.url);
+                timing = fetched.timing;
+                const value = fetched.response.headers.get(test.header);
+                actual = value;
+                passed = value !== null && (test.type === "header_equals"
+                  ? value.trim() === test.value.trim()
+                  : value.includes(test.substring));
+                break;
+              }
+              case "json_path_equals": {
+                expected = test.expected;
+                const fetched = await cachedFetch(sql, test.url, timeout_ms);
+                timing = fetched.timing;
+                let data: unknown;
+                try {
+                  data = JSON.parse(fetched.body);
+                } catch {
+                  throw new Error("Response body is not valid JSON.");
+                }
+                const resolved = resolveJsonPath(data, parseJsonPath(test.path) ?? []);
+                if (!resolved.found) {
+                  passed = false;
+                  error = `${test.path} matched nothing in the response.`;
+                  break;
+                }
+                actual = resolved.value as HypothesisValue;
+                passed = canonicalJson(actual) === canonicalJson(test.expected);
+                break;
+              }
+              case "regex_match": {
+                expected = test.pattern;
+                const fetched = await cachedFetch(sql, test.url, timeout_ms);
+                timing = fetched.timing;
+                const match = new RegExp(test.pattern, test.flags).exec(fetched.body.slice(0, MAX_HYPOTHESIS_REGEX_BODY_LENGTH));
+                actual = match ? match[0].slice(0, MAX_HYPOTHESIS_REGEX_MATCH_LENGTH) : null;
+                passed = match !== null;
+                break;
+              }
+              case "latency_below": {
+                expected = test.threshold_ms;
+                const fetched = await liveFetch(test.url);
+                timing = fetched.timing;
+                actual = fetched.timing.timeToHeadersMs;
+                passed = actual < test.threshold_ms;
+                break;
+              }
+              case "content_type_equals": {
+                expected = getMediaType(test.content_type);
+                const fetched = await liveFetch(test.url);
+                timing = fetched.timing;
+                actual = getMediaType(fetched.response.headers.get("content-type"));
+                passed = actual !== null && actual === expected;
+                break;
+              }
             }
           } catch (e: unknown) {
             passed = false;
-            actual = e instanceof Error ? e.message : String(e);
+            ({ error, errorCode } = describeOutboundError(e));
+            actual = DIAGNOSTIC_HYPOTHESIS_TEST_TYPES.has(test.type) ? error : null;
           }
 
           results.push({
@@ -3018,6 +9679,10 @@ export class GroundTruthMCP extends McpAgent<Env> {
             type: test.type,
             passed,
             actual,
+            ...(expected !== undefined ? { expected } : {}),
+            ...(timing ? { timing } : {}),
+            ...(error ? { error } : {}),
+            ...(errorCode ? { errorCode } : {}),
           });
         }
         const passedCount = results.filter(r => r.passed).length;
@@ -3026,9 +9691,13 @@ export class GroundTruthMCP extends McpAgent<Env> {
           hypothesis,
           tests: results as {
             description: string;
-            type: "endpoint_exists" | "npm_count_above" | "npm_count_below" | "response_contains";
+            type: (typeof HYPOTHESIS_TEST_TYPES)[number];
             passed: boolean;
-            actual: string | number | null;
+            actual: HypothesisValue;
+            expected?: HypothesisValue;
+            timing?: FetchTiming;
+            error?: string;
+            errorCode?: OutboundRequestErrorCode;
           }[],
           verdict: {
             passed: passedCount,
@@ -3447,6 +10116,139 @@ export class GroundTruthMCP extends McpAgent<Env> {
       },
     );
 
+    const pricingPlanPriceSchema = z.object({
+      amount: z.number().nullable(),
+      currency: z.string().nullable(),
+      period: z.enum(["month", "year"]).nullable(),
+      contactSales: z.boolean(),
+    });
+    const pricingPlanSummarySchema = pricingPlanPriceSchema.extend({ name: z.string() });
+    const pricingSnapshotPlanSchema = pricingPlanSummarySchema.extend({
+      qualifier: z.enum(["per_seat", "usage"]).nullable(),
+      billing: z.enum(["monthly", "annual"]).nullable(),
+    });
+
+    this.server.registerTool(
+      "get_pricing_history",
+      {
+        title: "Pricing History",
+        description:
+          "Return the stored timeline of pricing changes for a URL, built from every " +
+          "check_pricing scan made with your team API key. Each change lists plans added, " +
+          "plans removed, and per-plan price changes with the absolute and percentage delta, " +
+          "so a quiet price increase shows up with the scan where it was first seen. Deltas " +
+          "are only computed when the currency and billing period are unchanged. Scans made " +
+          "without an API key, and scans where no plans were detected, are not stored. " +
+          "Requires a team API key.",
+        inputSchema: {
+          url: z.string().url().describe("Pricing page URL as passed to check_pricing. Host case, the fragment, and a trailing slash are ignored."),
+          limit: z.number().int().min(2).max(MAX_PRICING_SNAPSHOTS_PER_URL).default(100).describe(
+            "Maximum number of most recent snapshots to compare.",
+          ),
+        },
+        outputSchema: {
+          url: z.string(),
+          snapshots: z.number().int().nonnegative().describe("Number of stored scans compared."),
+          firstCapturedAt: z.string().nullable().describe("ISO timestamp of the oldest scan compared."),
+          lastCapturedAt: z.string().nullable().describe("ISO timestamp of the newest scan compared."),
+          currentPlans: z.array(pricingSnapshotPlanSchema).describe("Plans from the newest stored scan."),
+          changes: z.array(z.object({
+            capturedAt: z.string().describe("ISO timestamp of the scan where the change was first seen."),
+            previousCapturedAt: z.string().describe("ISO timestamp of the scan it was compared against."),
+            addedPlans: z.array(pricingPlanSummarySchema),
+            removedPlans: z.array(pricingPlanSummarySchema),
+            priceChanges: z.array(z.object({
+              plan: z.string(),
+              from: pricingPlanPriceSchema,
+              to: pricingPlanPriceSchema,
+              delta: z.number().nullable().describe("New amount minus old amount. Null when currency or period changed, or either side is unpriced."),
+              deltaPercent: z.number().nullable().describe("delta as a percentage of the old amount."),
+            })),
+          })).describe("Scans that differ from the one before, oldest first. Unchanged scans are omitted."),
+          priceIncreases: z.number().int().nonnegative().describe("Number of per-plan price increases across all changes."),
+          error: z.string().optional(),
+        },
+        annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+      },
+      async ({ url, limit }, extra) => {
+        const empty = { url, snapshots: 0, firstCapturedAt: null, lastCapturedAt: null, currentPlans: [], changes: [], priceIncreases: 0 };
+        const apiKey = getExtraHeader(extra, "X-API-Key");
+        if (!apiKey) {
+          return structuredToolResult({ ...empty, error: "missing_api_key: get_pricing_history requires a team API key" });
+        }
+        const ownerKeyHash = await sha256Hex(apiKey);
+        try {
+          const lim = limit ?? 100;
+          const rows = sql<PricingSnapshotRecord>`SELECT * FROM pricing_snapshots WHERE owner_key_hash = ${ownerKeyHash} AND url = ${getPricingHistoryKey(url)} ORDER BY captured_at DESC, id DESC LIMIT ${lim}`;
+          logUsage("get_pricing_history", true);
+          return structuredToolResult({ url, ...buildPricingTimeline(rows.reverse()) });
+        } catch (e) {
+          logUsage("get_pricing_history", false);
+          return structuredToolResult({ ...empty, error: e instanceof Error ? e.message : String(e) });
+        }
+      },
+    );
+
+    this.server.registerTool(
+      "get_evidence",
+      {
+        title: "Archived Evidence",
+        description:
+          "Return a page copy stored by check_pricing, verify_claim, verify_numeric_fact, or " +
+          "assess_compliance_posture when called with archive_evidence, using the evidenceId " +
+          "the tool returned. Includes the normalized page text, its SHA-256 content hash " +
+          "(recomputed on read, so hashVerified confirms the stored text is unchanged), when " +
+          "the page was fetched, whether it came from the 5-minute cache, and the HTTP status " +
+          "and response headers of the fetch. Evidence is only returned to the API key " +
+          "that archived it and is deleted after 30 days. " +
+          "Requires a team API key.",
+        inputSchema: {
+          evidence_id: z.string().trim().regex(/^ev_[0-9a-z]{20}$/).describe("evidenceId returned by the archiving tool."),
+          include_text: z.boolean().default(true).describe("Set to false to return only metadata and the content hash."),
+        },
+        outputSchema: {
+          evidenceId: z.string(),
+          found: z.boolean().describe("False when the id is unknown, belongs to another key, or has expired."),
+          tool: z.string().optional().describe("Tool that archived the page."),
+          url: z.string().optional().describe("URL that was fetched."),
+          fetchedAt: z.string().optional().describe("ISO timestamp of the fetch. For a cached page, when the cached copy was fetched."),
+          fromCache: z.boolean().optional().describe("True when the tool read the page from the 5-minute cache."),
+          status: z.number().int().nullable().optional().describe(
+            "HTTP status. For a cached page, the status of the fetch that filled the cache; null when that was not recorded.",
+          ),
+          headers: z.record(z.string(), z.string()).nullable().optional().describe(
+            "Content type, caching, date, ETag, Last-Modified, and server headers of the response. Null when they were not recorded.",
+          ),
+          contentHash: z.string().optional().describe("Hex SHA-256 of the stored text, computed when it was archived."),
+          hashVerified: z.boolean().optional().describe("True when the stored text still hashes to contentHash."),
+          textLength: z.number().int().nonnegative().optional().describe("Length of the stored text in characters."),
+          textTruncated: z.boolean().optional().describe(`True when the page text was cut to ${MAX_EVIDENCE_TEXT_LENGTH.toLocaleString("en-US")} characters before hashing.`),
+          text: z.string().optional().describe("Normalized page text, one block per line. Omitted when include_text is false."),
+          archivedAt: z.string().optional().describe("ISO timestamp of when the copy was stored."),
+          expiresAt: z.string().optional().describe("ISO timestamp after which the copy is deleted."),
+          error: z.string().optional(),
+        },
+        annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+      },
+      async ({ evidence_id, include_text }, extra) => {
+        const apiKey = getExtraHeader(extra, "X-API-Key");
+        if (!apiKey) {
+          return structuredToolResult({ evidenceId: evidence_id, found: false, error: "missing_api_key: get_evidence requires a team API key" });
+        }
+        try {
+          const evidence = await readEvidence(sql, await sha256Hex(apiKey), evidence_id, include_text);
+          logUsage("get_evidence", true);
+          if (!evidence) {
+            return structuredToolResult({ evidenceId: evidence_id, found: false, error: "not_found: no unexpired evidence with this id for this API key" });
+          }
+          return structuredToolResult(evidence);
+        } catch (e) {
+          logUsage("get_evidence", false);
+          return structuredToolResult({ evidenceId: evidence_id, found: false, error: e instanceof Error ? e.message : String(e) });
+        }
+      },
+    );
+
   }
 
   async fetch(request: Request): Promise<Response> {
@@ -3893,6 +10695,19 @@ export default {
       );
     }
 
+    if (url.pathname === RECEIPT_KEYS_PATH) {
+      const keyPromise = getReceiptSigningKey(env);
+      if (!keyPromise) {
+        return jsonError(404, "receipts_unavailable", "This server has no receipt signing key configured.");
+      }
+      try {
+        const key = await keyPromise;
+        return jsonResponse({ keys: [{ ...key.publicJwk, kid: key.keyId, alg: "EdDSA", use: "sig" }] });
+      } catch (e) {
+        return jsonError(500, "receipts_unavailable", e instanceof Error ? e.message : String(e));
+      }
+    }
+
     if (url.pathname === "/.well-known/mcp/server-card.json") {
       const publicOrigin = url.origin;
       const homepage = `${publicOrigin}/`;
@@ -4088,7 +10903,12 @@ export default {
         <ul>
           <li><strong>check_endpoint</strong></li>
           <li><strong>inspect_security_headers</strong></li>
+          <li><strong>inspect_tls</strong></li>
+          <li><strong>inspect_well_known</strong></li>
+          <li><strong>check_cors</strong></li>
+          <li><strong>extract_structured_data</strong></li>
           <li><strong>list_resources</strong> (no quota)</li>
+          <li><strong>verify_receipt</strong></li>
           <li><strong>verify_claim</strong> (5 calls/month)</li>
           <li>100 total requests per calendar month for endpoint + security checks</li>
           <li>Tracked by Cloudflare client IP in production, or an anonymous client identifier in local/dev</li>
@@ -4100,13 +10920,13 @@ export default {
       <div class="plan plan-pro">
         <h2>Paid Plan</h2>
         <div class="price">$${PAID_PLAN_PRICE_USD}<span>/month</span></div>
-        <p class="desc">Single subscription unlocks all 7 paid verification tools with unlimited usage. Best for agents that need reliable verification.</p>
+        <p class="desc">Single subscription unlocks all 8 paid verification tools with unlimited usage. Best for agents that need reliable verification.</p>
         <ul>
           <li>Requires <strong>X-API-Key</strong> (generated after checkout)</li>
           <li>Billing must be active via Stripe</li>
           <li>${PAID_MONTHLY_LIMIT.toLocaleString()} requests per calendar month included</li>
           <li>Usage tracked per API key</li>
-          <li>Includes all 7 paid tools: <strong>check_pricing</strong>, <strong>estimate_market</strong>, <strong>compare_competitors</strong>, <strong>compare_pricing_pages</strong>, <strong>test_hypothesis</strong>, <strong>assess_compliance_posture</strong>, and <strong>verify_claim</strong></li>
+          <li>Includes all 8 paid tools: <strong>check_pricing</strong>, <strong>estimate_market</strong>, <strong>compare_competitors</strong>, <strong>compare_pricing_pages</strong>, <strong>test_hypothesis</strong>, <strong>assess_compliance_posture</strong>, <strong>verify_claim</strong>, and <strong>verify_numeric_fact</strong></li>
           <li>Unlimited <strong>verify_claim</strong> calls</li>
           <li>Create and run saved monitors with evidence history</li>
           <li>Monitor management and generated change reports</li>
@@ -4118,7 +10938,7 @@ export default {
     </div>
 
     <div class="note">
-      <strong>How it works:</strong> Free tier is for proving the MCP connection. The <strong>Paid Plan</strong> ($${PAID_PLAN_PRICE_USD}/month) unlocks all 7 paid verification tools with ${PAID_MONTHLY_LIMIT.toLocaleString()} included requests per month.
+      <strong>How it works:</strong> Free tier is for proving the MCP connection. The <strong>Paid Plan</strong> ($${PAID_PLAN_PRICE_USD}/month) unlocks all 8 paid verification tools with ${PAID_MONTHLY_LIMIT.toLocaleString()} included requests per month.
     </div>
 
     <div class="faq">
@@ -4138,7 +10958,7 @@ export default {
         </div>
         <div class="faq-item">
           <dt>What's included in the Paid Plan?</dt>
-          <dd>All 7 paid tools are unlocked with a single $${PAID_PLAN_PRICE_USD}/month subscription: <strong>check_pricing</strong>, <strong>estimate_market</strong>, <strong>compare_competitors</strong>, <strong>compare_pricing_pages</strong>, <strong>test_hypothesis</strong>, <strong>assess_compliance_posture</strong>, and <strong>verify_claim</strong> (unlimited).</dd>
+          <dd>All 8 paid tools are unlocked with a single $${PAID_PLAN_PRICE_USD}/month subscription: <strong>check_pricing</strong>, <strong>estimate_market</strong>, <strong>compare_competitors</strong>, <strong>compare_pricing_pages</strong>, <strong>test_hypothesis</strong>, <strong>assess_compliance_posture</strong>, <strong>verify_numeric_fact</strong>, and <strong>verify_claim</strong> (unlimited).</dd>
         </div>
         <div class="faq-item">
           <dt>What happens if I cancel my plan?</dt>
@@ -4349,7 +11169,7 @@ export default {
       <h3>How to Use Your API Key</h3>
       <p>Direct MCP over HTTP is session-based. Initialize once, then send your API key on tool calls:</p>
       <pre>X-API-Key: ${apiKey}</pre>
-      <p style="margin-top: 15px;">Monthly quota: ${quota.toLocaleString()} tool requests (Paid plan). Includes all 7 paid tools.</p>
+      <p style="margin-top: 15px;">Monthly quota: ${quota.toLocaleString()} tool requests (Paid plan). Includes all 8 paid tools.</p>
       
       <p style="margin-top: 15px;">Example with curl:</p>
       <pre>SESSION_ID="$(curl -i -s -X POST https://ground-truth-mcp.anishdasmail.workers.dev/mcp \\
@@ -4522,8 +11342,8 @@ curl -X POST https://ground-truth-mcp.anishdasmail.workers.dev/mcp \\
         const start = Date.now();
         if (tool === "check_endpoint") {
           try {
-            const resp = await fetch(normalizedUrl, { headers: { "User-Agent": "GroundTruth/0.4" } });
-            const sample = (await resp.text()).slice(0, 600);
+            const { response: resp, body, timing } = await timedFetch(normalizedUrl, { headers: { "User-Agent": "GroundTruth/0.4" } });
+            const sample = body.slice(0, 600);
             return jsonResponse({
               tool: "check_endpoint",
               tier: "free",
@@ -4532,7 +11352,8 @@ curl -X POST https://ground-truth-mcp.anishdasmail.workers.dev/mcp \\
               accessible: resp.ok,
               status: resp.status,
               contentType: resp.headers.get("content-type"),
-              responseTimeMs: Date.now() - start,
+              responseTimeMs: timing.timeToHeadersMs,
+              timing,
               authRequired: resp.status === 401 || resp.status === 403,
               rateLimited: resp.status === 429,
               sampleResponse: sample,
@@ -4543,7 +11364,7 @@ curl -X POST https://ground-truth-mcp.anishdasmail.workers.dev/mcp \\
               tier: "free",
               url: normalizedUrl,
               accessible: false,
-              error: e instanceof Error ? e.message : String(e),
+              ...describeOutboundError(e),
               responseTimeMs: Date.now() - start,
             });
           }
@@ -4551,8 +11372,7 @@ curl -X POST https://ground-truth-mcp.anishdasmail.workers.dev/mcp \\
 
         // tool === "check_pricing": a free, in-browser taste of a paid tool.
         try {
-          const resp = await fetch(normalizedUrl, { headers: { "User-Agent": "GroundTruth/0.4" } });
-          const body = await resp.text();
+          const { response: resp, body, timing } = await timedFetch(normalizedUrl, { headers: { "User-Agent": "GroundTruth/0.4" } });
           const signals = extractPricingSignals(body);
           return jsonResponse({
             tool: "check_pricing",
@@ -4565,7 +11385,8 @@ curl -X POST https://ground-truth-mcp.anishdasmail.workers.dev/mcp \\
             plansDetected: signals.plansDetected,
             hasFreeOption: signals.hasFreeOption,
             hasFreeTrial: signals.hasFreeTrial,
-            responseTimeMs: Date.now() - start,
+            responseTimeMs: timing.timeToHeadersMs,
+            timing,
           });
         } catch (e) {
           return jsonResponse({
@@ -4573,7 +11394,7 @@ curl -X POST https://ground-truth-mcp.anishdasmail.workers.dev/mcp \\
             tier: "paid-preview",
             url: normalizedUrl,
             accessible: false,
-            error: e instanceof Error ? e.message : String(e),
+            ...describeOutboundError(e),
             responseTimeMs: Date.now() - start,
           });
         }
@@ -5018,6 +11839,11 @@ curl -X POST https://ground-truth-mcp.anishdasmail.workers.dev/mcp \\
           <ul>
             <li><code>check_endpoint</code></li>
             <li><code>inspect_security_headers</code></li>
+            <li><code>inspect_tls</code></li>
+            <li><code>inspect_well_known</code></li>
+            <li><code>check_cors</code></li>
+            <li><code>extract_structured_data</code></li>
+            <li><code>verify_receipt</code></li>
             <li>100 requests per calendar month</li>
             <li>No API key required for free checks</li>
           </ul>